@@ -1,6 +1,6 @@
 'use client';
 
-import { SolidityContract } from '@/types/api';
+import { ContractDeclaration, SolidityContract } from '@/types/api';
 import { Code2, Package, BookOpen, Library } from 'lucide-react';
 
 interface ContractListProps {
@@ -14,6 +14,25 @@ const typeIcons: Record<string, React.ReactNode> = {
   library: <Library className="w-4 h-4" />,
 };
 
+const visibilityColors: Record<string, string> = {
+  public: 'text-blue-700 dark:text-blue-400',
+  external: 'text-blue-700 dark:text-blue-400',
+  internal: 'text-muted-foreground',
+  private: 'text-muted-foreground',
+};
+
+function DeclarationRow({ label, items }: { label: string; items?: ContractDeclaration[] }) {
+  if (!items || items.length === 0) {
+    return null;
+  }
+  return (
+    <div className="text-muted-foreground">
+      <span className="font-semibold text-foreground">{label}:</span>{' '}
+      {items.map((item) => (item.range ? `${item.name} (L${item.range.startLine})` : item.name)).join(', ')}
+    </div>
+  );
+}
+
 const typeColors: Record<string, string> = {
   contract: 'bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20',
   abstract: 'bg-purple-500/10 text-purple-700 dark:text-purple-400 border-purple-500/20',
@@ -77,6 +96,35 @@ export function ContractList({ contracts }: ContractListProps) {
                 {contract.inherits.join(', ')}
               </div>
             )}
+            {contract.functions && contract.functions.length > 0 && (
+              <div className="text-muted-foreground">
+                <span className="font-semibold text-foreground">Functions:</span>{' '}
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {contract.functions.map((fn, i) => (
+                    <code
+                      key={i}
+                      className={`bg-muted px-2 py-1 rounded text-xs break-all ${visibilityColors[fn.visibility]}`}
+                      title={[fn.visibility, fn.stateMutability, ...fn.modifiers].filter(Boolean).join(' ')}
+                    >
+                      {fn.signature}
+                    </code>
+                  ))}
+                </div>
+              </div>
+            )}
+            <DeclarationRow label="Modifiers" items={contract.modifiers} />
+            <DeclarationRow label="Events" items={contract.events} />
+            <DeclarationRow label="Errors" items={contract.errors} />
+            <DeclarationRow label="Structs" items={contract.structs} />
+            <DeclarationRow label="Enums" items={contract.enums} />
+            {contract.usingFor && contract.usingFor.length > 0 && (
+              <div className="text-muted-foreground">
+                <span className="font-semibold text-foreground">Using:</span>{' '}
+                {contract.usingFor
+                  .map((u) => `${u.library || `{${u.functions.join(', ')}}`} for ${u.target}${u.global ? ' global' : ''}`)
+                  .join('; ')}
+              </div>
+            )}
             {contract.imports.length > 0 && (
               <div className="text-muted-foreground">
                 <span className="font-semibold text-foreground">Imports:</span>{' '}
@@ -27,8 +27,9 @@ export function RepositoryInput({
       return;
     }
 
-    if (!url.includes('github.com')) {
-      setLocalError('Please enter a valid GitHub repository URL');
+    // The server decides which forge hosts it supports
+    if (!/^(https?:\/\/)?[\w.-]+(:\d+)?\/[^/\s]+\/[^\s]+$/.test(url.trim())) {
+      setLocalError('Please enter a valid repository URL');
       return;
     }
 
@@ -50,7 +51,7 @@ export function RepositoryInput({
           Ingest Repository
         </h2>
         <p className="text-sm text-muted-foreground">
-          Enter a GitHub repository URL to analyze smart contracts and plan migrations.
+          Enter a GitHub, GitLab, Bitbucket or Gitea repository URL to analyze smart contracts and plan migrations.
         </p>
       </div>
 
@@ -43,6 +43,34 @@ export interface ContractDependency {
   path?: string;
 }
 
+export interface SourceRange {
+  startLine: number;
+  endLine: number;
+  startByte: number;
+  endByte: number;
+}
+
+export interface ContractFunction {
+  name: string;
+  kind: 'function' | 'constructor' | 'fallback' | 'receive';
+  visibility: 'public' | 'external' | 'internal' | 'private';
+  stateMutability?: 'pure' | 'view' | 'payable' | 'nonpayable';
+  signature: string;
+  modifiers: string[];
+}
+
+export interface ContractDeclaration {
+  name: string;
+  range?: SourceRange;
+}
+
+export interface UsingForDirective {
+  library?: string;
+  functions: string[];
+  target: string;
+  global: boolean;
+}
+
 export interface SolidityContract {
   name: string;
   type: 'contract' | 'abstract' | 'interface' | 'library';
@@ -54,6 +82,13 @@ export interface SolidityContract {
   hasAssembly: boolean;
   isProxy: boolean;
   lineCount?: number;
+  functions?: ContractFunction[];
+  modifiers?: ContractDeclaration[];
+  events?: ContractDeclaration[];
+  errors?: ContractDeclaration[];
+  structs?: ContractDeclaration[];
+  enums?: ContractDeclaration[];
+  usingFor?: UsingForDirective[];
 }
 
 export interface SolidityAnalysisWarning {
@@ -13,7 +13,14 @@ import {
   ValidationReport,
   SolidityAnalysisResult,
   MigrationPlan,
+  LintFinding,
+  ProtocolDependency,
 } from '../types/index.js';
+import { SENSITIVE_OPCODES, findSensitiveOpcodes } from '../analysis/opcodes.js';
+import { compareStorageLayouts } from '../analysis/storageLayout.js';
+import { MONAD_LINT_RULES } from '../analysis/monadLint.js';
+import { missingStandardFunctions } from '../analysis/tokenStandards.js';
+import { importPackage } from '../analysis/importResolver.js';
 
 const EXPLANATION_SYSTEM_PROMPT = `You are an expert Solidity developer and migration specialist.
 
@@ -222,7 +229,8 @@ Explain what developers need to know when they see this transformation.`;
     // Check 1: Validate imports
     logger.debug('Checking imports...');
     const importIssues = this.validateImports(analysisResult);
-    errors.push(...importIssues);
+    errors.push(...importIssues.errors);
+    warnings.push(...importIssues.warnings);
 
     // Check 2: Validate inheritance chains
     logger.debug('Checking inheritance...');
@@ -239,11 +247,30 @@ Explain what developers need to know when they see this transformation.`;
     const monadWarnings = this.performMonadChecks(analysisResult);
     warnings.push(...monadWarnings);
 
+    // External protocols the project's own contracts rely on must exist on Monad
+    const sourceFiles = this.sourceFiles(analysisResult);
+    const protocolDependencies = analysisResult.protocolDependencies.filter((d) => sourceFiles.has(d.filePath));
+    warnings.push(...this.summarizeProtocolDependencies(protocolDependencies));
+
     // Check 5: Static pattern detection
     logger.debug('Detecting risky patterns...');
     const patternWarnings = this.detectRiskyPatterns(analysisResult);
     warnings.push(...patternWarnings);
 
+    // Check 6: Storage slots must not move, or deployed state is misread after an upgrade
+    if (transformationReport.storageLayouts) {
+      logger.debug('Comparing storage layouts...');
+      const layoutIssues = this.compareStorageLayouts(analysisResult, transformationReport);
+      errors.push(...layoutIssues.errors);
+      warnings.push(...layoutIssues.warnings);
+    }
+
+    // Check 7: Transformed contracts must still satisfy the token standards they did
+    if (transformationReport.interfaces) {
+      logger.debug('Checking token standards...');
+      errors.push(...this.compareStandards(analysisResult, transformationReport));
+    }
+
     // Attempt compilation status (best effort, don't fail)
     let compilationStatus: 'success' | 'failed' | 'not-attempted' = 'not-attempted';
     try {
@@ -296,47 +323,47 @@ Explain what developers need to know when they see this transformation.`;
       warnings,
       confidenceScore,
       notes,
+      protocolDependencies,
     };
   }
 
-  private validateImports(analysis: SolidityAnalysisResult): string[] {
-    const issues: string[] = [];
-    const contractFiles = new Map<string, string>();
+  private validateImports(analysis: SolidityAnalysisResult): { errors: string[]; warnings: string[] } {
+    // Imports were resolved through relative paths and remappings during analysis
+    const unresolved = analysis.unresolvedImports || [];
+    const errors = unresolved
+      .filter((entry) => entry.reason !== 'not-ingested')
+      .map((entry) => `File ${entry.filePath} imports missing file: ${entry.importPath} (resolved to ${entry.resolvedPath})`);
 
-    // Build map of contracts to files
-    for (const contract of analysis.contracts) {
-      contractFiles.set(contract.name, contract.filePath);
-    }
-
-    // Check imports
-    for (const contract of analysis.contracts) {
-      for (const importedName of contract.imports) {
-        // Simple check: imported name should exist as a contract or be a known library
-        if (!contractFiles.has(importedName) && !importedName.includes('@')) {
-          issues.push(
-            `Contract ${contract.name} imports unknown contract: ${importedName}`
-          );
-        }
-      }
-    }
-
-    return issues;
+    // Dependencies outside the tree aren't errors, but what they declare went unchecked
+    const packages = new Set(
+      unresolved.filter((entry) => entry.reason === 'not-ingested').map((entry) => importPackage(entry.importPath))
+    );
+    const warnings =
+      packages.size > 0
+        ? [
+            `Imported dependencies were not ingested, so contracts built on them were only partially validated: ${Array.from(packages).join(', ')}`,
+          ]
+        : [];
+
+    return { errors, warnings };
   }
 
   private validateInheritance(analysis: SolidityAnalysisResult): string[] {
     const issues: string[] = [];
-    const contractNames = new Set(analysis.contracts.map((c) => c.name));
 
-    // Check inheritance chains
+    // Check inheritance chains; bases were resolved through import scopes during analysis
     for (const contract of analysis.contracts) {
-      for (const parent of contract.inherits) {
-        if (!contractNames.has(parent) && !parent.includes('IERC')) {
+      for (const base of contract.linearization) {
+        if (!base.filePath && contract.inherits.includes(base.name) && !base.name.includes('IERC')) {
           // Allow common ERC interfaces
           issues.push(
-            `Contract ${contract.name} inherits from unknown parent: ${parent}`
+            `Contract ${contract.name} inherits from unknown parent: ${base.name}`
           );
         }
       }
+      if (contract.linearizationError) {
+        issues.push(`Contract ${contract.name}: ${contract.linearizationError}`);
+      }
     }
 
     return issues;
@@ -353,7 +380,7 @@ Explain what developers need to know when they see this transformation.`;
     for (const contract of analysis.contracts) {
       for (const func of contract.functions) {
         // Simple heuristic: function names and parameter types should reference known things
-        const paramTypes = func.parameters.join(' ');
+        const paramTypes = func.parameters.map((p) => p.type).join(' ');
         // This is a best-effort check
       }
     }
@@ -361,54 +388,133 @@ Explain what developers need to know when they see this transformation.`;
     return issues;
   }
 
-  private performMonadChecks(analysis: SolidityAnalysisResult): string[] {
+  /**
+   * Slot shifts are errors for upgradeable contracts, whose proxies keep the old
+   * layout, and warnings for contracts that are redeployed from scratch
+   */
+  private compareStorageLayouts(
+    analysis: SolidityAnalysisResult,
+    transformationReport: TransformationReport
+  ): { errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
     const warnings: string[] = [];
+    // Proxies keep the layout of the implementations and facets behind them
+    const upgradeable = new Set(
+      analysis.upgradeableContracts
+        .filter((u) => u.role === 'implementation' || u.role === 'facet')
+        .map((u) => u.contractName)
+    );
+
+    for (const change of compareStorageLayouts(
+      analysis.storageLayouts || [],
+      transformationReport.storageLayouts || []
+    )) {
+      if (upgradeable.has(change.contractName)) {
+        errors.push(`Storage layout of upgradeable contract ${change.contractName}: ${change.issue}`);
+      } else {
+        warnings.push(`Storage layout of ${change.contractName}: ${change.issue}`);
+      }
+    }
+
+    return { errors, warnings };
+  }
 
-    // Check 1: Assembly usage
-    const assemblyContracts = analysis.contracts.filter((c) =>
-      c.functions.some((f) => f.name.toLowerCase().includes('asm'))
+  /**
+   * Standards a contract satisfied before transformation but no longer does, with the
+   * functions it stopped exposing. Contracts that were removed are reported elsewhere.
+   */
+  private compareStandards(analysis: SolidityAnalysisResult, transformationReport: TransformationReport): string[] {
+    const errors: string[] = [];
+    const transformed = new Map(
+      (transformationReport.interfaces || []).map((i) => [`${i.filePath}:${i.contractName}`, i])
     );
+
+    for (const original of analysis.interfaces) {
+      const current = transformed.get(`${original.filePath}:${original.contractName}`);
+      if (!current) continue;
+
+      for (const standard of original.standards.filter((s) => !current.standards.includes(s))) {
+        const missing = missingStandardFunctions(standard, current.functions);
+        errors.push(
+          `${original.contractName} (${original.filePath}) no longer satisfies ${standard}${missing.length > 0 ? `: missing ${missing.join(', ')}` : ''}`
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  private performMonadChecks(analysis: SolidityAnalysisResult): string[] {
+    const warnings: string[] = [];
+
+    // Check 1: Assembly usage, with the opcodes that behave differently on Monad
+    const assemblyContracts = analysis.contracts.filter((c) => c.assembly.length > 0);
     if (assemblyContracts.length > 0) {
       warnings.push(
         `⚠️ Assembly code detected in ${assemblyContracts.length} contract(s). Verify Monad EVM compatibility.`
       );
+      for (const contract of assemblyContracts) {
+        for (const block of contract.assembly) {
+          const sensitive = findSensitiveOpcodes(block.opcodes);
+          if (sensitive.length > 0) {
+            warnings.push(
+              `⚠️ ${contract.name}${block.functionName ? `.${block.functionName}` : ''} (${contract.filePath}:${block.range.startLine}) uses ${sensitive.join(', ')} in assembly: ${sensitive.map((op) => SENSITIVE_OPCODES[op]).join('; ')}`
+            );
+          }
+        }
+      }
     }
 
-    // Check 2: Timestamp/block-dependent logic
-    const timeCheckContracts = analysis.contracts.filter((c) =>
-      c.functions.some(
-        (f) =>
-          f.name.toLowerCase().includes('time') ||
-          f.name.toLowerCase().includes('block') ||
-          f.name.toLowerCase().includes('deadline')
-      )
-    );
-    if (timeCheckContracts.length > 0) {
-      warnings.push(
-        `⚠️ Time/block-dependent logic found. Monad has ~4s block times vs Ethereum's ~12s.`
-      );
+    // Check 2: Lint findings in project sources, one line per rule with its first locations
+    const sourceFiles = this.sourceFiles(analysis);
+    const byRule = new Map<string, LintFinding[]>();
+    for (const finding of analysis.lintFindings.filter((f) => sourceFiles.has(f.filePath))) {
+      byRule.set(finding.ruleId, [...(byRule.get(finding.ruleId) || []), finding]);
     }
-
-    // Check 3: High number of state reads in loop
-    const loopRiskContracts = analysis.contracts.filter(
-      (c) => c.functions.length > 50
-    );
-    if (loopRiskContracts.length > 0) {
+    for (const [ruleId, findings] of byRule) {
+      const description = MONAD_LINT_RULES.find((r) => r.id === ruleId)?.description || ruleId;
+      const locations = findings.slice(0, 3).map((f) => `${f.filePath}:${f.range.startLine}`);
       warnings.push(
-        `⚠️ Large contracts detected. Verify no unbounded loops over state mappings.`
+        `⚠️ ${ruleId}: ${findings.length} match(es) of ${description} (${locations.join(', ')}${findings.length > locations.length ? ', ...' : ''})`
       );
     }
 
-    // Check 4: Upgradeable pattern
+    // Check 3: Upgradeable pattern
     if (analysis.upgradeableContracts.length > 0) {
+      const patterns = Array.from(new Set(analysis.upgradeableContracts.flatMap((u) => (u.pattern ? [u.pattern] : []))));
       warnings.push(
-        `ℹ️ UUPS/Proxy pattern detected. Ensure implementation contract validation on Monad.`
+        `ℹ️ Proxy pattern detected (${patterns.join(', ') || 'initializable'}). Ensure implementation contract validation on Monad.`
       );
     }
+    for (const upgradeable of analysis.upgradeableContracts) {
+      for (const issue of upgradeable.issues) {
+        warnings.push(`⚠️ ${upgradeable.contractName} (${upgradeable.role}): ${issue}`);
+      }
+    }
 
     return warnings;
   }
 
+  private sourceFiles(analysis: SolidityAnalysisResult): Set<string> {
+    return new Set(analysis.files.filter((f) => f.role === 'source').map((f) => f.filePath));
+  }
+
+  /**
+   * One warning per protocol, naming the contracts that rely on it
+   */
+  private summarizeProtocolDependencies(dependencies: ProtocolDependency[]): string[] {
+    const byProtocol = new Map<string, ProtocolDependency[]>();
+    for (const dependency of dependencies) {
+      byProtocol.set(dependency.protocol, [...(byProtocol.get(dependency.protocol) || []), dependency]);
+    }
+
+    return Array.from(byProtocol, ([protocol, users]) => {
+      const contracts = Array.from(new Set(users.map((d) => d.contractName)));
+      const note = users[0].note ? ` (${users[0].note})` : '';
+      return `⚠️ ${contracts.join(', ')} rely on ${protocol} [${users[0].category}]. Verify it is available on Monad${note}.`;
+    });
+  }
+
   private detectRiskyPatterns(analysis: SolidityAnalysisResult): string[] {
     const warnings: string[] = [];
 
@@ -12,7 +12,16 @@ import {
   MigrationRecommendation,
   ConfidenceLevel,
   RepositoryMetadata,
+  FileRole,
+  SourceRange,
+  StateAccess,
+  LintFinding,
+  ChainConstant,
 } from '../types/index.js';
+import { DEFAULT_TARGET_ROLES } from '../ingestion/fileTypeDetector.js';
+import { formatFunctionSignature } from '../analysis/solidityAnalyzer.js';
+import { SENSITIVE_OPCODES, findSensitiveOpcodes } from '../analysis/opcodes.js';
+import { importPackage } from '../analysis/importResolver.js';
 
 const MONAD_KNOWLEDGE_BASE = `
 # Monad Blockchain - Migration Context
@@ -42,7 +51,7 @@ Monad is a high-performance, EVM-equivalent blockchain designed for scalability
 2. **Storage Layout**: Consider field ordering for gas efficiency
 3. **Event Emission**: Indexing strategy same as Ethereum
 4. **Gas Limits**: Block gas limit on Monad (to be confirmed)
-5. **Timestamp/Block**: Use same assumptions as Ethereum
+5. **Timestamp/Block**: Blocks are much shorter than Ethereum's, so durations counted in blocks elapse sooner
 
 ## Risk Areas
 - External calls to non-migratable contracts
@@ -79,6 +88,7 @@ Respond with a JSON array of migration recommendations following this schema:
   {
     "filePath": "contracts/Token.sol",
     "contractName": "Token",
+    "functionName": "transfer",
     "changeCategory": "gas-optimization|monad-feature|evm-compatibility|performance|architecture|security-consideration",
     "recommendedChange": "Brief description of what should change (NOT code)",
     "rationale": "Why this change improves migration to Monad",
@@ -88,6 +98,7 @@ Respond with a JSON array of migration recommendations following this schema:
   }
 ]
 
+Set functionName when a recommendation concerns a single function; omit it for contract-wide changes.
 Only output valid JSON, no additional text.
 `;
 
@@ -104,19 +115,51 @@ export class MigrationPlanner {
 
   async planMigration(
     repoMetadata: RepositoryMetadata,
-    analysisResult: SolidityAnalysisResult
+    analysisResult: SolidityAnalysisResult,
+    includeRoles: FileRole[] = DEFAULT_TARGET_ROLES
   ): Promise<MigrationPlan> {
     logger.info(
-      { repo: repoMetadata.fullName, contracts: analysisResult.stats.totalContracts },
+      { repo: repoMetadata.fullName, contracts: analysisResult.stats.totalContracts, includeRoles },
       'Starting migration planning'
     );
 
     try {
+      // Only plan for files in the requested roles; the rest is context only
+      const targetContracts = analysisResult.contracts.filter((c) =>
+        includeRoles.includes(c.role || 'source')
+      );
+      const excludedFiles = new Set(
+        analysisResult.contracts
+          .filter((c) => !includeRoles.includes(c.role || 'source'))
+          .map((c) => c.filePath)
+      );
+
       // Build context from analysis
-      const context = this.buildContext(repoMetadata, analysisResult);
+      const context = this.buildContext(
+        repoMetadata,
+        { ...analysisResult, contracts: targetContracts },
+        analysisResult.contracts.length - targetContracts.length
+      );
 
-      // Call Claude with context
-      const recommendations = await this.generateRecommendations(context);
+      // Lint findings in planned files come first; the model only adds what the rules can't see
+      const plannedFiles = new Set(targetContracts.map((c) => c.filePath));
+      const lintRecommendations = analysisResult.lintFindings
+        .filter((f) => plannedFiles.has(f.filePath))
+        .map((f) => this.lintRecommendation(f));
+
+      // Deployment scripts aren't parsed, so their hardcoded addresses and chain IDs come from the registry pass
+      const scriptRecommendations = analysisResult.chainConstants
+        .filter((c) => !c.contractName && !c.portable && includeRoles.includes(c.role))
+        .map((c) => this.scriptRecommendation(c));
+
+      // Call Claude with context, dropping anything aimed at out-of-scope files
+      const recommendations = [
+        ...lintRecommendations,
+        ...scriptRecommendations,
+        ...(await this.generateRecommendations(context))
+          .filter((r) => !excludedFiles.has(r.filePath))
+          .map((r) => ({ ...r, targetRange: this.resolveTargetRange(r, targetContracts) })),
+      ];
 
       // Structure the plan
       const plan: MigrationPlan = {
@@ -124,10 +167,11 @@ export class MigrationPlanner {
         timestamp: new Date().toISOString(),
         analysisId: `${repoMetadata.fullName}-${Date.now()}`,
         monadVersion: this.monadVersion,
+        includedRoles: includeRoles,
         recommendations,
         summary: {
-          totalFilesAnalyzed: analysisResult.contracts.length,
-          totalContractsAnalyzed: analysisResult.stats.totalContracts,
+          totalFilesAnalyzed: new Set(targetContracts.map((c) => c.filePath)).size,
+          totalContractsAnalyzed: targetContracts.length,
           totalRecommendations: recommendations.length,
           highConfidenceCount: recommendations.filter((r) => r.confidenceLevel === 'high').length,
           mediumConfidenceCount: recommendations.filter((r) => r.confidenceLevel === 'medium').length,
@@ -156,40 +200,73 @@ export class MigrationPlanner {
 
   private buildContext(
     repoMetadata: RepositoryMetadata,
-    analysis: SolidityAnalysisResult
+    analysis: SolidityAnalysisResult,
+    excludedContracts: number
   ): string {
     const contractSummary = analysis.contracts
       .map((c) => {
+        const externalFunctions = c.functions
+          .filter((f) => f.visibility === 'public' || f.visibility === 'external')
+          .map((f) => `\n    - ${formatFunctionSignature(f)}`)
+          .join('');
         return `
 Contract: ${c.name}
   Type: ${c.type}
   File: ${c.filePath}
-  Functions: ${c.functions.length} (${c.functions.filter((f) => f.visibility === 'public').length} public/external)
+  Functions: ${c.functions.length} (${c.functions.filter((f) => f.visibility === 'public' || f.visibility === 'external').length} public/external)${externalFunctions}
   State Variables: ${c.stateVariables.length}
+  Modifiers: ${c.modifiers.map((m) => m.name).join(', ') || 'none'}
+  Assembly: ${c.assembly.map((a) => `${a.functionName || 'contract'} (${Object.keys(a.opcodes).join(', ')})`).join('; ') || 'none'}
+  Events: ${c.events.length}, Custom Errors: ${c.errors.length}, Structs: ${c.structs.length}, Enums: ${c.enums.length}
   Imports: ${c.imports.join(', ') || 'none'}
   Inherits: ${c.inherits.join(', ') || 'none'}
+  Linearization: ${c.linearization.map((r) => r.name).join(' -> ')}
+  Effective Functions: ${c.effectiveFunctions.length} (${c.effectiveFunctions.filter((f) => f.definedIn !== c.name).length} inherited, ${c.effectiveFunctions.filter((f) => f.overrides.length > 0).length} overriding)
   Upgradeable Pattern: ${c.usesUpgradeablePattern ? 'yes' : 'no'}
+  Token Standards: ${c.standards.join(', ') || 'none'}
 `;
       })
       .join('\n');
 
     const dependencySummary = this.summarizeDependencies(analysis);
 
+    const protocolSummary = this.summarizeProtocols(analysis);
+
+    const stateAccessSummary = this.summarizeStateAccess(analysis);
+
+    const compilerSummary = this.summarizeCompiler(analysis);
+
+    const lintSummary = this.summarizeLintFindings(analysis);
+
     const riskFlags = this.identifyRiskFlags(analysis);
 
     return `
   REPOSITORY: ${repoMetadata.fullName}
   URL: ${repoMetadata.url}
   DEFAULT BRANCH: ${repoMetadata.defaultBranch}
+  REF: ${repoMetadata.ref || repoMetadata.defaultBranch}
+  COMMIT: ${repoMetadata.commitSha || 'uncommitted working tree'}
   PRIVATE: ${repoMetadata.isPrivate ? 'yes' : 'no'}
   DESCRIPTION: ${repoMetadata.description || 'none'}
 
 ## Contract Summary
 ${contractSummary}
-
+${excludedContracts > 0 ? `(${excludedContracts} contracts in tests, scripts, mocks or vendored libraries are out of scope - do not recommend changes to them)\n` : ''}
 ## Dependency Graph
 ${dependencySummary}
 
+## External Protocol Dependencies
+${protocolSummary}
+
+## State Access & Contention
+${stateAccessSummary}
+
+## Compiler & EVM Version
+${compilerSummary}
+
+## Lint Findings (already in the plan - do not repeat them)
+${lintSummary}
+
 ## Risk Flags Detected
 ${riskFlags.length > 0 ? riskFlags.map((f) => `- ${f}`).join('\n') : 'None identified'}
 
@@ -204,10 +281,83 @@ ${riskFlags.length > 0 ? riskFlags.map((f) => `- ${f}`).join('\n') : 'None ident
 ${analysis.entryPointContracts.join('\n') || 'None identified'}
 
 ## Upgradeable Contracts
-${analysis.upgradeableContracts.join('\n') || 'None detected'}
+${this.summarizeUpgradeable(analysis)}
 `;
   }
 
+  /**
+   * Locate the code a recommendation concerns: the named function if it exists, else its contract
+   */
+  private resolveTargetRange(
+    recommendation: MigrationRecommendation,
+    contracts: SolidityAnalysisResult['contracts']
+  ): SourceRange | undefined {
+    const contract =
+      contracts.find((c) => c.name === recommendation.contractName && c.filePath === recommendation.filePath) ||
+      contracts.find((c) => c.name === recommendation.contractName);
+    if (!contract) {
+      return undefined;
+    }
+
+    const fn = recommendation.functionName
+      ? contract.functions.find((f) => f.name === recommendation.functionName)
+      : undefined;
+    return (fn || contract).range;
+  }
+
+  /**
+   * Lint rules match the AST exactly, so their findings are rated high confidence
+   */
+  private lintRecommendation(finding: LintFinding): MigrationRecommendation {
+    return {
+      filePath: finding.filePath,
+      contractName: finding.contractName,
+      functionName: finding.functionName,
+      changeCategory: finding.changeCategory,
+      recommendedChange: finding.message,
+      rationale: finding.rationale,
+      confidenceLevel: 'high',
+      targetRange: finding.range,
+      ruleId: finding.ruleId,
+    };
+  }
+
+  private scriptRecommendation(constant: ChainConstant): MigrationRecommendation {
+    let rationale = 'Scripts gated on the chain ID of another network skip or misconfigure deployments on Monad';
+    if (constant.kind === 'address') {
+      rationale = constant.known
+        ? `Deploying to Monad with this script would wire contracts to the Ethereum mainnet ${constant.known.name}${constant.known.note ? `; ${constant.known.note}` : ''}`
+        : 'Addresses of Ethereum mainnet deployments usually differ on Monad, or have no deployment there';
+    }
+
+    return {
+      filePath: constant.filePath,
+      contractName: constant.filePath.split('/').pop() || constant.filePath,
+      changeCategory: constant.kind === 'address' ? 'architecture' : 'evm-compatibility',
+      recommendedChange: constant.recommendation,
+      rationale,
+      confidenceLevel: 'high',
+      targetRange: constant.range,
+      ruleId: constant.kind === 'address' ? 'hardcoded-address' : 'hardcoded-chain-id',
+    };
+  }
+
+  private summarizeLintFindings(analysis: SolidityAnalysisResult): string {
+    const planned = new Set(analysis.contracts.map((c) => c.filePath));
+    const findings = analysis.lintFindings.filter((f) => planned.has(f.filePath));
+
+    const lines = findings
+      .slice(0, 30)
+      .map(
+        (f) =>
+          `- [${f.ruleId}] ${f.contractName}${f.functionName ? `.${f.functionName}` : ''} (${f.filePath}:${f.range.startLine}): ${f.snippet}`
+      );
+    if (findings.length > lines.length) {
+      lines.push(`- ...and ${findings.length - lines.length} more`);
+    }
+    return lines.join('\n') || 'None';
+  }
+
   private summarizeDependencies(analysis: SolidityAnalysisResult): string {
     const imports = analysis.contracts
       .flatMap((c) => c.imports.map((imp) => `${c.name} → ${imp}`))
@@ -219,6 +369,13 @@ ${analysis.upgradeableContracts.join('\n') || 'None detected'}
       .filter((v, i, a) => a.indexOf(v) === i)
       .slice(0, 10);
 
+    // Calls that leave the contract, where parallel transactions can interleave
+    const outgoingCalls = analysis.dependencyGraph.edges
+      .filter((e) => e.type !== 'import' && e.type !== 'inheritance' && e.type !== 'internal-call')
+      .map((e) => `${e.from}.${e.caller} → ${e.type} ${e.to}${e.callee ? `.${e.callee}` : ''}`)
+      .filter((v, i, a) => a.indexOf(v) === i)
+      .slice(0, 10);
+
     return `
 Imports (top 10):
 ${imports.join('\n') || 'None'}
@@ -226,19 +383,134 @@ ${imports.join('\n') || 'None'}
 Inheritance (top 10):
 ${inheritance.join('\n') || 'None'}
 
+Outgoing calls (top 10):
+${outgoingCalls.join('\n') || 'None'}
+
 Cross-contract dependencies: ${analysis.dependencyGraph.edges.length} edges
 `;
   }
 
+  /**
+   * Oracles, DEXes and other protocols the planned contracts rely on, with what gave each away
+   */
+  private summarizeProtocols(analysis: SolidityAnalysisResult): string {
+    const planned = new Set(analysis.contracts.map((c) => `${c.filePath}:${c.name}`));
+    return (
+      analysis.protocolDependencies
+        .filter((d) => planned.has(`${d.filePath}:${d.contractName}`))
+        .slice(0, 20)
+        .map(
+          (d) =>
+            `- ${d.contractName} → ${d.protocol} [${d.category}] via ${d.evidence.join(', ')}${d.note ? ` (${d.note})` : ''}`
+        )
+        .join('\n') || 'None detected'
+    );
+  }
+
+  /**
+   * Proxies, implementations and factories with their pattern, pairing and issues
+   */
+  private summarizeUpgradeable(analysis: SolidityAnalysisResult): string {
+    return (
+      analysis.upgradeableContracts
+        .map((u) => {
+          const paired = u.pairedWith.length > 0 ? ` paired with ${u.pairedWith.join(', ')}` : '';
+          const issues = u.issues.map((issue) => `\n    ! ${issue}`).join('');
+          return `- ${u.contractName}: ${u.role}${u.pattern ? ` (${u.pattern})` : ''}${paired} via ${u.evidence.join(', ')}${issues}`;
+        })
+        .join('\n') || 'None detected'
+    );
+  }
+
+  /**
+   * Storage each entry function touches, and the global slots that serialize them
+   */
+  private summarizeStateAccess(analysis: SolidityAnalysisResult): string {
+    const planned = new Set(analysis.contracts.map((c) => c.name));
+    const format = (accesses: StateAccess[]) =>
+      accesses.map((a) => `${a.slot} (${a.scope})`).join(', ') || 'none';
+
+    const hotspots = analysis.contention.hotspots
+      .filter((h) => planned.has(h.contractName))
+      .slice(0, 10)
+      .map(
+        (h) =>
+          `- ${h.contractName}.${h.slot}: written by ${h.writers.join(', ')}${h.readers.length > 0 ? `; read by ${h.readers.join(', ')}` : ''}`
+      );
+
+    const writers = analysis.contention.functions
+      .filter((f) => planned.has(f.contractName) && f.writes.length > 0)
+      .slice(0, 20)
+      .map((f) => `- ${f.contractName}.${f.function}: writes ${format(f.writes)}; reads ${format(f.reads)}`);
+
+    return `
+Global hot slots (every transaction writing one conflicts with every other touching it):
+${hotspots.join('\n') || 'None'}
+
+State-changing entry functions (top 20; sender-keyed slots rarely conflict, keyed slots only on equal keys):
+${writers.join('\n') || 'None'}
+`;
+  }
+
+  /**
+   * Pragmas of the planned files, the compiler range the repository resolves to,
+   * and the EVM features the compiled code may rely on
+   */
+  private summarizeCompiler(analysis: SolidityAnalysisResult): string {
+    const planned = new Set(analysis.contracts.map((c) => c.filePath));
+    const files = analysis.files.filter((f) => planned.has(f.filePath));
+
+    const pragmas = new Map<string, number>();
+    for (const file of files) {
+      const pragma = file.solidityPragma || 'none';
+      pragmas.set(pragma, (pragmas.get(pragma) || 0) + 1);
+    }
+
+    const features = files
+      .filter((f) => f.evmFeatures.length > 0)
+      .slice(0, 20)
+      .map((f) => `- ${f.filePath} (${f.evmVersion || 'unknown EVM'}): ${f.evmFeatures.join(', ')}`);
+
+    const issues = analysis.compiler.issues
+      .filter((i) => planned.has(i.filePath) || i.kind === 'evm-target')
+      .slice(0, 20)
+      .map((i) => `- [${i.kind}] ${i.filePath}: ${i.message}`);
+
+    return `
+Resolved compiler range: ${analysis.compiler.versionRange || 'unconstrained'}${analysis.compiler.conflictingFiles.length > 0 ? ` (excluding ${analysis.compiler.conflictingFiles.length} conflicting files)` : ''}
+Monad EVM version: ${analysis.compiler.targetEvmVersion}
+
+Pragmas:
+${Array.from(pragmas, ([pragma, count]) => `- ${pragma}: ${count} files`).join('\n') || 'None'}
+
+EVM features by file (top 20):
+${features.join('\n') || 'None'}
+
+Compiler issues (top 20):
+${issues.join('\n') || 'None'}
+`;
+  }
+
   private identifyRiskFlags(analysis: SolidityAnalysisResult): string[] {
     const flags: string[] = [];
+    const planned = new Set(analysis.contracts.map((c) => c.name));
 
-    // Check for assembly usage (from function names with 'asm' or similar)
-    const hasAssembly = analysis.contracts.some((c) =>
-      c.functions.some((f) => f.name.toLowerCase().includes('asm'))
-    );
-    if (hasAssembly) {
-      flags.push('Assembly code detected - requires verification for bytecode compatibility');
+    // Check for inline assembly and the opcodes it relies on
+    const assemblyContracts = analysis.contracts.filter((c) => c.assembly.length > 0);
+    if (assemblyContracts.length > 0) {
+      flags.push(
+        `Assembly code detected in ${assemblyContracts.map((c) => c.name).join(', ')} - requires verification for bytecode compatibility`
+      );
+      // Count over the contracts being planned rather than analysis.opcodeInventory, which covers every file
+      const inventory: Record<string, number> = {};
+      for (const block of assemblyContracts.flatMap((c) => c.assembly)) {
+        for (const [opcode, count] of Object.entries(block.opcodes)) {
+          inventory[opcode] = (inventory[opcode] || 0) + count;
+        }
+      }
+      for (const opcode of findSensitiveOpcodes(inventory)) {
+        flags.push(`Assembly uses ${opcode} (${inventory[opcode]}x) - ${SENSITIVE_OPCODES[opcode]}`);
+      }
     }
 
     // Check for upgradeable patterns
@@ -247,17 +519,60 @@ Cross-contract dependencies: ${analysis.dependencyGraph.edges.length} edges
         `Proxy pattern detected (${analysis.upgradeableContracts.length} upgradeable contracts) - ensure implementation compatibility`
       );
     }
+    for (const upgradeable of analysis.upgradeableContracts.filter((u) => planned.has(u.contractName))) {
+      for (const issue of upgradeable.issues) {
+        flags.push(`${upgradeable.contractName} (${upgradeable.role}): ${issue}`);
+      }
+    }
+
+    // External protocols must be deployed on Monad, at addresses the contracts can be pointed at
+    const protocols = Array.from(
+      new Set(analysis.protocolDependencies.filter((d) => planned.has(d.contractName)).map((d) => d.protocol))
+    );
+    if (protocols.length > 0) {
+      flags.push(`Depends on external protocols (${protocols.join(', ')}) - verify each is available on Monad`);
+    }
 
-    // High number of external calls
-    const highExternalCallCount = analysis.contracts.filter(
-      (c) => c.imports.length > 5
-    ).length;
-    if (highExternalCallCount > 0) {
+    // Contracts calling out, per the call graph
+    const externalCallers = new Set(
+      analysis.dependencyGraph.edges
+        .filter(
+          (e) =>
+            planned.has(e.from) &&
+            (e.type === 'external-call' || e.type === 'low-level-call' || e.type === 'delegatecall' || e.type === 'staticcall')
+        )
+        .map((e) => e.from)
+    );
+    if (externalCallers.size > 0) {
       flags.push(
-        `${highExternalCallCount} contracts with multiple external dependencies - verify all are available on Monad`
+        `${externalCallers.size} contracts make external calls (${Array.from(externalCallers).join(', ')}) - verify all targets are available on Monad`
       );
     }
 
+    // Global slots written by several entry functions serialize otherwise independent transactions
+    for (const hotspot of analysis.contention.hotspots
+      .filter((h) => planned.has(h.contractName) && h.writers.length > 1)
+      .slice(0, 5)) {
+      flags.push(
+        `${hotspot.contractName}.${hotspot.slot} is written by ${hotspot.writers.length} entry functions - transactions calling them conflict under parallel execution`
+      );
+    }
+
+    // Pragmas that need an old compiler or opcodes Monad doesn't execute
+    const plannedFiles = new Set(analysis.contracts.map((c) => c.filePath));
+    const compilerIssues = analysis.compiler.issues.filter(
+      (i) => plannedFiles.has(i.filePath) || i.kind === 'evm-target'
+    );
+    const ancient = compilerIssues.filter((i) => i.kind === 'ancient-compiler');
+    if (ancient.length > 0) {
+      flags.push(
+        `${ancient.length} files only compile with solc < 0.8.0 (${ancient.map((i) => i.filePath).join(', ')}) - arithmetic is unchecked and recent EVM targets are unavailable`
+      );
+    }
+    for (const issue of compilerIssues.filter((i) => i.kind !== 'ancient-compiler')) {
+      flags.push(`${issue.filePath}: ${issue.message}`);
+    }
+
     // Parse errors
     if (analysis.parseErrors.length > 0) {
       flags.push(
@@ -363,6 +678,22 @@ Cross-contract dependencies: ${analysis.dependencyGraph.edges.length} edges
       limitations.push(`${analysis.parseErrors.length} contracts could not be analyzed`);
     }
 
+    // e.g. Hardhat projects importing OpenZeppelin from node_modules, which ingestion skips
+    const notIngested = new Set(
+      (analysis.unresolvedImports || [])
+        .filter((entry) => entry.reason === 'not-ingested')
+        .map((entry) => importPackage(entry.importPath))
+    );
+    if (notIngested.size > 0) {
+      limitations.push(
+        `Imported dependencies were not ingested, so bases, storage layouts and standards inherited from them are incomplete: ${Array.from(notIngested).join(', ')}`
+      );
+    }
+    const missing = (analysis.unresolvedImports || []).filter((entry) => entry.reason === 'missing');
+    if (missing.length > 0) {
+      limitations.push(`${missing.length} imports point at files missing from the repository`);
+    }
+
     return limitations;
   }
 }
@@ -370,8 +701,9 @@ Cross-contract dependencies: ${analysis.dependencyGraph.edges.length} edges
 export async function planRepositoryMigration(
   repoMetadata: RepositoryMetadata,
   analysisResult: SolidityAnalysisResult,
-  apiKey?: string
+  apiKey?: string,
+  includeRoles?: FileRole[]
 ): Promise<MigrationPlan> {
   const planner = new MigrationPlanner(apiKey);
-  return planner.planMigration(repoMetadata, analysisResult);
+  return planner.planMigration(repoMetadata, analysisResult, includeRoles);
 }
@@ -12,13 +12,22 @@ import {
   MigrationPlan,
   MigrationRecommendation,
   RepositoryTree,
+  RepositoryDirectory,
+  RepositoryFile,
   TransformedFile,
   TransformationReport,
   FileTransformReport,
   AppliedChange,
   SkippedChange,
+  FileRole,
+  SourceRange,
 } from '../types/index.js';
-import { GitHubClient } from '../github/client.js';
+import { config } from '../utils/config.js';
+import { RepositorySource, openSourceForMetadata } from '../ingestion/sources/index.js';
+import { OverlayRepositorySource, overlayRepositoryTree } from '../ingestion/sources/overlaySource.js';
+import { ImportResolver } from '../analysis/importResolver.js';
+import { DEFAULT_TARGET_ROLES } from '../ingestion/fileTypeDetector.js';
+import { analyzeSolidityRepository, formatFunctionSignature } from '../analysis/solidityAnalyzer.js';
 
 const TRANSFORMATION_SYSTEM_PROMPT = `You are an expert Solidity code transformer.
 
@@ -31,6 +40,7 @@ CRITICAL RULES:
 4. If a recommendation is ambiguous or unclear, respond with {"action": "skip", "reason": "..."}
 5. Always preserve the overall structure - never remove logic without explicit instruction
 6. Respect existing code style and patterns
+7. Keep each change within its recommendation's target lines, and set "recommendation" to that recommendation's number
 
 For each file transformation:
 - Parse the original code
@@ -48,7 +58,8 @@ Respond with JSON:
       "description": "What was changed",
       "originalSnippet": "Original code (2-3 lines)",
       "transformedSnippet": "New code (2-3 lines)",
-      "lineRange": {"start": 10, "end": 15}
+      "lineRange": {"start": 10, "end": 15},
+      "recommendation": 1
     }
   ],
   "transformedCode": "Full transformed file content",
@@ -62,6 +73,7 @@ interface TransformationContext {
   recommendations: MigrationRecommendation[];
   contractNames: string[];
   importedContracts: string[];
+  functionSignatures: string[];
 }
 
 interface PerFileTransformation {
@@ -73,32 +85,74 @@ interface PerFileTransformation {
     originalSnippet: string;
     transformedSnippet: string;
     lineRange?: { start: number; end: number };
+    recommendation?: number; // 1-based index of the recommendation the change implements
   }>;
   transformedCode?: string;
   warnings: string[];
 }
 
+/**
+ * Find the lines a snippet occupies in the original file. With a target range, only an
+ * occurrence inside it counts as on target: a short snippet such as `block.timestamp`
+ * usually appears elsewhere too, and an unrelated match must not stand in for the change.
+ * Off-target results carry lines only when the snippet occurs exactly once.
+ */
+function locateSnippet(
+  content: string,
+  snippet: string,
+  targetRange?: SourceRange
+): { lines?: { start: number; end: number }; offTarget: boolean } | null {
+  const needle = snippet.trim();
+  if (!needle) {
+    return null;
+  }
+
+  const occurrences: Array<{ start: number; end: number }> = [];
+  for (let index = content.indexOf(needle); index !== -1; index = content.indexOf(needle, index + 1)) {
+    const start = content.substring(0, index).split('\n').length;
+    occurrences.push({ start, end: start + needle.split('\n').length - 1 });
+  }
+  if (occurrences.length === 0) {
+    return null;
+  }
+  if (!targetRange) {
+    return { lines: occurrences[0], offTarget: false };
+  }
+
+  const onTarget = occurrences.find((o) => o.start <= targetRange.endLine && o.end >= targetRange.startLine);
+  if (onTarget) {
+    return { lines: onTarget, offTarget: false };
+  }
+  return { lines: occurrences.length === 1 ? occurrences[0] : undefined, offTarget: true };
+}
+
 export class TransformerAgent {
   private client: Anthropic;
-  private githubClient: GitHubClient;
+  private source: RepositorySource;
   private migrationPlan: MigrationPlan;
   private analysisResult: SolidityAnalysisResult;
   private repositoryTree: RepositoryTree;
+  private importResolver: ImportResolver;
+  private includeRoles: FileRole[];
   private transformedFiles: Map<string, TransformedFile> = new Map();
 
   constructor(
     plan: MigrationPlan,
     analysis: SolidityAnalysisResult,
     tree: RepositoryTree,
-    apiKey?: string
+    apiKey?: string,
+    source?: RepositorySource,
+    includeRoles?: FileRole[]
   ) {
     this.migrationPlan = plan;
+    this.includeRoles = includeRoles || plan.includedRoles || DEFAULT_TARGET_ROLES;
     this.analysisResult = analysis;
     this.repositoryTree = tree;
+    this.importResolver = new ImportResolver(tree);
     this.client = new Anthropic({
       apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
     });
-    this.githubClient = new GitHubClient();
+    this.source = source || openSourceForMetadata(tree.metadata, { githubToken: config.githubToken });
     logger.info('TransformerAgent initialized');
   }
 
@@ -184,6 +238,13 @@ export class TransformerAgent {
       // Check cross-file consistency
       await this.validateCrossFileConsistency(report);
 
+      // Re-analyze so the validator can detect slot shifts and standards the contracts no longer satisfy
+      if (report.filesModified > 0) {
+        const transformed = await this.analyzeTransformed(report);
+        report.storageLayouts = transformed?.storageLayouts;
+        report.interfaces = transformed?.interfaces;
+      }
+
       // Calculate summary
       report.summary.overallConfidence =
         report.filesModified > 0
@@ -228,6 +289,13 @@ export class TransformerAgent {
     const grouped = new Map<string, MigrationRecommendation[]>();
 
     for (const rec of this.migrationPlan.recommendations) {
+      // Leave tests, scripts, mocks and vendored code alone unless asked to include them
+      const file = this.findFileInTree(this.repositoryTree.root, rec.filePath);
+      if (file && !this.includeRoles.includes(file.role || 'source')) {
+        logger.debug({ filePath: rec.filePath, role: file.role }, 'Skipping recommendation for out-of-scope file');
+        continue;
+      }
+
       if (!grouped.has(rec.filePath)) {
         grouped.set(rec.filePath, []);
       }
@@ -250,9 +318,12 @@ export class TransformerAgent {
     }
 
     // Extract contract info
-    const contract = this.analysisResult.contracts.find((c) => c.filePath === filePath);
-    const contractNames = contract ? [contract.name] : [];
-    const importedContracts = contract?.imports || [];
+    const fileContracts = this.analysisResult.contracts.filter((c) => c.filePath === filePath);
+    const contractNames = fileContracts.map((c) => c.name);
+    const importedContracts = fileContracts[0]?.imports || [];
+    const functionSignatures = fileContracts.flatMap((c) =>
+      c.functions.map((f) => `${c.name}.${formatFunctionSignature(f)}`)
+    );
 
     // Build context for Claude
     const context: TransformationContext = {
@@ -261,6 +332,7 @@ export class TransformerAgent {
       recommendations,
       contractNames,
       importedContracts,
+      functionSignatures,
     };
 
     // Call Claude for transformation
@@ -270,16 +342,51 @@ export class TransformerAgent {
     const appliedChanges: AppliedChange[] = [];
     const skippedChanges: SkippedChange[] = [];
 
+    const warnings = transformation.warnings || [];
+
     if (transformation.action === 'apply' && transformation.appliedChanges) {
       for (let i = 0; i < transformation.appliedChanges.length; i++) {
         const change = transformation.appliedChanges[i];
+        const recommendationIndex =
+          change.recommendation && change.recommendation >= 1 && change.recommendation <= recommendations.length
+            ? change.recommendation - 1
+            : undefined;
+        const targetRange =
+          recommendationIndex !== undefined ? recommendations[recommendationIndex].targetRange : undefined;
+
+        // Trust where the original snippet actually is over the line numbers the model reports
+        const located = change.originalSnippet
+          ? locateSnippet(originalContent, change.originalSnippet, targetRange)
+          : null;
+        if (change.originalSnippet && !located) {
+          warnings.push(`Change ${i + 1}: original snippet not found in ${filePath}`);
+        }
+        const lineNumbers = located ? located.lines : change.lineRange;
+
+        let withinTarget: boolean | undefined;
+        if (targetRange && located?.offTarget && !lineNumbers) {
+          withinTarget = false;
+          warnings.push(
+            `Change ${i + 1}: original snippet occurs in ${filePath} only outside the recommended region (lines ${targetRange.startLine}-${targetRange.endLine})`
+          );
+        } else if (targetRange && lineNumbers) {
+          withinTarget = lineNumbers.start <= targetRange.endLine && lineNumbers.end >= targetRange.startLine;
+          if (!withinTarget) {
+            warnings.push(
+              `Change ${i + 1} at lines ${lineNumbers.start}-${lineNumbers.end} is outside the recommended region (lines ${targetRange.startLine}-${targetRange.endLine})`
+            );
+          }
+        }
+
         appliedChanges.push({
           changeIndex: i,
-          recommendationId: `${filePath}-${i}`,
+          recommendationId: `${filePath}-${recommendationIndex ?? i}`,
           description: change.description,
           originalCode: change.originalSnippet,
           transformedCode: change.transformedSnippet,
-          lineNumbers: change.lineRange,
+          lineNumbers,
+          targetRange,
+          withinTarget,
         });
       }
     }
@@ -311,7 +418,7 @@ export class TransformerAgent {
       skippedChanges,
       hasChanges,
       confidenceScore,
-      warnings: transformation.warnings || [],
+      warnings,
     };
   }
 
@@ -319,10 +426,12 @@ export class TransformerAgent {
     logger.debug({ filePath: context.filePath }, 'Calling Claude for file transformation');
 
     const recommendationsText = context.recommendations
-      .map(
-        (r, i) =>
-          `${i + 1}. [${r.changeCategory}] ${r.recommendedChange}\n   Rationale: ${r.rationale}`
-      )
+      .map((r, i) => {
+        const target = r.targetRange
+          ? `\n   Target: ${r.functionName ? `function ${r.functionName}` : r.contractName}, lines ${r.targetRange.startLine}-${r.targetRange.endLine}`
+          : '';
+        return `${i + 1}. [${r.changeCategory}] ${r.recommendedChange}\n   Rationale: ${r.rationale}${target}`;
+      })
       .join('\n\n');
 
     const userPrompt = `Transform this Solidity file according to these migration recommendations:
@@ -330,6 +439,8 @@ export class TransformerAgent {
 FILE: ${context.filePath}
 CONTRACTS: ${context.contractNames.join(', ') || 'none'}
 IMPORTS: ${context.importedContracts.join(', ') || 'none'}
+FUNCTIONS:
+${context.functionSignatures.map((s) => `- ${s}`).join('\n') || 'none'}
 
 RECOMMENDATIONS TO APPLY:
 ${recommendationsText}
@@ -339,7 +450,7 @@ ORIGINAL CODE:
 ${context.originalContent}
 \`\`\`
 
-Apply ONLY the changes described above. Preserve formatting and comments. Be conservative - skip ambiguous changes.`;
+Apply ONLY the changes described above. Preserve formatting and comments. Keep the function signatures listed above unless a recommendation changes them. Be conservative - skip ambiguous changes.`;
 
     try {
       const response = await this.client.messages.create({
@@ -407,8 +518,9 @@ Apply ONLY the changes described above. Preserve formatting and comments. Be con
       return sum + confidence;
     }, 0) / recommendations.length;
 
-    // Reduce if we only applied some changes
-    const applicationRate = appliedChanges.length / recommendations.length;
+    // Reduce if we only applied some changes; changes outside their target region don't count
+    const onTarget = appliedChanges.filter((c) => c.withinTarget !== false).length;
+    const applicationRate = onTarget / recommendations.length;
 
     return Math.round((avgConfidence * applicationRate) * 100) / 100;
   }
@@ -442,27 +554,28 @@ Apply ONLY the changes described above. Preserve formatting and comments. Be con
 
     // Check imports
     for (const [filePath, transformed] of this.transformedFiles.entries()) {
-      const importMatches = transformed.transformedContent.match(/import\s+["{]([^"}]+)["}]/g) || [];
-
-      for (const importStatement of importMatches) {
-        const importPath = importStatement.match(/["']([^"']+)["']/)?.[1];
-        if (importPath && !importPath.startsWith('http')) {
-          // Resolve relative import
-          const resolvedPath = this.resolveImport(filePath, importPath);
-          if (!this.fileExists(resolvedPath) && !importPath.includes('@')) {
-            issues.push(`File ${filePath}: Import not found: ${importPath}`);
-            report.crossFileConsistency.importsValid = false;
-          }
+      // import "x.sol"; import "x.sol" as X; import {A} from "x.sol"; import * as X from "x.sol";
+      const importMatches = transformed.transformedContent.matchAll(
+        /import\s+(?:[^'";]*?\bfrom\s+)?["']([^"']+)["']/g
+      );
+
+      for (const [, importPath] of importMatches) {
+        if (importPath.startsWith('http')) continue;
+
+        // Resolve relative and remapped imports against the project layout
+        const resolved = this.importResolver.resolve(filePath, importPath);
+        if (!resolved.found && !resolved.external) {
+          issues.push(`File ${filePath}: Import not found: ${importPath}`);
+          report.crossFileConsistency.importsValid = false;
         }
       }
     }
 
     // Check inheritance consistency
     for (const contract of this.analysisResult.contracts) {
-      for (const parentName of contract.inherits) {
-        const parentContract = this.analysisResult.contracts.find((c) => c.name === parentName);
-        if (!parentContract && !parentName.includes('@')) {
-          issues.push(`Contract ${contract.name}: Parent contract not found: ${parentName}`);
+      for (const base of contract.linearization) {
+        if (!base.filePath && contract.inherits.includes(base.name) && !base.name.includes('@')) {
+          issues.push(`Contract ${contract.name}: Parent contract not found: ${base.name}`);
           report.crossFileConsistency.inheritanceValid = false;
         }
       }
@@ -474,21 +587,31 @@ Apply ONLY the changes described above. Preserve formatting and comments. Be con
     }
   }
 
-  private resolveImport(fromFile: string, importPath: string): string {
-    const fromDir = fromFile.substring(0, fromFile.lastIndexOf('/'));
-    if (importPath.startsWith('./')) {
-      return `${fromDir}/${importPath.substring(2)}`;
-    }
-    if (importPath.startsWith('../')) {
-      const parent = fromDir.substring(0, fromDir.lastIndexOf('/'));
-      return `${parent}/${importPath.substring(3)}`;
+  /**
+   * Re-analyze the repository with the transformed files in place
+   */
+  private async analyzeTransformed(report: TransformationReport): Promise<SolidityAnalysisResult | undefined> {
+    const overlay = new Map<string, string>();
+    for (const [filePath, transformed] of this.transformedFiles.entries()) {
+      if (transformed.hasChanges) {
+        overlay.set(filePath, transformed.transformedContent);
+      }
     }
-    return importPath;
-  }
 
-  private fileExists(path: string): boolean {
-    // Check if file exists in analyzed contracts
-    return this.analysisResult.contracts.some((c) => c.filePath === path);
+    try {
+      const analysis = await analyzeSolidityRepository(
+        overlayRepositoryTree(this.repositoryTree, overlay),
+        config.githubToken,
+        new OverlayRepositorySource(this.source, overlay)
+      );
+      return analysis;
+    } catch (error) {
+      logger.warn({ error }, 'Failed to re-analyze transformed code');
+      report.errors.push({
+        error: `Re-analysis of transformed code failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return undefined;
+    }
   }
 
   private generateRecommendations(report: TransformationReport): string[] {
@@ -519,28 +642,24 @@ Apply ONLY the changes described above. Preserve formatting and comments. Be con
 
   private async getFileContent(filePath: string): Promise<string | null> {
     try {
-      // Try to find in repository tree first
-      const content = this.findFileInTree(this.repositoryTree.root, filePath);
-      if (content) {
-        return content;
-      }
-
-      // Fall back to GitHub API
-      return await this.githubClient.getFileContent(
-        this.repositoryTree.metadata.owner,
-        this.repositoryTree.metadata.name,
-        filePath
-      );
+      // Look up the blob SHA so content read during analysis is served from the content store
+      const file = this.findFileInTree(this.repositoryTree.root, filePath);
+      return await this.source.readFile(filePath, file?.sha);
     } catch (error) {
       logger.error({ filePath, error }, 'Failed to get file content');
       return null;
     }
   }
 
-  private findFileInTree(dir: any, targetPath: string): string | null {
-    // Simple tree search - would need actual implementation
-    // For now, return null to trigger GitHub API fallback
-    return null;
+  private findFileInTree(dir: RepositoryDirectory, targetPath: string): RepositoryFile | null {
+    const file = dir.files.find((f) => f.path === targetPath);
+    if (file) {
+      return file;
+    }
+
+    // Only descend into the directory that contains the target path
+    const subdir = dir.subdirectories.find((d) => targetPath.startsWith(`${d.path}/`));
+    return subdir ? this.findFileInTree(subdir, targetPath) : null;
   }
 }
 
@@ -548,9 +667,11 @@ export async function transformRepository(
   plan: MigrationPlan,
   analysis: SolidityAnalysisResult,
   tree: RepositoryTree,
-  apiKey?: string
+  apiKey?: string,
+  source?: RepositorySource,
+  includeRoles?: FileRole[]
 ): Promise<TransformationReport> {
-  const transformer = new TransformerAgent(plan, analysis, tree, apiKey);
+  const transformer = new TransformerAgent(plan, analysis, tree, apiKey, source, includeRoles);
   return transformer.transformRepository();
 }
 
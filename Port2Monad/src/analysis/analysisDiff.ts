@@ -0,0 +1,102 @@
+/**
+ * Analysis diff
+ * Compares the analyses of two refs of a repository: which Solidity files changed,
+ * the contracts added, removed or changed, and storage slots that shifted
+ */
+
+import {
+  AnalysisDiff,
+  ContractChange,
+  SolidityAnalysisResult,
+  SolidityContract,
+} from '../types/index.js';
+import { compareStorageLayouts } from './storageLayout.js';
+
+function contractKey(contract: SolidityContract): string {
+  return `${contract.filePath}:${contract.name}`;
+}
+
+function difference(items: string[], removed: string[]): string[] {
+  return items.filter((item) => !removed.includes(item));
+}
+
+function stateVariableNames(contract: SolidityContract): string[] {
+  return contract.stateVariables.map((v) => `${v.type} ${v.name}`);
+}
+
+/**
+ * A contract is changed when its file's blob changed or its linearization did,
+ * e.g. because a base contract in another file was renamed
+ */
+function compareContracts(
+  base: SolidityContract,
+  head: SolidityContract,
+  modifiedFiles: Set<string>
+): ContractChange | null {
+  const baseFunctions = base.functions.map((f) => f.signature);
+  const headFunctions = head.functions.map((f) => f.signature);
+  const baseVariables = stateVariableNames(base);
+  const headVariables = stateVariableNames(head);
+  const linearization = (contract: SolidityContract) =>
+    contract.linearization.map((r) => `${r.filePath}:${r.name}`).join(',');
+
+  const change: ContractChange = {
+    name: head.name,
+    filePath: head.filePath,
+    fileModified: modifiedFiles.has(head.filePath),
+    addedFunctions: difference(headFunctions, baseFunctions),
+    removedFunctions: difference(baseFunctions, headFunctions),
+    addedStateVariables: difference(headVariables, baseVariables),
+    removedStateVariables: difference(baseVariables, headVariables),
+    linearizationChanged: linearization(base) !== linearization(head),
+  };
+  return change.fileModified || change.linearizationChanged ? change : null;
+}
+
+export function diffAnalyses(
+  base: SolidityAnalysisResult,
+  head: SolidityAnalysisResult,
+  refs: Pick<AnalysisDiff, 'baseRef' | 'headRef' | 'baseCommit' | 'headCommit'>
+): AnalysisDiff {
+  const baseFiles = new Map(base.files.map((f) => [f.filePath, f.sha]));
+  const headFiles = new Map(head.files.map((f) => [f.filePath, f.sha]));
+
+  // Files without a SHA can't be compared and count as modified
+  const modified = Array.from(headFiles.entries())
+    .filter(([filePath, sha]) => baseFiles.has(filePath) && (!sha || baseFiles.get(filePath) !== sha))
+    .map(([filePath]) => filePath);
+  const modifiedFiles = new Set(modified);
+
+  const baseContracts = new Map(base.contracts.map((c) => [contractKey(c), c]));
+  const headContracts = new Map(head.contracts.map((c) => [contractKey(c), c]));
+
+  const changed: ContractChange[] = [];
+  for (const [key, contract] of headContracts) {
+    const previous = baseContracts.get(key);
+    const change = previous ? compareContracts(previous, contract, modifiedFiles) : null;
+    if (change) changed.push(change);
+  }
+
+  return {
+    ...refs,
+    files: {
+      added: Array.from(headFiles.keys()).filter((filePath) => !baseFiles.has(filePath)),
+      removed: Array.from(baseFiles.keys()).filter((filePath) => !headFiles.has(filePath)),
+      modified,
+    },
+    contracts: {
+      added: head.contracts
+        .filter((c) => !baseContracts.has(contractKey(c)))
+        .map((c) => ({ name: c.name, filePath: c.filePath })),
+      removed: base.contracts
+        .filter((c) => !headContracts.has(contractKey(c)))
+        .map((c) => ({ name: c.name, filePath: c.filePath })),
+      changed,
+    },
+    storageLayoutChanges: compareStorageLayouts(base.storageLayouts, head.storageLayouts),
+    compilerRange: {
+      base: base.compiler.versionRange,
+      head: head.compiler.versionRange,
+    },
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Call graph construction
+ * Classifies the call expressions found in function bodies once every contract is
+ * known: internal and library calls, external calls through contract-typed receivers,
+ * low-level calls, ether transfers and contract creation
+ */
+
+import {
+  CallKind,
+  CallSite,
+  DependencyEdge,
+  SolidityContract,
+  SourceRange,
+} from '../types/index.js';
+import { InheritanceResolver } from './inheritance.js';
+
+/**
+ * A call expression as written, before the receiver's type is known
+ */
+export interface RawCallSite {
+  name: string; // called identifier or member
+  receiver?: string; // member calls: receiver expression as written
+  receiverType?: string; // declared type of a parameter or local receiver
+  castTo?: string; // `IFoo(addr).f()` converts to IFoo; `payable(x)` and `address(x)` to address
+  creates?: string; // `new T(...)`
+  arguments: string[]; // argument expressions as written
+  range: SourceRange;
+}
+
+const LOW_LEVEL_CALLS: Record<string, CallKind> = {
+  call: 'low-level-call',
+  delegatecall: 'delegatecall',
+  staticcall: 'staticcall',
+};
+
+function baseTypeName(type: string): string {
+  return type.substring(type.lastIndexOf('.') + 1).trim();
+}
+
+export class CallSiteResolver {
+  private inheritance: InheritanceResolver;
+  private byName: Map<string, SolidityContract> = new Map();
+
+  constructor(contracts: SolidityContract[], inheritance: InheritanceResolver) {
+    this.inheritance = inheritance;
+    for (const contract of contracts) {
+      if (!this.byName.has(contract.name)) {
+        this.byName.set(contract.name, contract);
+      }
+    }
+  }
+
+  /**
+   * Classify a function's raw call sites. Calls whose receiver can't be typed
+   * (e.g. builtins, struct members, chained expressions) are left out.
+   */
+  resolve(contract: SolidityContract, rawCalls: RawCallSite[]): CallSite[] {
+    const calls: CallSite[] = [];
+    for (const raw of rawCalls) {
+      const call = this.classify(contract, raw);
+      if (call) calls.push(call);
+    }
+    return calls;
+  }
+
+  private classify(contract: SolidityContract, raw: RawCallSite): CallSite | null {
+    const site = (kind: CallKind, target: string, withFunction: boolean = true): CallSite => ({
+      kind,
+      target,
+      function: withFunction ? raw.name : undefined,
+      range: raw.range,
+    });
+
+    if (raw.creates) {
+      return { kind: 'create', target: raw.creates, range: raw.range };
+    }
+
+    // Bare `f(...)`: a function of this contract or one it inherits
+    if (raw.receiver === undefined) {
+      const declared = contract.effectiveFunctions.find(
+        (f) => f.kind === 'function' && f.signature.startsWith(`${raw.name}(`)
+      );
+      return declared ? site('internal-call', declared.definedIn) : null;
+    }
+
+    if (raw.name in LOW_LEVEL_CALLS) {
+      return site(LOW_LEVEL_CALLS[raw.name], raw.receiver, false);
+    }
+    if (raw.receiver === 'super') {
+      return site('internal-call', this.findBaseDeclaring(contract, raw.name) || 'super');
+    }
+    if (raw.receiver === 'this') {
+      return site('external-call', contract.name);
+    }
+
+    const receiverType = raw.castTo || raw.receiverType || this.stateVariableType(contract, raw.receiver);
+    const isContractReceiver = receiverType !== undefined && this.isContractType(receiverType);
+
+    // `transfer`/`send` with one argument move ether; with more they're token calls
+    if ((raw.name === 'transfer' || raw.name === 'send') && raw.arguments.length === 1 && !isContractReceiver) {
+      return site(raw.name, raw.receiver, false);
+    }
+    if (isContractReceiver) {
+      return site('external-call', baseTypeName(receiverType!));
+    }
+
+    // `Lib.f()` and `Base.f()` name a library or base contract rather than a variable
+    if (receiverType === undefined) {
+      const named = this.byName.get(raw.receiver);
+      if (named && named.type !== 'interface') {
+        return site('internal-call', named.name);
+      }
+    }
+
+    // `x.f()` on a value type, through `using Lib for T`
+    const library = this.findUsingForLibrary(contract, raw.name);
+    return library ? site('internal-call', library) : null;
+  }
+
+  private findBaseDeclaring(contract: SolidityContract, name: string): string | undefined {
+    for (const reference of contract.linearization.slice(1)) {
+      const base = this.inheritance.lookup(reference);
+      if (base?.functions.some((f) => f.name === name && f.implemented)) {
+        return base.name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Declared type of a state variable, including inherited ones
+   */
+  private stateVariableType(contract: SolidityContract, name: string): string | undefined {
+    for (const [index, reference] of contract.linearization.entries()) {
+      const declaring = index === 0 ? contract : this.inheritance.lookup(reference);
+      const variable = declaring?.stateVariables.find((v) => v.name === name);
+      if (variable) {
+        return variable.type;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Contracts and interfaces in the repository, or unresolved names following the
+   * `IName` interface convention (e.g. from dependencies that weren't ingested)
+   */
+  private isContractType(type: string): boolean {
+    const name = baseTypeName(type);
+    const known = this.byName.get(name);
+    if (known) {
+      return known.type !== 'library';
+    }
+    return /^I[A-Z]\w*$/.test(name);
+  }
+
+  private findUsingForLibrary(contract: SolidityContract, name: string): string | undefined {
+    for (const [index, reference] of contract.linearization.entries()) {
+      const declaring = index === 0 ? contract : this.inheritance.lookup(reference);
+      for (const directive of declaring?.usingFor || []) {
+        const library = directive.library ? this.byName.get(directive.library) : undefined;
+        if (library?.functions.some((f) => f.name === name)) {
+          return library.name;
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * One dependency edge per classified call site
+ */
+export function buildCallEdges(contracts: SolidityContract[]): DependencyEdge[] {
+  return contracts.flatMap((contract) =>
+    contract.functions.flatMap((fn) =>
+      fn.calls.map((call) => ({
+        from: contract.name,
+        to: call.target,
+        type: call.kind,
+        caller: fn.signature,
+        callee: call.function,
+        range: call.range,
+      }))
+    )
+  );
+}
+
+function isCallEdge(edge: DependencyEdge): boolean {
+  return edge.type !== 'import' && edge.type !== 'inheritance';
+}
+
+/**
+ * `f` matches every overload; `f(uint256)` only that one
+ */
+function matchesFunction(signature: string | undefined, query: string): boolean {
+  if (!signature) return false;
+  return query.includes('(') ? signature === query : signature === query || signature.startsWith(`${query}(`);
+}
+
+/**
+ * Call edges into a function. Callees are recorded by name, so overloads share callers.
+ */
+export function findCallers(edges: DependencyEdge[], contractName: string, functionName: string): DependencyEdge[] {
+  const name = functionName.split('(')[0];
+  return edges.filter((e) => isCallEdge(e) && e.to === contractName && e.callee === name);
+}
+
+export function findCallees(edges: DependencyEdge[], contractName: string, functionName: string): DependencyEdge[] {
+  return edges.filter((e) => isCallEdge(e) && e.from === contractName && matchesFunction(e.caller, functionName));
+}
@@ -0,0 +1,347 @@
+/**
+ * Chain constants
+ * Matches hardcoded addresses and chain IDs, in Solidity and in deployment scripts,
+ * against a registry of Ethereum mainnet deployments so recommendations can name the
+ * Monad counterpart. The bundled registry is extended by a local mapping file.
+ */
+
+import { promises as fs } from 'fs';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import {
+  ChainConstant,
+  FileRole,
+  KnownContract,
+  LintFinding,
+  RepositoryFile,
+  SolidityFileInfo,
+  SourceRange,
+} from '../types/index.js';
+
+const KNOWN_CONTRACT_CATEGORIES = ['token', 'dex', 'oracle', 'lending', 'bridge', 'infrastructure'];
+
+const NO_BRIDGE_NOTE = 'bridges between Ethereum and its rollups don\'t connect to Monad';
+const NO_FEED_NOTE = 'use a feed from an oracle network that supports Monad';
+
+/**
+ * Ethereum mainnet contracts projects commonly hardcode. Infrastructure deployed through
+ * deterministic deployers lives at the same address on Monad.
+ */
+export const KNOWN_CONTRACTS: KnownContract[] = [
+  {
+    address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    name: 'WETH',
+    category: 'token',
+    note: 'the native token on Monad is MON, wrapped by WMON rather than WETH',
+  },
+  { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', name: 'USDC', category: 'token' },
+  { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', name: 'USDT', category: 'token' },
+  { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', name: 'DAI', category: 'token' },
+  { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', name: 'WBTC', category: 'token' },
+  { address: '0x514910771AF9Ca656af840dff83E8264EcF986CA', name: 'LINK', category: 'token' },
+  { address: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84', name: 'Lido stETH', category: 'token' },
+  { address: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', name: 'Uniswap V2 Router02', category: 'dex' },
+  { address: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f', name: 'Uniswap V2 Factory', category: 'dex' },
+  { address: '0x1F98431c8aD98523631AE4a59f267346ea31F984', name: 'Uniswap V3 Factory', category: 'dex' },
+  { address: '0xE592427A0AEce92De3Edee1F18E0157C05861564', name: 'Uniswap V3 SwapRouter', category: 'dex' },
+  { address: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45', name: 'Uniswap SwapRouter02', category: 'dex' },
+  {
+    address: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+    name: 'Uniswap V3 NonfungiblePositionManager',
+    category: 'dex',
+  },
+  {
+    address: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    name: 'Chainlink ETH/USD feed',
+    category: 'oracle',
+    note: NO_FEED_NOTE,
+  },
+  {
+    address: '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c',
+    name: 'Chainlink BTC/USD feed',
+    category: 'oracle',
+    note: NO_FEED_NOTE,
+  },
+  { address: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2', name: 'Aave V3 Pool', category: 'lending' },
+  {
+    address: '0x72Ce9c846789fdB6fC1f34aC4AD25Dd9ef7031ef',
+    name: 'Arbitrum L1 Gateway Router',
+    category: 'bridge',
+    note: NO_BRIDGE_NOTE,
+  },
+  {
+    address: '0x99C9fc46f92E8a1c0deC1b1747d010903E884bE1',
+    name: 'Optimism L1 Standard Bridge',
+    category: 'bridge',
+    note: NO_BRIDGE_NOTE,
+  },
+  { address: '0x5c7BCd6E7De5423a257D81B442095A1a6ced35C5', name: 'Across SpokePool', category: 'bridge' },
+  {
+    address: '0xcA11bde05977b3631167028862bE2a173976CA11',
+    name: 'Multicall3',
+    category: 'infrastructure',
+    monadAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
+  },
+  {
+    address: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+    name: 'Permit2',
+    category: 'infrastructure',
+    monadAddress: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+  },
+  {
+    address: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+    name: 'ERC-4337 EntryPoint v0.6',
+    category: 'infrastructure',
+    monadAddress: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+  },
+  {
+    address: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+    name: 'ERC-4337 EntryPoint v0.7',
+    category: 'infrastructure',
+    monadAddress: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+  },
+  {
+    address: '0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed',
+    name: 'CreateX',
+    category: 'infrastructure',
+    monadAddress: '0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed',
+  },
+  {
+    address: '0x4e59b44847b379578588920cA78FbF26c0B4956C',
+    name: 'Deterministic CREATE2 deployer',
+    category: 'infrastructure',
+    monadAddress: '0x4e59b44847b379578588920cA78FbF26c0B4956C',
+  },
+];
+
+export const KNOWN_CHAIN_IDS: Record<string, string> = {
+  '1': 'Ethereum mainnet',
+  '5': 'Goerli',
+  '10': 'OP Mainnet',
+  '56': 'BNB Smart Chain',
+  '137': 'Polygon PoS',
+  '143': 'Monad',
+  '1337': 'local development chain',
+  '8453': 'Base',
+  '10143': 'Monad testnet',
+  '17000': 'Holesky',
+  '31337': 'Hardhat/Anvil local chain',
+  '42161': 'Arbitrum One',
+  '43114': 'Avalanche C-Chain',
+  '560048': 'Hoodi',
+  '11155111': 'Sepolia',
+};
+
+// Chain IDs besides the configured one that code may check for legitimately
+const MONAD_TESTNET_CHAIN_IDS = [10143];
+
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const ADDRESS_LITERAL = /\b0x[0-9a-fA-F]{40}\b/g;
+
+// `chainId === 1`, `Number(chainId) !== 1`, `1n == network.config.chainId`
+const CHAIN_ID_COMPARISON = /\bchainId\)?\s*(?:===?|!==?)\s*(\d+)n?\b|\b(\d+)n?\s*(?:===?|!==?)\s*(?:[\w$.]+\.)?chainId\b/gi;
+
+interface RegistryMapping {
+  contracts?: KnownContract[];
+  chainIds?: Record<string, string>;
+}
+
+export class AddressRegistry {
+  private contracts: Map<string, KnownContract> = new Map();
+  private chainIds: Map<string, string>;
+  private mappingPath: string;
+  private loaded: Promise<void> | null = null;
+
+  constructor(mappingPath: string) {
+    this.mappingPath = mappingPath;
+    for (const contract of KNOWN_CONTRACTS) {
+      this.contracts.set(contract.address.toLowerCase(), contract);
+    }
+    this.chainIds = new Map(Object.entries(KNOWN_CHAIN_IDS));
+  }
+
+  /**
+   * Read the local mapping file, once. Its entries override bundled ones with the same address.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readMapping();
+    }
+    return this.loaded;
+  }
+
+  lookupAddress(address: string): KnownContract | undefined {
+    return this.contracts.get(address.toLowerCase());
+  }
+
+  chainName(chainId: string): string | undefined {
+    return this.chainIds.get(chainId);
+  }
+
+  private async readMapping(): Promise<void> {
+    if (!this.mappingPath) {
+      return;
+    }
+
+    let mapping: RegistryMapping;
+    try {
+      mapping = JSON.parse(await fs.readFile(this.mappingPath, 'utf8')) as RegistryMapping;
+    } catch (error) {
+      logger.warn({ error, path: this.mappingPath }, 'Ignoring unreadable address registry');
+      return;
+    }
+
+    let added = 0;
+    for (const contract of mapping.contracts || []) {
+      const valid =
+        typeof contract.address === 'string' &&
+        ADDRESS.test(contract.address) &&
+        typeof contract.name === 'string' &&
+        KNOWN_CONTRACT_CATEGORIES.includes(contract.category) &&
+        (contract.monadAddress === undefined || ADDRESS.test(contract.monadAddress));
+      if (!valid) {
+        logger.warn({ contract, path: this.mappingPath }, 'Skipping invalid address registry entry');
+        continue;
+      }
+      this.contracts.set(contract.address.toLowerCase(), contract);
+      added++;
+    }
+    for (const [chainId, name] of Object.entries(mapping.chainIds || {})) {
+      this.chainIds.set(chainId, name);
+    }
+
+    logger.info({ path: this.mappingPath, contracts: added }, 'Loaded address registry');
+  }
+}
+
+/**
+ * JavaScript and TypeScript that deploys or configures contracts: files in script
+ * directories, and hardhat-deploy and Ignition modules
+ */
+export function isDeploymentScript(file: RepositoryFile): boolean {
+  if (file.type !== 'javascript' && file.type !== 'typescript') {
+    return false;
+  }
+  return file.role === 'script' || (file.role === 'source' && /(^|\/)(deploy|ignition)\//.test(file.path));
+}
+
+function rangeAt(content: string, start: number, end: number): SourceRange {
+  const line = (index: number) => content.slice(0, index).split('\n').length;
+  return { startLine: line(start), endLine: line(end), startByte: start, endByte: end };
+}
+
+export class ChainConstantResolver {
+  private registry: AddressRegistry;
+  private monadChainId: number;
+
+  constructor(registry: AddressRegistry, monadChainId: number) {
+    this.registry = registry;
+    this.monadChainId = monadChainId;
+  }
+
+  /**
+   * Chain constants behind the `hardcoded-address` and `hardcoded-chain-id` lint findings.
+   * Those findings are reworded to name the Monad counterpart, and dropped when the
+   * constant works unchanged on Monad.
+   */
+  resolveFindings(
+    findings: LintFinding[],
+    files: SolidityFileInfo[]
+  ): { findings: LintFinding[]; constants: ChainConstant[] } {
+    const roles = new Map(files.map((f) => [f.filePath, f.role]));
+    const kept: LintFinding[] = [];
+    const constants: ChainConstant[] = [];
+
+    for (const finding of findings) {
+      const kind =
+        finding.ruleId === 'hardcoded-address'
+          ? 'address'
+          : finding.ruleId === 'hardcoded-chain-id'
+            ? 'chain-id'
+            : null;
+      if (!kind || !finding.value) {
+        kept.push(finding);
+        continue;
+      }
+
+      const role = roles.get(finding.filePath) || 'source';
+      const constant = this.resolve(kind, finding.value, finding.filePath, role, finding.range);
+      constant.contractName = finding.contractName;
+      constant.functionName = finding.functionName;
+      constants.push(constant);
+      if (constant.portable) continue;
+
+      kept.push({
+        ...finding,
+        message: constant.recommendation,
+        rationale: constant.known?.note ? `${finding.rationale}; ${constant.known.note}` : finding.rationale,
+      });
+    }
+
+    return { findings: kept, constants };
+  }
+
+  /**
+   * Address literals and chain ID comparisons in a deployment script
+   */
+  resolveScript(file: RepositoryFile, content: string): ChainConstant[] {
+    const constants: ChainConstant[] = [];
+
+    for (const match of content.matchAll(ADDRESS_LITERAL)) {
+      // The zero address and precompiles exist on every chain
+      if (BigInt(match[0]) <= 0xffffn) continue;
+      const range = rangeAt(content, match.index || 0, (match.index || 0) + match[0].length);
+      constants.push(this.resolve('address', match[0], file.path, file.role, range));
+    }
+    for (const match of content.matchAll(CHAIN_ID_COMPARISON)) {
+      const range = rangeAt(content, match.index || 0, (match.index || 0) + match[0].length);
+      constants.push(this.resolve('chain-id', match[1] || match[2], file.path, file.role, range));
+    }
+
+    return constants.sort((a, b) => a.range.startByte - b.range.startByte);
+  }
+
+  private resolve(
+    kind: ChainConstant['kind'],
+    value: string,
+    filePath: string,
+    role: FileRole,
+    range: SourceRange
+  ): ChainConstant {
+    if (kind === 'chain-id') {
+      const chainId = /^0x/i.test(value) ? String(parseInt(value, 16)) : value.replace(/_/g, '');
+      const chainName = this.registry.chainName(chainId);
+      const portable = Number(chainId) === this.monadChainId || MONAD_TESTNET_CHAIN_IDS.includes(Number(chainId));
+      return {
+        kind,
+        value: chainId,
+        filePath,
+        role,
+        range,
+        chainName,
+        portable,
+        recommendation: portable
+          ? `Chain ID ${chainId} is ${chainName || 'Monad\'s'}`
+          : `Replace the hardcoded chain ID ${chainId}${chainName ? ` (${chainName})` : ''} with a value set at deployment; Monad's chain ID is ${this.monadChainId}`,
+      };
+    }
+
+    const known = this.registry.lookupAddress(value);
+    let recommendation: string;
+    let portable = false;
+    if (!known) {
+      recommendation = `Make ${value} configurable, or confirm the same contract is deployed at that address on Monad`;
+    } else if (known.monadAddress?.toLowerCase() === value.toLowerCase()) {
+      recommendation = `${known.name} is deployed at the same address on Monad`;
+      portable = true;
+    } else if (known.monadAddress) {
+      recommendation = `Replace ${known.name} (${value}) with its Monad deployment at ${known.monadAddress}`;
+    } else {
+      recommendation = `${known.name} (${value}) has no known deployment on Monad; make the address configurable and point it at a Monad equivalent`;
+    }
+
+    return { kind, value, filePath, role, range, known, portable, recommendation };
+  }
+}
+
+export const addressRegistry = new AddressRegistry(config.analysis.addressRegistryPath);
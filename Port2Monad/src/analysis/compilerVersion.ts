@@ -0,0 +1,352 @@
+/**
+ * Compiler version resolution
+ * Intersects the `pragma solidity` constraints of every file into the compiler range
+ * the repository builds with, and reports ancient compilers and the EVM features the
+ * compiled code may rely on, relative to the EVM version Monad executes
+ */
+
+import {
+  CompilerIssue,
+  CompilerReport,
+  ProjectLayout,
+  SolidityContract,
+  SolidityFileInfo,
+} from '../types/index.js';
+
+/**
+ * Versions are encoded as `major * 1e6 + minor * 1e3 + patch`; `max` is exclusive
+ */
+interface VersionInterval {
+  min: number;
+  max: number;
+}
+
+export type VersionRange = VersionInterval[]; // union of disjoint intervals, lowest first
+
+const ANY_VERSION: VersionRange = [{ min: 0, max: Infinity }];
+
+const COMPARATOR = /(\^|~|>=|<=|>|<|=)?\s*v?(\d+(?:\.(?:\d+|[xX*])){0,2})/g;
+
+const EVM_VERSIONS = [
+  'homestead',
+  'tangerineWhistle',
+  'spuriousDragon',
+  'byzantium',
+  'constantinople',
+  'petersburg',
+  'istanbul',
+  'berlin',
+  'london',
+  'paris',
+  'shanghai',
+  'cancun',
+  'prague',
+  'osaka',
+];
+
+// First solc release defaulting to each EVM version, newest first
+const DEFAULT_EVM_VERSIONS: Array<[string, string]> = [
+  ['0.8.30', 'prague'],
+  ['0.8.25', 'cancun'],
+  ['0.8.20', 'shanghai'],
+  ['0.8.18', 'paris'],
+  ['0.8.7', 'london'],
+  ['0.8.5', 'berlin'],
+  ['0.5.14', 'istanbul'],
+  ['0.5.5', 'petersburg'],
+  ['0.4.21', 'byzantium'],
+];
+
+const EVM_FEATURES: Record<string, string> = {
+  PUSH0: 'shanghai',
+  MCOPY: 'cancun',
+  'TSTORE/TLOAD': 'cancun',
+};
+
+function versionKey(major: number, minor: number, patch: number): number {
+  return major * 1_000_000 + minor * 1_000 + patch;
+}
+
+function parseVersionKey(version: string): number | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? versionKey(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+export function formatVersion(key: number): string {
+  return `${Math.floor(key / 1_000_000)}.${Math.floor(key / 1_000) % 1_000}.${key % 1_000}`;
+}
+
+/**
+ * Versions one comparator allows. Partial versions cover every release they name:
+ * `0.8` is `>=0.8.0 <0.9.0` and `>0.8` is `>=0.9.0`.
+ */
+function comparatorInterval(operator: string, parts: number[]): VersionInterval {
+  const [major, minor = 0, patch = 0] = parts;
+  const version = versionKey(major, minor, patch);
+  const next =
+    parts.length === 1
+      ? versionKey(major + 1, 0, 0)
+      : parts.length === 2
+        ? versionKey(major, minor + 1, 0)
+        : version + 1;
+
+  switch (operator) {
+    case '^':
+      // Up to the next change of the first non-zero component
+      if (major > 0 || parts.length === 1) return { min: version, max: versionKey(major + 1, 0, 0) };
+      if (minor > 0 || parts.length === 2) return { min: version, max: versionKey(0, minor + 1, 0) };
+      return { min: version, max: version + 1 };
+    case '~':
+      return { min: version, max: parts.length === 1 ? versionKey(major + 1, 0, 0) : versionKey(major, minor + 1, 0) };
+    case '>=':
+      return { min: version, max: Infinity };
+    case '>':
+      return { min: next, max: Infinity };
+    case '<':
+      return { min: 0, max: version };
+    case '<=':
+      return { min: 0, max: next };
+    default:
+      return { min: version, max: next };
+  }
+}
+
+function intersectIntervals(a: VersionInterval, b: VersionInterval): VersionInterval | null {
+  const interval = { min: Math.max(a.min, b.min), max: Math.min(a.max, b.max) };
+  return interval.min < interval.max ? interval : null;
+}
+
+/**
+ * Parse a `pragma solidity` constraint: comparators separated by spaces must all hold,
+ * alternatives are separated by `||`, and `a - b` is an inclusive range.
+ * Returns null for text that isn't a version constraint.
+ */
+export function parseVersionConstraint(constraint: string): VersionRange | null {
+  const range: VersionRange = [];
+
+  for (const alternative of constraint.split('||')) {
+    const text = alternative.trim();
+    const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/);
+    const comparators = hyphen ? `>=${hyphen[1]} <=${hyphen[2]}` : text;
+
+    // Anything left over besides the comparators means this isn't a version constraint
+    if (!text || comparators.replace(COMPARATOR, '').trim() !== '') {
+      return null;
+    }
+
+    let interval: VersionInterval | null = ANY_VERSION[0];
+    for (const [, operator, version] of comparators.matchAll(COMPARATOR)) {
+      // Wildcard components act like missing ones
+      const parts = version.split('.');
+      const wildcard = parts.findIndex((p) => !/^\d+$/.test(p));
+      const numbers = (wildcard === -1 ? parts : parts.slice(0, wildcard)).map(Number);
+      interval = interval && intersectIntervals(interval, comparatorInterval(operator || '=', numbers));
+    }
+    if (interval) {
+      range.push(interval);
+    }
+  }
+
+  return normalizeRange(range);
+}
+
+function normalizeRange(range: VersionRange): VersionRange {
+  const sorted = [...range].sort((a, b) => a.min - b.min);
+  const merged: VersionRange = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.min <= last.max) {
+      last.max = Math.max(last.max, interval.max);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+export function intersectRanges(a: VersionRange, b: VersionRange): VersionRange {
+  const intervals: VersionRange = [];
+  for (const left of a) {
+    for (const right of b) {
+      const interval = intersectIntervals(left, right);
+      if (interval) intervals.push(interval);
+    }
+  }
+  return normalizeRange(intervals);
+}
+
+export function formatRange(range: VersionRange): string {
+  return range
+    .map((interval) => {
+      if (interval.max === interval.min + 1) return `=${formatVersion(interval.min)}`;
+      const bounds: string[] = [];
+      if (interval.min > 0) bounds.push(`>=${formatVersion(interval.min)}`);
+      if (interval.max !== Infinity) bounds.push(`<${formatVersion(interval.max)}`);
+      return bounds.join(' ') || '*';
+    })
+    .join(' || ');
+}
+
+/**
+ * EVM version solc targets unless told otherwise; undefined before 0.4.21,
+ * which had no EVM version setting
+ */
+export function defaultEvmVersion(compilerVersion: string): string | undefined {
+  const key = parseVersionKey(compilerVersion);
+  if (key === null) {
+    return undefined;
+  }
+  return DEFAULT_EVM_VERSIONS.find(([since]) => key >= parseVersionKey(since)!)?.[1];
+}
+
+/**
+ * Order of two EVM versions by hard fork; unknown names compare as undefined
+ */
+export function compareEvmVersions(a: string, b: string): number | undefined {
+  const left = EVM_VERSIONS.indexOf(a);
+  const right = EVM_VERSIONS.indexOf(b);
+  return left === -1 || right === -1 ? undefined : left - right;
+}
+
+const MODERN_COMPILER = versionKey(0, 8, 0);
+
+export class CompilerCompatibilityChecker {
+  private files: SolidityFileInfo[];
+  private contracts: SolidityContract[];
+  private projects: ProjectLayout[];
+  private targetEvmVersion: string;
+
+  constructor(
+    files: SolidityFileInfo[],
+    contracts: SolidityContract[],
+    projects: ProjectLayout[],
+    targetEvmVersion: string
+  ) {
+    this.files = files;
+    this.contracts = contracts;
+    // Deepest project first so nested projects take precedence
+    this.projects = [...projects].sort((a, b) => b.root.split('/').length - a.root.split('/').length);
+    this.targetEvmVersion = targetEvmVersion;
+  }
+
+  /**
+   * Fill in every file's EVM target and features, and resolve the repository's
+   * compiler range. Project sources are folded in first, so a vendored or test
+   * file that disagrees with them is the one reported as conflicting.
+   */
+  check(): CompilerReport {
+    const issues: CompilerIssue[] = [];
+    const conflictingFiles: string[] = [];
+    let resolved: VersionRange | undefined;
+
+    const ordered = [...this.files].sort(
+      (a, b) => Number(a.role !== 'source') - Number(b.role !== 'source') || a.filePath.localeCompare(b.filePath)
+    );
+
+    for (const file of ordered) {
+      const issue = (kind: CompilerIssue['kind'], severity: CompilerIssue['severity'], message: string) =>
+        issues.push({ kind, severity, filePath: file.filePath, message });
+
+      const range = file.solidityPragma !== undefined ? parseVersionConstraint(file.solidityPragma) : null;
+      if (file.solidityPragma === undefined) {
+        issue('missing-pragma', 'warning', 'No `pragma solidity`; any compiler version is accepted');
+      } else if (!range || range.length === 0) {
+        issue('invalid-pragma', 'warning', `Could not interpret \`pragma solidity ${file.solidityPragma}\``);
+      }
+
+      if (range && range.length > 0) {
+        if (range[range.length - 1].max <= MODERN_COMPILER) {
+          issue(
+            'ancient-compiler',
+            'warning',
+            `\`pragma solidity ${file.solidityPragma}\` only allows compilers before 0.8.0, which lack checked arithmetic and can't target recent EVM versions`
+          );
+        }
+
+        const combined = resolved ? intersectRanges(resolved, range) : range;
+        if (combined.length === 0) {
+          conflictingFiles.push(file.filePath);
+          // Sources are folded first, so a conflicting source disagrees with other sources
+          issue(
+            'version-conflict',
+            file.role === 'source' ? 'error' : 'warning',
+            `\`pragma solidity ${file.solidityPragma}\` shares no compiler version with the rest of the repository (${formatRange(resolved!)})`
+          );
+        } else {
+          resolved = combined;
+        }
+      }
+
+      this.resolveEvmFeatures(file, range);
+      for (const feature of file.evmFeatures) {
+        const fork = EVM_FEATURES[feature];
+        const comparison = compareEvmVersions(fork, this.targetEvmVersion);
+        if (comparison !== undefined && comparison > 0) {
+          issue(
+            'evm-feature',
+            'warning',
+            `May use ${feature} (${fork}), which Monad's ${this.targetEvmVersion} EVM doesn't support`
+          );
+        }
+      }
+    }
+
+    for (const project of this.projects) {
+      const comparison = project.evmVersion ? compareEvmVersions(project.evmVersion, this.targetEvmVersion) : undefined;
+      if (comparison !== undefined && comparison > 0) {
+        issues.push({
+          kind: 'evm-target',
+          severity: 'warning',
+          filePath: project.configFiles[0] || project.root,
+          message: `Targets the ${project.evmVersion} EVM, newer than Monad's ${this.targetEvmVersion}`,
+        });
+      }
+    }
+
+    return {
+      versionRange: resolved ? formatRange(resolved) : undefined,
+      minimumVersion: resolved ? formatVersion(resolved[0].min) : undefined,
+      conflictingFiles,
+      targetEvmVersion: this.targetEvmVersion,
+      issues,
+    };
+  }
+
+  /**
+   * The EVM target comes from the project config, else the default of the oldest
+   * compiler the pragma allows. Targets from shanghai on make solc emit PUSH0 and
+   * from cancun MCOPY; transient storage is only used when the code asks for it.
+   */
+  private resolveEvmFeatures(file: SolidityFileInfo, range: VersionRange | null): void {
+    const project = this.projects.find((p) => p.root === '' || file.filePath.startsWith(`${p.root}/`));
+    file.evmVersion =
+      project?.evmVersion || (range && range.length > 0 ? defaultEvmVersion(formatVersion(range[0].min)) : undefined);
+
+    const features = new Set<string>();
+    const targetsAtLeast = (fork: string) => {
+      const comparison = file.evmVersion ? compareEvmVersions(file.evmVersion, fork) : undefined;
+      return comparison !== undefined && comparison >= 0;
+    };
+    if (targetsAtLeast('shanghai')) features.add('PUSH0');
+    if (targetsAtLeast('cancun')) features.add('MCOPY');
+
+    for (const contract of this.contracts.filter((c) => c.filePath === file.filePath)) {
+      for (const block of contract.assembly) {
+        if (block.opcodes.mcopy) features.add('MCOPY');
+        if (block.opcodes.tstore || block.opcodes.tload) features.add('TSTORE/TLOAD');
+      }
+      if (contract.stateVariables.some((v) => v.transient)) features.add('TSTORE/TLOAD');
+    }
+
+    file.evmFeatures = Array.from(features);
+  }
+}
+
+export function checkCompilerCompatibility(
+  files: SolidityFileInfo[],
+  contracts: SolidityContract[],
+  projects: ProjectLayout[],
+  targetEvmVersion: string
+): CompilerReport {
+  return new CompilerCompatibilityChecker(files, contracts, projects, targetEvmVersion).check();
+}
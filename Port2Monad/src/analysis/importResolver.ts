@@ -0,0 +1,105 @@
+/**
+ * Solidity import resolution
+ * Maps import paths to repository files using relative path rules and the
+ * remappings of the project the importing file belongs to
+ */
+
+import path from 'path';
+import { ProjectLayout, RepositoryDirectory, RepositoryTree } from '../types/index.js';
+import { shouldIgnoreDirectory } from '../ingestion/fileTypeDetector.js';
+
+export interface ResolvedImport {
+  path: string; // repository-relative path the import points at
+  found: boolean; // the file exists in the ingested tree
+  external: boolean; // points outside the repository (e.g. an uninstalled npm package)
+}
+
+function collectPaths(dir: RepositoryDirectory, files: Set<string>, dirs: Set<string>): void {
+  dirs.add(dir.path);
+  for (const file of dir.files) {
+    files.add(file.path);
+  }
+  for (const subdir of dir.subdirectories) {
+    collectPaths(subdir, files, dirs);
+  }
+}
+
+/**
+ * Package a package-style import comes from: `@scope/pkg` or `pkg`
+ */
+export function importPackage(importPath: string): string {
+  const segments = importPath.split('/');
+  return segments.slice(0, importPath.startsWith('@') ? 2 : 1).join('/');
+}
+
+function isUnder(filePath: string, dir: string): boolean {
+  return dir === '' || filePath.startsWith(`${dir}/`);
+}
+
+export class ImportResolver {
+  private projects: ProjectLayout[];
+  private files: Set<string> = new Set();
+  private directories: Set<string> = new Set();
+
+  constructor(tree: RepositoryTree) {
+    // Deepest project first so nested projects take precedence
+    this.projects = [...(tree.projects || [])].sort(
+      (a, b) => b.root.split('/').length - a.root.split('/').length
+    );
+    collectPaths(tree.root, this.files, this.directories);
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.files.has(filePath);
+  }
+
+  resolve(fromFile: string, importPath: string): ResolvedImport {
+    // Relative imports resolve against the importing file's directory
+    if (importPath.startsWith('./') || importPath.startsWith('../')) {
+      const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), importPath));
+      return { path: resolved, found: this.files.has(resolved), external: resolved.startsWith('../') };
+    }
+
+    const project = this.projects.find((p) => isUnder(fromFile, p.root));
+
+    // Longest matching prefix wins; context-specific remappings beat global ones of the same length
+    const remapping = project?.remappings
+      .filter(
+        (r) => importPath.startsWith(r.prefix) && (r.context === undefined || isUnder(fromFile, r.context))
+      )
+      .sort(
+        (a, b) =>
+          b.prefix.length - a.prefix.length ||
+          (b.context?.length || 0) - (a.context?.length || 0)
+      )[0];
+
+    if (remapping) {
+      const resolved = path.posix.normalize(remapping.target + importPath.substring(remapping.prefix.length));
+      // Targets such as node_modules/ are skipped at ingestion
+      const external = resolved.split('/').some((segment) => shouldIgnoreDirectory(segment));
+      return { path: resolved, found: this.files.has(resolved), external };
+    }
+
+    // Direct paths resolve from the project root, then the repository root
+    const candidates = project && project.root ? [`${project.root}/${importPath}`, importPath] : [importPath];
+    for (const candidate of candidates) {
+      const normalized = path.posix.normalize(candidate);
+      if (this.files.has(normalized)) {
+        return { path: normalized, found: true, external: false };
+      }
+    }
+
+    // Unmapped package-style imports (`@scope/pkg/...`, `pkg/...`) come from dependencies that weren't ingested
+    const firstSegment = importPath.split('/')[0];
+    const projectRoot = project?.root || '';
+    const external =
+      !this.directories.has(firstSegment) &&
+      !this.directories.has(projectRoot ? `${projectRoot}/${firstSegment}` : firstSegment);
+    // Hardhat and Truffle install them under node_modules, which ingestion skips
+    const skippedLibRoot = external
+      ? project?.libRoots.find((root) => root.split('/').some((segment) => shouldIgnoreDirectory(segment)))
+      : undefined;
+    const resolved = skippedLibRoot ? `${skippedLibRoot}/${importPath}` : candidates[0];
+    return { path: path.posix.normalize(resolved), found: false, external };
+  }
+}
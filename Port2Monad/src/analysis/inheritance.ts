@@ -0,0 +1,233 @@
+/**
+ * Inheritance resolution
+ * Resolves base contract names through each file's import scope, computes the C3
+ * linearization Solidity uses for storage, overriding and `super`, and derives
+ * every contract's effective function set
+ */
+
+import { ContractReference, EffectiveFunction, SolidityContract } from '../types/index.js';
+import { ImportResolver } from './importResolver.js';
+
+export interface ImportDirective {
+  path: string; // as written in the source
+  symbols?: Array<{ name: string; alias?: string }>; // `import {A, B as C} from "..."`
+  unitAlias?: string; // `import "..." as X` or `import * as X from "..."`
+}
+
+export interface Linearization {
+  order: string[]; // most derived first
+  missing: string[]; // bases parentsOf could not resolve
+  error?: string; // inconsistent hierarchy or cycle
+}
+
+/**
+ * C3 linearization. Solidity reads `is A, B` right to left, so B is more derived than A.
+ */
+export function linearize(name: string, parentsOf: (name: string) => string[] | undefined): Linearization {
+  const memo = new Map<string, string[]>();
+  const visiting = new Set<string>();
+  const missing = new Set<string>();
+
+  const visit = (current: string): string[] => {
+    const cached = memo.get(current);
+    if (cached) {
+      return cached;
+    }
+    const parents = parentsOf(current);
+    if (!parents) {
+      missing.add(current);
+      return [current];
+    }
+    if (visiting.has(current)) {
+      throw new Error(`Cyclic inheritance through ${current}`);
+    }
+    visiting.add(current);
+
+    const bases = [...parents].reverse();
+    const sequences = [...bases.map((base) => [...visit(base)]), bases];
+    const order = [current];
+    while (sequences.some((sequence) => sequence.length > 0)) {
+      const next = sequences
+        .map((sequence) => sequence[0])
+        .find(
+          (head) => head !== undefined && !sequences.some((sequence) => sequence.indexOf(head) > 0)
+        );
+      if (!next) {
+        throw new Error(`No consistent linearization of ${current}'s bases`);
+      }
+      order.push(next);
+      for (const sequence of sequences) {
+        if (sequence[0] === next) sequence.shift();
+      }
+    }
+
+    visiting.delete(current);
+    memo.set(current, order);
+    return order;
+  };
+
+  try {
+    const order = visit(name);
+    missing.delete(name);
+    return { order, missing: Array.from(missing) };
+  } catch (error) {
+    return {
+      order: [name],
+      missing: Array.from(missing),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function contractKey(contract: { name: string; filePath?: string }): string {
+  return `${contract.filePath}:${contract.name}`;
+}
+
+export class InheritanceResolver {
+  private contracts: SolidityContract[];
+  private fileImports: Map<string, ImportDirective[]>;
+  private importResolver: ImportResolver;
+  private byKey: Map<string, SolidityContract> = new Map();
+  private byName: Map<string, SolidityContract[]> = new Map();
+  private scopes: Map<string, Map<string, SolidityContract>> = new Map();
+  private resolvingScopes: Set<string> = new Set();
+
+  constructor(
+    contracts: SolidityContract[],
+    fileImports: Map<string, ImportDirective[]>,
+    importResolver: ImportResolver
+  ) {
+    this.contracts = contracts;
+    this.fileImports = fileImports;
+    this.importResolver = importResolver;
+    for (const contract of contracts) {
+      this.byKey.set(contractKey(contract), contract);
+      this.byName.set(contract.name, [...(this.byName.get(contract.name) || []), contract]);
+    }
+  }
+
+  /**
+   * Fill in every contract's linearization and effective functions
+   */
+  resolve(): void {
+    for (const contract of this.contracts) {
+      const parentsOf = (key: string): string[] | undefined => {
+        const current = this.byKey.get(key);
+        return current?.inherits.map((parent) => {
+          const resolved = this.resolveParent(current, parent);
+          return resolved ? contractKey(resolved) : parent;
+        });
+      };
+
+      const linearization = linearize(contractKey(contract), parentsOf);
+      contract.linearization = linearization.order.map((key) => {
+        const resolved = this.byKey.get(key);
+        return resolved ? { name: resolved.name, filePath: resolved.filePath } : { name: key };
+      });
+      contract.linearizationError = linearization.error;
+      contract.effectiveFunctions = this.computeEffectiveFunctions(contract);
+    }
+  }
+
+  lookup(reference: ContractReference): SolidityContract | undefined {
+    return reference.filePath ? this.byKey.get(contractKey(reference)) : undefined;
+  }
+
+  /**
+   * A base name as written in the inheritance clause (`Base` or `Alias.Base`) is looked
+   * up in the declaring file's scope; a base that isn't in scope (e.g. an import that
+   * didn't resolve) falls back to the only contract of that name in the repository
+   */
+  private resolveParent(contract: SolidityContract, name: string): SolidityContract | undefined {
+    const inScope = this.scopeOf(contract.filePath).get(name);
+    if (inScope) {
+      return inScope;
+    }
+    const candidates = this.byName.get(name.substring(name.lastIndexOf('.') + 1)) || [];
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Contracts visible in a file: its own, plus those its imports bring in.
+   * `import "x.sol"` re-exports everything visible in x.sol.
+   */
+  private scopeOf(filePath: string): Map<string, SolidityContract> {
+    const cached = this.scopes.get(filePath);
+    if (cached) {
+      return cached;
+    }
+
+    const scope = new Map<string, SolidityContract>();
+    const own = this.contracts.filter((c) => c.filePath === filePath);
+
+    // Circular imports see only the declarations of files still being resolved
+    if (this.resolvingScopes.has(filePath)) {
+      for (const contract of own) scope.set(contract.name, contract);
+      return scope;
+    }
+    this.resolvingScopes.add(filePath);
+
+    for (const directive of this.fileImports.get(filePath) || []) {
+      const target = this.importResolver.resolve(filePath, directive.path).path;
+      const imported = this.scopeOf(target);
+
+      if (directive.symbols) {
+        for (const symbol of directive.symbols) {
+          const contract = imported.get(symbol.name);
+          if (contract) scope.set(symbol.alias || symbol.name, contract);
+        }
+      } else if (directive.unitAlias) {
+        for (const [name, contract] of imported) {
+          scope.set(`${directive.unitAlias}.${name}`, contract);
+        }
+      } else {
+        for (const [name, contract] of imported) {
+          scope.set(name, contract);
+        }
+      }
+    }
+    for (const contract of own) {
+      scope.set(contract.name, contract);
+    }
+
+    this.resolvingScopes.delete(filePath);
+    this.scopes.set(filePath, scope);
+    return scope;
+  }
+
+  /**
+   * Walk the linearization from the most derived contract; the first declaration of a
+   * signature is the one that runs, and the bases' declarations it replaces are recorded.
+   * Constructors aren't inherited, and neither are the bases' private functions.
+   */
+  private computeEffectiveFunctions(contract: SolidityContract): EffectiveFunction[] {
+    const effective = new Map<string, EffectiveFunction>();
+
+    contract.linearization.forEach((reference, index) => {
+      const base = index === 0 ? contract : this.lookup(reference);
+      if (!base) return;
+
+      for (const fn of base.functions) {
+        if (fn.kind === 'constructor' || (index > 0 && fn.visibility === 'private')) continue;
+
+        const key = fn.kind === 'function' ? fn.signature : fn.kind;
+        const existing = effective.get(key);
+        if (existing) {
+          existing.overrides.push(base.name);
+          continue;
+        }
+        effective.set(key, {
+          signature: fn.signature,
+          kind: fn.kind,
+          visibility: fn.visibility,
+          stateMutability: fn.stateMutability,
+          implemented: fn.implemented,
+          definedIn: base.name,
+          overrides: [],
+        });
+      }
+    });
+
+    return Array.from(effective.values());
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Monad lint rules
+ * Deterministic checks over the Tree-sitter AST for code whose behavior changes on
+ * Monad. Each rule inspects nodes of a few types and is independent of the others,
+ * so rules can be disabled one by one and run alone against fixture sources.
+ */
+
+import Parser from 'tree-sitter';
+import Solidity from 'tree-sitter-solidity';
+import { LintFinding } from '../types/index.js';
+
+export interface LintContext {
+  filePath: string;
+  sourceCode: string;
+  contractName: string;
+  storageArrays: Set<string>; // dynamic array state variables declared by the contract
+}
+
+export interface LintMatch {
+  node?: Parser.SyntaxNode; // range to report; defaults to the inspected node
+  message: string;
+  rationale: string;
+  value?: string; // literal the match is about
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  changeCategory: LintFinding['changeCategory'];
+  nodeTypes: string[]; // AST node types passed to check
+  check(node: Parser.SyntaxNode, context: LintContext): LintMatch | null;
+}
+
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>='];
+
+// Offsets from and orderings against a block number measure time in blocks;
+// stored, emitted or compared for equality it only identifies a block
+const BLOCK_SPAN_OPERATORS = ['+', '-', '<', '<=', '>', '>='];
+
+// An offset below a minute only makes sense as a number of assumed block intervals
+const MAX_BLOCK_INTERVAL_SECONDS = 60;
+
+/**
+ * Strip the `expression` wrappers tree-sitter puts around every sub-expression
+ */
+function unwrap(node: Parser.SyntaxNode | null): Parser.SyntaxNode | null {
+  while (node && node.type === 'expression' && node.namedChildCount === 1) {
+    node = node.namedChildren[0];
+  }
+  return node;
+}
+
+/**
+ * The nearest ancestor that isn't an `expression` wrapper
+ */
+function enclosing(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  let parent = node.parent;
+  while (parent && parent.type === 'expression') {
+    parent = parent.parent;
+  }
+  return parent;
+}
+
+/**
+ * `block.timestamp`-style member access on a plain identifier, as written
+ */
+function memberName(node: Parser.SyntaxNode | null): string | undefined {
+  if (node?.type !== 'member_expression') {
+    return undefined;
+  }
+  const object = node.childForFieldName('object');
+  const property = node.childForFieldName('property');
+  return object?.type === 'identifier' && property ? `${object.text}.${property.text}` : undefined;
+}
+
+function calleeName(node: Parser.SyntaxNode): string | undefined {
+  const fn = unwrap(node.childForFieldName('function'));
+  return fn?.type === 'identifier' ? fn.text : undefined;
+}
+
+/**
+ * The binary expression a node is an operand of, with the other operand
+ */
+function binaryParent(
+  node: Parser.SyntaxNode
+): { expression: Parser.SyntaxNode; operator: string; other: Parser.SyntaxNode | null } | null {
+  const parent = enclosing(node);
+  if (parent?.type !== 'binary_expression') {
+    return null;
+  }
+  const left = unwrap(parent.childForFieldName('left'));
+  const right = unwrap(parent.childForFieldName('right'));
+  return {
+    expression: parent,
+    operator: parent.childForFieldName('operator')?.text || '',
+    other: left?.id === node.id ? right : left,
+  };
+}
+
+/**
+ * Value in seconds of a number literal; time units are applied, other units and hex aren't
+ */
+function literalSeconds(node: Parser.SyntaxNode | null): number | undefined {
+  if (node?.type !== 'number_literal' || /^0x/i.test(node.text)) {
+    return undefined;
+  }
+  const unit = node.namedChildren.find((c) => c.type === 'number_unit')?.text;
+  const multipliers: Record<string, number> = { seconds: 1, minutes: 60, hours: 3600, days: 86400, weeks: 604800 };
+  if (unit && !(unit in multipliers)) {
+    return undefined;
+  }
+  const value = Number(node.text.slice(0, unit ? -unit.length : undefined).replace(/_/g, '').trim());
+  return Number.isFinite(value) ? value * (unit ? multipliers[unit] : 1) : undefined;
+}
+
+function isAddressLiteral(node: Parser.SyntaxNode): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(node.text);
+}
+
+export const MONAD_LINT_RULES: LintRule[] = [
+  {
+    id: 'block-time-assumption',
+    description: 'block numbers or short timestamp offsets used as time',
+    changeCategory: 'evm-compatibility',
+    nodeTypes: ['member_expression'],
+    check(node) {
+      const name = memberName(node);
+      if (name === 'block.number') {
+        const binary = binaryParent(node);
+        if (!binary || !BLOCK_SPAN_OPERATORS.includes(binary.operator)) {
+          return null;
+        }
+        // `blockhash(block.number - 1)` names a recent block rather than a span
+        const argument = enclosing(binary.expression);
+        if (argument?.type === 'call_argument' && argument.parent && calleeName(argument.parent) === 'blockhash') {
+          return null;
+        }
+        return {
+          node: binary.expression,
+          message: 'Measure durations and deadlines with block.timestamp instead of block numbers',
+          rationale:
+            'Monad produces blocks far more often than Ethereum\'s 12 seconds, so a number of blocks chosen as a duration elapses much sooner',
+        };
+      }
+      if (name !== 'block.timestamp') {
+        return null;
+      }
+
+      const binary = binaryParent(node);
+      if (!binary) {
+        return null;
+      }
+      if (binary.operator === '==' || binary.operator === '!=') {
+        return {
+          node: binary.expression,
+          message: 'Compare block.timestamp with an ordering comparison rather than for equality',
+          rationale:
+            'Several Monad blocks can share the same second, so exact timestamps are neither unique per block nor reliably hit',
+        };
+      }
+      const seconds = literalSeconds(binary.other);
+      if (seconds !== undefined && seconds > 0 && seconds < MAX_BLOCK_INTERVAL_SECONDS) {
+        return {
+          node: binary.expression,
+          message: `Revisit the ${seconds}-second offset from block.timestamp; it assumes Ethereum's block interval`,
+          rationale:
+            'Offsets of a few seconds usually stand for one or more 12-second Ethereum blocks, while Monad blocks are much shorter',
+        };
+      }
+      return null;
+    },
+  },
+  {
+    id: 'gasleft-comparison',
+    description: 'gasleft() compared against a fixed threshold',
+    changeCategory: 'evm-compatibility',
+    nodeTypes: ['call_expression'],
+    check(node) {
+      const binary = calleeName(node) === 'gasleft' ? binaryParent(node) : null;
+      if (!binary || !COMPARISON_OPERATORS.includes(binary.operator)) {
+        return null;
+      }
+      return {
+        node: binary.expression,
+        message: 'Re-derive the gas threshold for Monad or remove the dependency on remaining gas',
+        rationale:
+          'Monad prices some operations, notably cold storage and account access, differently from Ethereum, so thresholds tuned on Ethereum can pass or fail unexpectedly',
+      };
+    },
+  },
+  {
+    id: 'hardcoded-chain-id',
+    description: 'block.chainid compared against a literal',
+    changeCategory: 'evm-compatibility',
+    nodeTypes: ['member_expression'],
+    check(node) {
+      const binary = memberName(node) === 'block.chainid' ? binaryParent(node) : null;
+      if (!binary || !COMPARISON_OPERATORS.includes(binary.operator) || binary.other?.type !== 'number_literal') {
+        return null;
+      }
+      return {
+        node: binary.expression,
+        message: `Replace the hardcoded chain ID ${binary.other.text} with a value set at deployment`,
+        rationale: 'Monad has its own chain ID, so checks written for Ethereum networks fail or take the wrong branch',
+        value: binary.other.text,
+      };
+    },
+  },
+  {
+    id: 'hardcoded-address',
+    description: 'address literals',
+    changeCategory: 'architecture',
+    nodeTypes: ['number_literal'],
+    check(node) {
+      // The zero address and precompiles exist on every chain
+      if (!isAddressLiteral(node) || BigInt(node.text) <= 0xffffn) {
+        return null;
+      }
+      return {
+        message: `Make ${node.text} configurable, or confirm the same contract is deployed at that address on Monad`,
+        rationale:
+          'Tokens, oracles and routers deployed on Ethereum mainnet usually live at different addresses on Monad, or not at all',
+        value: node.text,
+      };
+    },
+  },
+  {
+    id: 'tx-origin-auth',
+    description: 'tx.origin used for authorization',
+    changeCategory: 'security-consideration',
+    nodeTypes: ['member_expression'],
+    check(node) {
+      const binary = memberName(node) === 'tx.origin' ? binaryParent(node) : null;
+      if (!binary || (binary.operator !== '==' && binary.operator !== '!=')) {
+        return null;
+      }
+      return {
+        node: binary.expression,
+        message: 'Authorize msg.sender instead of tx.origin',
+        rationale:
+          'tx.origin checks can be passed through a contract the owner is tricked into calling, and with EIP-7702 delegated accounts `tx.origin == msg.sender` no longer proves the caller has no code',
+      };
+    },
+  },
+  {
+    id: 'selfdestruct',
+    description: 'selfdestruct calls',
+    changeCategory: 'evm-compatibility',
+    nodeTypes: ['call_expression'],
+    check(node) {
+      const name = calleeName(node);
+      if (name !== 'selfdestruct' && name !== 'suicide') {
+        return null;
+      }
+      return {
+        message: 'Replace selfdestruct with an explicit withdrawal and a disabled flag',
+        rationale:
+          'Since EIP-6780 selfdestruct only deletes code and storage in the transaction that created the contract; otherwise it just sends the balance',
+      };
+    },
+  },
+  {
+    id: 'weak-randomness',
+    description: 'block.prevrandao or block.difficulty used as randomness',
+    changeCategory: 'security-consideration',
+    nodeTypes: ['member_expression'],
+    check(node) {
+      const name = memberName(node);
+      if (name !== 'block.prevrandao' && name !== 'block.difficulty') {
+        return null;
+      }
+      return {
+        message: `Source randomness from a VRF oracle instead of ${name}`,
+        rationale: `${name} is known to the block proposer in advance and can be influenced by it, on Monad as on Ethereum`,
+      };
+    },
+  },
+  {
+    id: 'unbounded-storage-loop',
+    description: 'loops bounded by the length of a storage array',
+    changeCategory: 'performance',
+    nodeTypes: ['for_statement', 'while_statement', 'do_while_statement'],
+    check(node, context) {
+      const condition = node.childForFieldName('condition');
+      const lengths = condition ? condition.descendantsOfType('member_expression') : [];
+      const bound = lengths.find((member) => {
+        const object = unwrap(member.childForFieldName('object'));
+        return (
+          member.childForFieldName('property')?.text === 'length' &&
+          object?.type === 'identifier' &&
+          context.storageArrays.has(object.text)
+        );
+      });
+      if (!bound) {
+        return null;
+      }
+      return {
+        message: `Bound or paginate the loop over ${bound.text}`,
+        rationale:
+          'Each iteration touches storage, so the loop\'s gas grows with the array until the call no longer fits in a transaction, and every slot read is a potential conflict with parallel transactions',
+      };
+    },
+  },
+];
+
+/**
+ * Runs lint rules over the contracts and libraries of a parsed file
+ */
+export class MonadLinter {
+  private rulesByType: Map<string, LintRule[]> = new Map();
+
+  constructor(rules: LintRule[] = MONAD_LINT_RULES) {
+    for (const rule of rules) {
+      for (const type of rule.nodeTypes) {
+        this.rulesByType.set(type, [...(this.rulesByType.get(type) || []), rule]);
+      }
+    }
+  }
+
+  lint(rootNode: Parser.SyntaxNode, sourceCode: string, filePath: string): LintFinding[] {
+    const findings: LintFinding[] = [];
+
+    for (const contractNode of rootNode.descendantsOfType(['contract_declaration', 'library_declaration'])) {
+      const context: LintContext = {
+        filePath,
+        sourceCode,
+        contractName: contractNode.childForFieldName('name')?.text || 'unknown',
+        storageArrays: this.findStorageArrays(contractNode),
+      };
+      this.visit(contractNode, context, undefined, findings);
+    }
+
+    return findings;
+  }
+
+  private visit(
+    node: Parser.SyntaxNode,
+    context: LintContext,
+    functionName: string | undefined,
+    findings: LintFinding[]
+  ): void {
+    if (node.type === 'function_definition') {
+      functionName = node.childForFieldName('name')?.text;
+    } else if (node.type === 'constructor_definition') {
+      functionName = 'constructor';
+    } else if (node.type === 'fallback_receive_definition') {
+      functionName = node.children.some((c) => c.type === 'receive') ? 'receive' : 'fallback';
+    } else if (node.type === 'modifier_definition') {
+      functionName = undefined;
+    }
+
+    for (const rule of this.rulesByType.get(node.type) || []) {
+      const match = rule.check(node, context);
+      if (!match) continue;
+
+      const target = match.node || node;
+      findings.push({
+        ruleId: rule.id,
+        filePath: context.filePath,
+        contractName: context.contractName,
+        functionName,
+        changeCategory: rule.changeCategory,
+        message: match.message,
+        rationale: match.rationale,
+        snippet: target.text.split('\n')[0].trim(),
+        value: match.value,
+        range: {
+          startLine: target.startPosition.row + 1,
+          endLine: target.endPosition.row + 1,
+          startByte: target.startIndex,
+          endByte: target.endIndex,
+        },
+      });
+    }
+
+    for (const child of node.namedChildren) {
+      this.visit(child, context, functionName, findings);
+    }
+  }
+
+  private findStorageArrays(contractNode: Parser.SyntaxNode): Set<string> {
+    const arrays = new Set<string>();
+    const body = contractNode.childForFieldName('body');
+    for (const declaration of body?.namedChildren.filter((c) => c.type === 'state_variable_declaration') || []) {
+      const type = declaration.childForFieldName('type')?.text || '';
+      const name = declaration.childForFieldName('name')?.text;
+      const inCode = declaration.children.some((c) => c.type === 'constant' || c.type === 'immutable');
+      if (name && !inCode && /\[\]$/.test(type.replace(/\s+/g, ''))) {
+        arrays.add(name);
+      }
+    }
+    return arrays;
+  }
+}
+
+let fixtureParser: Parser | null = null;
+
+/**
+ * Parse and lint a single source, e.g. a rule fixture. `ruleIds` limits the rules run.
+ */
+export function lintSolidity(sourceCode: string, filePath: string = 'Fixture.sol', ruleIds?: string[]): LintFinding[] {
+  if (!fixtureParser) {
+    fixtureParser = new Parser();
+    fixtureParser.setLanguage(Solidity as any);
+  }
+  const rules = ruleIds ? MONAD_LINT_RULES.filter((r) => ruleIds.includes(r.id)) : MONAD_LINT_RULES;
+  return new MonadLinter(rules).lint(fixtureParser.parse(sourceCode).rootNode, sourceCode, filePath);
+}
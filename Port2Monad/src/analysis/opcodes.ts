@@ -0,0 +1,35 @@
+/**
+ * Yul opcodes whose behavior or cost deserves review when moving to Monad
+ */
+
+export const SENSITIVE_OPCODES: Record<string, string> = {
+  sload: 'raw storage reads bypass the storage layout and can conflict under parallel execution',
+  sstore: 'raw storage writes bypass the storage layout and can conflict under parallel execution',
+  delegatecall: 'executes foreign code against this contract\'s storage',
+  callcode: 'deprecated delegatecall predecessor',
+  extcodesize: 'contract-detection checks are bypassable during construction',
+  extcodehash: 'code hash checks depend on deployment state',
+  extcodecopy: 'copies another contract\'s code',
+  timestamp: 'block timestamps advance faster with shorter block times',
+  number: 'block numbers advance faster with shorter block times',
+  blockhash: 'block hashes are not a source of randomness',
+  prevrandao: 'randomness beacon semantics depend on the consensus layer',
+  difficulty: 'alias of prevrandao after the merge',
+  coinbase: 'block producer address depends on the consensus layer',
+  gas: 'remaining gas depends on the chain\'s gas schedule',
+  gasprice: 'gas pricing depends on the chain\'s fee market',
+  gaslimit: 'block gas limits differ between chains',
+  basefee: 'base fee depends on the chain\'s fee market',
+  selfdestruct: 'no longer deletes code or storage outside the creating transaction (EIP-6780)',
+  create: 'deployed addresses depend on the deployer nonce',
+  create2: 'deployed addresses depend on the factory address and init code',
+};
+
+/**
+ * Sensitive opcodes present in an inventory, most used first
+ */
+export function findSensitiveOpcodes(inventory: Record<string, number>): string[] {
+  return Object.keys(inventory)
+    .filter((opcode) => opcode in SENSITIVE_OPCODES)
+    .sort((a, b) => inventory[b] - inventory[a] || a.localeCompare(b));
+}
@@ -0,0 +1,116 @@
+/**
+ * Parse cache
+ * Keeps what the analyzer extracts from each Solidity file, keyed by path and blob SHA,
+ * in memory and optionally on disk, so re-analysis only parses files that changed
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { LintFinding, SolidityContract, SolidityFileInfo } from '../types/index.js';
+import type { ImportDirective } from './inheritance.js';
+import type { RawCallSite } from './callGraph.js';
+import type { RawStateAccess } from './stateAccess.js';
+import type { TypeScope } from './storageLayout.js';
+
+// Bump whenever ParsedFile or the extraction behind it changes, so stale entries are ignored
+const PARSE_CACHE_FORMAT = 5;
+
+export interface ParsedContract {
+  contract: SolidityContract; // before inheritance and call resolution
+  calls: RawCallSite[][]; // per function, in declaration order
+  functionAccesses: RawStateAccess[][];
+  modifierAccesses: RawStateAccess[][];
+}
+
+export interface ParsedFile {
+  info: SolidityFileInfo;
+  imports: ImportDirective[];
+  declarations: TypeScope; // file-level structs, enums and value types
+  contracts: ParsedContract[];
+  findings: LintFinding[]; // every lint rule; disabled rules are filtered per analysis
+}
+
+export class ParseCache {
+  private entries: Map<string, ParsedFile> = new Map();
+  private dir: string;
+  private maxEntries: number;
+
+  constructor(dir: string, maxEntries: number) {
+    this.dir = dir ? path.join(dir, `v${PARSE_CACHE_FORMAT}`) : '';
+    this.maxEntries = maxEntries;
+  }
+
+  private key(filePath: string, sha: string): string {
+    return `${filePath}@${sha}`;
+  }
+
+  private diskPath(key: string): string {
+    return path.join(this.dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+
+  /**
+   * A copy of the cached parse; the analyzer fills in resolved fields on what it gets
+   */
+  async get(filePath: string, sha: string): Promise<ParsedFile | undefined> {
+    const key = this.key(filePath, sha);
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.remember(key, cached);
+      return structuredClone(cached);
+    }
+    if (!this.dir) {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.diskPath(key), 'utf8')) as ParsedFile;
+      this.remember(key, parsed);
+      return structuredClone(parsed);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn({ error, filePath }, 'Ignoring unreadable parse cache entry');
+      }
+      return undefined;
+    }
+  }
+
+  async set(filePath: string, sha: string, parsed: ParsedFile): Promise<void> {
+    const key = this.key(filePath, sha);
+    const copy = structuredClone(parsed);
+    this.remember(key, copy);
+    if (!this.dir) {
+      return;
+    }
+
+    // The cache only saves work; failing to persist an entry isn't an analysis error
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(this.diskPath(key), JSON.stringify(copy));
+    } catch (error) {
+      logger.warn({ error, filePath }, 'Failed to persist parse cache entry');
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private remember(key: string, parsed: ParsedFile): void {
+    this.entries.delete(key);
+    this.entries.set(key, parsed);
+    // Evict least recently used entries (insertion order)
+    for (const oldKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldKey);
+    }
+  }
+}
+
+export const parseCache = new ParseCache(config.analysis.parseCacheDir, config.analysis.parseCacheMaxEntries);
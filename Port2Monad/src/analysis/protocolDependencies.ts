@@ -0,0 +1,329 @@
+/**
+ * Protocol dependencies
+ * Recognizes the external protocols a contract relies on - oracles, DEXes, lending
+ * pools, account abstraction, wallets and messaging - from the types it names, the
+ * functions it calls and implements, and its imports. The bundled signature database
+ * is extended by a local file, e.g. with in-house protocols.
+ */
+
+import { promises as fs } from 'fs';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import {
+  ProtocolCategory,
+  ProtocolDependency,
+  ProtocolSignature,
+  SolidityContract,
+  SolidityFunction,
+} from '../types/index.js';
+import type { RawCallSite } from './callGraph.js';
+
+const PROTOCOL_CATEGORIES: ProtocolCategory[] = [
+  'oracle',
+  'dex',
+  'lending',
+  'token-approval',
+  'account-abstraction',
+  'wallet',
+  'messaging',
+];
+
+export const PROTOCOL_SIGNATURES: ProtocolSignature[] = [
+  {
+    protocol: 'Chainlink Data Feeds',
+    category: 'oracle',
+    types: ['AggregatorV3Interface', 'AggregatorV2V3Interface', 'AggregatorInterface', 'FeedRegistryInterface'],
+    calls: ['latestRoundData', 'getRoundData', 'latestAnswer'],
+    imports: ['AggregatorV3Interface', 'AggregatorV2V3Interface', 'FeedRegistryInterface'],
+  },
+  {
+    protocol: 'Chainlink VRF',
+    category: 'oracle',
+    types: ['VRFConsumerBase', 'VRFConsumerBaseV2', 'VRFConsumerBaseV2Plus', 'VRFCoordinatorV2Interface'],
+    calls: ['requestRandomWords', 'requestRandomness'],
+    callbacks: ['fulfillRandomWords', 'fulfillRandomness'],
+    imports: ['VRFConsumerBase', 'VRFCoordinator'],
+  },
+  {
+    protocol: 'Chainlink CCIP',
+    category: 'messaging',
+    types: ['CCIPReceiver', 'IRouterClient', 'IAny2EVMMessageReceiver'],
+    callbacks: ['ccipReceive', '_ccipReceive'],
+    imports: ['@chainlink/contracts-ccip'],
+  },
+  {
+    protocol: 'Pyth',
+    category: 'oracle',
+    types: ['IPyth'],
+    calls: ['getPriceNoOlderThan', 'getPriceUnsafe', 'updatePriceFeeds', 'getUpdateFee'],
+    imports: ['@pythnetwork/pyth-sdk-solidity'],
+  },
+  {
+    protocol: 'Uniswap V2',
+    category: 'dex',
+    types: ['IUniswapV2Router01', 'IUniswapV2Router02', 'IUniswapV2Factory', 'IUniswapV2Pair', 'IUniswapV2Callee'],
+    calls: [
+      'swapExactTokensForTokens',
+      'swapTokensForExactTokens',
+      'swapExactETHForTokens',
+      'swapExactTokensForETH',
+      'addLiquidityETH',
+      'removeLiquidityETH',
+      'getAmountsOut',
+      'getAmountsIn',
+    ],
+    callbacks: ['uniswapV2Call'],
+    imports: ['@uniswap/v2-core', '@uniswap/v2-periphery'],
+  },
+  {
+    protocol: 'Uniswap V3',
+    category: 'dex',
+    types: [
+      'ISwapRouter',
+      'IV3SwapRouter',
+      'IUniswapV3Pool',
+      'IUniswapV3Factory',
+      'INonfungiblePositionManager',
+      'IQuoter',
+      'IQuoterV2',
+      'IUniswapV3SwapCallback',
+    ],
+    calls: ['exactInputSingle', 'exactInput', 'exactOutputSingle', 'exactOutput', 'quoteExactInputSingle'],
+    callbacks: ['uniswapV3SwapCallback', 'uniswapV3MintCallback', 'uniswapV3FlashCallback'],
+    imports: ['@uniswap/v3-core', '@uniswap/v3-periphery', '@uniswap/swap-router-contracts'],
+  },
+  {
+    protocol: 'Uniswap V4',
+    category: 'dex',
+    types: ['IPoolManager', 'IHooks', 'BaseHook', 'IUnlockCallback'],
+    callbacks: ['unlockCallback'],
+    imports: ['@uniswap/v4-core', '@uniswap/v4-periphery', 'v4-core/', 'v4-periphery/'],
+  },
+  {
+    protocol: 'Balancer V2',
+    category: 'dex',
+    types: ['IBalancerVault', 'IFlashLoanRecipient'],
+    calls: ['batchSwap'],
+    callbacks: ['receiveFlashLoan'],
+    imports: ['@balancer-labs/'],
+  },
+  {
+    protocol: 'Aave V3',
+    category: 'lending',
+    types: [
+      'IPool',
+      'IPoolAddressesProvider',
+      'IAToken',
+      'IFlashLoanSimpleReceiver',
+      'IFlashLoanReceiver',
+      'FlashLoanSimpleReceiverBase',
+      'FlashLoanReceiverBase',
+    ],
+    calls: ['flashLoanSimple', 'getUserAccountData', 'getReserveData'],
+    callbacks: ['executeOperation'],
+    imports: ['@aave/core-v3', '@aave/v3-core', '@aave/periphery-v3', 'aave-v3-core/'],
+  },
+  {
+    protocol: 'Permit2',
+    category: 'token-approval',
+    types: ['IPermit2', 'ISignatureTransfer', 'IAllowanceTransfer'],
+    calls: ['permitTransferFrom', 'permitWitnessTransferFrom'],
+    imports: ['permit2/'],
+    note: 'deployed at its canonical address on Monad',
+  },
+  {
+    protocol: 'ERC-4337 EntryPoint',
+    category: 'account-abstraction',
+    types: ['IEntryPoint', 'IAccount', 'IPaymaster', 'BaseAccount', 'BasePaymaster', 'PackedUserOperation', 'UserOperation'],
+    calls: ['handleOps', 'getUserOpHash'],
+    callbacks: ['validateUserOp', 'validatePaymasterUserOp', 'postOp'],
+    imports: ['@account-abstraction/contracts', 'account-abstraction/'],
+    note: 'EntryPoint v0.6 and v0.7 are deployed at their canonical addresses on Monad',
+  },
+  {
+    protocol: 'Safe',
+    category: 'wallet',
+    types: ['ISafe', 'IGnosisSafe', 'GnosisSafe', 'GnosisSafeL2', 'SafeL2', 'SafeProxyFactory', 'GnosisSafeProxyFactory', 'BaseGuard'],
+    calls: ['execTransaction', 'execTransactionFromModule', 'getThreshold', 'getOwners'],
+    callbacks: ['checkTransaction', 'checkAfterExecution'],
+    imports: ['@safe-global/', '@gnosis.pm/safe-contracts'],
+  },
+  {
+    protocol: 'LayerZero',
+    category: 'messaging',
+    types: [
+      'ILayerZeroEndpoint',
+      'ILayerZeroEndpointV2',
+      'ILayerZeroReceiver',
+      'LzApp',
+      'NonblockingLzApp',
+      'OApp',
+      'OAppReceiver',
+      'OAppSender',
+      'OFT',
+      'OFTCore',
+      'OFTAdapter',
+      'ONFT721',
+    ],
+    calls: ['_lzSend'],
+    callbacks: ['lzReceive', '_lzReceive', '_nonblockingLzReceive'],
+    imports: ['@layerzerolabs/'],
+  },
+  {
+    protocol: 'Wormhole',
+    category: 'messaging',
+    types: ['IWormhole', 'IWormholeRelayer', 'IWormholeReceiver'],
+    calls: ['publishMessage', 'parseAndVerifyVM', 'sendPayloadToEvm'],
+    callbacks: ['receiveWormholeMessages'],
+    imports: ['wormhole-solidity-sdk'],
+  },
+];
+
+interface SignatureFile {
+  protocols?: ProtocolSignature[];
+}
+
+function isStringList(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+}
+
+export class ProtocolDatabase {
+  private signatures: Map<string, ProtocolSignature>;
+  private signaturesPath: string;
+  private loaded: Promise<void> | null = null;
+
+  constructor(signaturesPath: string) {
+    this.signaturesPath = signaturesPath;
+    this.signatures = new Map(PROTOCOL_SIGNATURES.map((s) => [s.protocol, s]));
+  }
+
+  /**
+   * Read the local signature file, once. Its protocols replace bundled ones with the same name.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readSignatures();
+    }
+    return this.loaded;
+  }
+
+  get protocols(): ProtocolSignature[] {
+    return Array.from(this.signatures.values());
+  }
+
+  private async readSignatures(): Promise<void> {
+    if (!this.signaturesPath) {
+      return;
+    }
+
+    let file: SignatureFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.signaturesPath, 'utf8')) as SignatureFile;
+    } catch (error) {
+      logger.warn({ error, path: this.signaturesPath }, 'Ignoring unreadable protocol signatures');
+      return;
+    }
+
+    let added = 0;
+    for (const signature of file.protocols || []) {
+      const valid =
+        typeof signature.protocol === 'string' &&
+        PROTOCOL_CATEGORIES.includes(signature.category) &&
+        [signature.types, signature.calls, signature.callbacks, signature.imports].every(isStringList);
+      if (!valid) {
+        logger.warn({ signature, path: this.signaturesPath }, 'Skipping invalid protocol signature');
+        continue;
+      }
+      this.signatures.set(signature.protocol, signature);
+      added++;
+    }
+
+    logger.info({ path: this.signaturesPath, protocols: added }, 'Loaded protocol signatures');
+  }
+}
+
+export class ProtocolDependencyDetector {
+  private signatures: ProtocolSignature[];
+  private rawCalls: Map<SolidityFunction, RawCallSite[]>;
+
+  constructor(signatures: ProtocolSignature[], rawCalls: Map<SolidityFunction, RawCallSite[]>) {
+    this.signatures = signatures;
+    this.rawCalls = rawCalls;
+  }
+
+  /**
+   * Dependencies of every contract and library, from its own code; what a base
+   * contract relies on is reported for the base
+   */
+  detect(contracts: SolidityContract[]): ProtocolDependency[] {
+    const dependencies: ProtocolDependency[] = [];
+
+    for (const contract of contracts) {
+      if (contract.type === 'interface') continue;
+
+      const typeNames = this.referencedTypes(contract);
+      const implemented = new Set(contract.functions.map((f) => f.name));
+      const memberCalls = contract.functions
+        .flatMap((fn) => this.rawCalls.get(fn) || [])
+        .filter((call) => call.receiver !== undefined);
+
+      for (const signature of this.signatures) {
+        const isProtocolType = (type?: string) =>
+          type !== undefined && (signature.types || []).includes(type.substring(type.lastIndexOf('.') + 1));
+        const structural = [
+          ...contract.imports
+            .filter((path) => signature.imports?.some((pattern) => path.includes(pattern)))
+            .map((path) => `import ${path}`),
+          ...(signature.types || []).filter((type) => typeNames.has(type)).map((type) => `type ${type}`),
+        ];
+        // Names like `getOwners` or `batchSwap` are common, so a call only counts on
+        // its own when its receiver is one of the protocol's types
+        const calls = (signature.calls || []).flatMap((name) => {
+          const matching = memberCalls.filter((c) => c.name === name);
+          const typed = matching.find((c) => isProtocolType(c.castTo) || isProtocolType(c.receiverType));
+          const call = typed || matching[0];
+          return call ? [{ typed: typed !== undefined, evidence: `call ${name} (line ${call.range.startLine})` }] : [];
+        });
+        // Callbacks such as `executeOperation` are shared across protocols; they only
+        // support other evidence
+        const callbacks = (signature.callbacks || []).filter((name) => implemented.has(name));
+        if (structural.length === 0 && !calls.some((call) => call.typed)) continue;
+
+        const evidence = [
+          ...structural,
+          ...calls.map((call) => call.evidence),
+          ...callbacks.map((name) => `callback ${name}`),
+        ];
+
+        dependencies.push({
+          contractName: contract.name,
+          filePath: contract.filePath,
+          protocol: signature.protocol,
+          category: signature.category,
+          evidence,
+          note: signature.note,
+        });
+      }
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * Identifiers in the contract's bases, state variable and function signature types,
+   * and the receivers of its calls, e.g. both names in `mapping(IERC20 => AggregatorV3Interface)`
+   */
+  private referencedTypes(contract: SolidityContract): Set<string> {
+    const types = [
+      ...contract.inherits,
+      ...contract.stateVariables.map((v) => v.type),
+      ...contract.functions.flatMap((fn) => [...fn.parameters, ...fn.returns].map((p) => p.type)),
+      ...contract.functions.flatMap((fn) =>
+        (this.rawCalls.get(fn) || []).flatMap((call) => [call.castTo || '', call.receiverType || ''])
+      ),
+    ];
+    return new Set(types.flatMap((type) => type.match(/[A-Za-z_$][\w$]*/g) || []));
+  }
+}
+
+export const protocolDatabase = new ProtocolDatabase(config.analysis.protocolSignaturesPath);
@@ -0,0 +1,383 @@
+/**
+ * Proxy patterns
+ * Classifies the project contracts taking part in upgradeable or cloned deployments -
+ * UUPS, Transparent and Beacon proxies, Diamonds (EIP-2535), minimal proxies (EIP-1167)
+ * and custom delegatecall proxies - from their bases, the functions they expose and the
+ * EIP-1967 slots they name, pairs implementations with the proxies deployed in front of
+ * them, and flags implementations that can be initialized directly or whose bases have
+ * no storage gaps
+ */
+
+import {
+  ProxyMarker,
+  ProxyPattern,
+  SolidityContract,
+  SolidityFunction,
+  UpgradeableContract,
+  UpgradeableRole,
+} from '../types/index.js';
+import { InheritanceResolver } from './inheritance.js';
+import type { RawCallSite } from './callGraph.js';
+
+const PROXY_MARKERS: Array<{ marker: ProxyMarker; patterns: string[] }> = [
+  {
+    marker: 'eip1967-implementation',
+    patterns: ['360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc', 'eip1967.proxy.implementation'],
+  },
+  {
+    marker: 'eip1967-admin',
+    patterns: ['b53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103', 'eip1967.proxy.admin'],
+  },
+  {
+    marker: 'eip1967-beacon',
+    patterns: ['a3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50', 'eip1967.proxy.beacon'],
+  },
+  { marker: 'eip1167-bytecode', patterns: ['363d3d373d3d3d363d73'] }, // clone runtime code up to the PUSH20
+];
+
+// OpenZeppelin proxies, by the pattern a contract inheriting or deploying one follows
+const PROXY_BASES: Record<string, ProxyPattern> = {
+  ERC1967Proxy: 'uups',
+  TransparentUpgradeableProxy: 'transparent',
+  BeaconProxy: 'beacon',
+  Diamond: 'diamond',
+};
+const BEACON_BASES = ['UpgradeableBeacon'];
+const CLONE_LIBRARIES = ['Clones', 'LibClone'];
+const INITIALIZER_MODIFIERS = ['initializer', 'reinitializer'];
+
+/**
+ * EIP-1967 slots, by value or by the `keccak256` preimage they're derived from, and
+ * EIP-1167 clone bytecode appearing in a contract's source
+ */
+export function findProxyMarkers(sourceCode: string): ProxyMarker[] {
+  const text = sourceCode.toLowerCase();
+  return PROXY_MARKERS.filter(({ patterns }) => patterns.some((pattern) => text.includes(pattern))).map(
+    ({ marker }) => marker
+  );
+}
+
+function unqualified(name: string): string {
+  return name.substring(name.lastIndexOf('.') + 1);
+}
+
+export class ProxyClassifier {
+  private contracts: SolidityContract[];
+  private inheritance: InheritanceResolver;
+  private rawCalls: Map<SolidityFunction, RawCallSite[]>;
+  private byName: Map<string, SolidityContract> = new Map();
+
+  constructor(
+    contracts: SolidityContract[],
+    inheritance: InheritanceResolver,
+    rawCalls: Map<SolidityFunction, RawCallSite[]>
+  ) {
+    this.contracts = contracts;
+    this.inheritance = inheritance;
+    this.rawCalls = rawCalls;
+    for (const contract of contracts) {
+      if (!this.byName.has(contract.name) || contract.role === 'source') {
+        this.byName.set(contract.name, contract);
+      }
+    }
+  }
+
+  /**
+   * Classify every concrete project contract, pair implementations with the proxies,
+   * beacons and factories deploying them (in project code, scripts or tests), and check
+   * each implementation. Marks the classified contracts as upgradeable.
+   */
+  classify(): UpgradeableContract[] {
+    const classified = new Map<SolidityContract, UpgradeableContract>();
+    for (const contract of this.contracts) {
+      if (contract.type !== 'contract' || contract.role !== 'source') continue;
+      const entry = this.classifyContract(contract);
+      if (entry) classified.set(contract, entry);
+    }
+
+    this.pairDeployments(classified);
+    this.pairFacets(classified);
+
+    for (const [contract, entry] of classified) {
+      if (entry.role === 'implementation') this.checkImplementation(contract, entry);
+      if (entry.role === 'proxy') this.checkProxy(contract, entry);
+      contract.usesUpgradeablePattern = entry.role !== 'factory';
+    }
+
+    return Array.from(classified.values());
+  }
+
+  /**
+   * Factories are only considered with `withFactories`, so classifying what a factory
+   * creates doesn't recurse
+   */
+  private classifyContract(contract: SolidityContract, withFactories: boolean = true): UpgradeableContract | null {
+    const bases = contract.linearization.slice(1).map((reference) => unqualified(reference.name));
+    const signatures = contract.effectiveFunctions.map((f) => f.signature);
+    const has = (name: string) => signatures.some((signature) => signature.startsWith(`${name}(`));
+    const hasFallback = contract.effectiveFunctions.some((f) => f.kind === 'fallback');
+    const markers = this.markers(contract);
+    const markerEvidence = markers
+      .filter((marker) => marker.startsWith('eip1967-'))
+      .map((marker) => `uses the EIP-1967 ${marker.replace('eip1967-', '')} slot`);
+
+    const entry = (role: UpgradeableRole, pattern: ProxyPattern | undefined, evidence: string[]): UpgradeableContract => ({
+      contractName: contract.name,
+      filePath: contract.filePath,
+      role,
+      pattern,
+      evidence,
+      pairedWith: [],
+      missingStorageGaps: [],
+      issues: [],
+    });
+
+    // Diamonds route each selector to the facet registered for it
+    if (has('diamondCut') && hasFallback && !bases.includes('Diamond')) {
+      return entry('proxy', 'diamond', ['diamondCut() with a fallback']);
+    }
+
+    const proxyBase = bases.find((base) => base in PROXY_BASES);
+    if (proxyBase) {
+      return entry('proxy', PROXY_BASES[proxyBase], [`inherits ${proxyBase}`, ...markerEvidence]);
+    }
+
+    if (hasFallback && (bases.includes('Proxy') || this.delegates(contract))) {
+      const pattern = markers.includes('eip1967-beacon')
+        ? 'beacon'
+        : markers.includes('eip1967-admin')
+          ? 'transparent'
+          : 'delegatecall';
+      return entry('proxy', pattern, [
+        bases.includes('Proxy') ? 'inherits Proxy' : 'fallback with a delegatecall',
+        ...markerEvidence,
+      ]);
+    }
+
+    const beaconBase = bases.find((base) => BEACON_BASES.includes(base));
+    if (beaconBase || (has('implementation') && has('upgradeTo') && !hasFallback)) {
+      return entry('beacon', 'beacon', [beaconBase ? `inherits ${beaconBase}` : 'implementation() and upgradeTo()']);
+    }
+
+    if (bases.includes('UUPSUpgradeable') || (has('proxiableUUID') && has('upgradeToAndCall'))) {
+      return entry('implementation', 'uups', [
+        bases.includes('UUPSUpgradeable') ? 'inherits UUPSUpgradeable' : 'proxiableUUID() and upgradeToAndCall()',
+      ]);
+    }
+
+    if (this.usesInitializers(contract)) {
+      return entry('implementation', undefined, [
+        bases.includes('Initializable') ? 'inherits Initializable' : 'initializer functions',
+      ]);
+    }
+
+    const deployed = withFactories ? this.deployedProxies(contract) : [];
+    if (deployed.length > 0) {
+      return entry('factory', deployed[0].pattern, deployed.map((d) => d.evidence));
+    }
+
+    return null;
+  }
+
+  /**
+   * Each function creating a proxy or a clone next to an implementation pairs the two;
+   * a contract created that way is an implementation even if nothing else says so
+   */
+  private pairDeployments(classified: Map<SolidityContract, UpgradeableContract>): void {
+    const pair = (a: UpgradeableContract | undefined, name: string) => {
+      if (a && !a.pairedWith.includes(name)) a.pairedWith.push(name);
+    };
+
+    for (const deployer of this.contracts) {
+      if (deployer.type === 'interface') continue;
+
+      for (const fn of deployer.functions) {
+        const calls = this.rawCalls.get(fn) || [];
+        const proxies = this.deployedProxies(deployer, calls);
+        if (proxies.length === 0) continue;
+
+        const implementations = calls
+          .map((call) => (call.creates ? this.byName.get(unqualified(call.creates)) : undefined))
+          .filter((c): c is SolidityContract => c !== undefined && c.type === 'contract' && c.role === 'source')
+          .filter((c) => {
+            const role = classified.get(c)?.role;
+            return role === undefined || role === 'implementation';
+          });
+
+        for (const implementation of implementations) {
+          let entry = classified.get(implementation);
+          if (!entry) {
+            entry = {
+              contractName: implementation.name,
+              filePath: implementation.filePath,
+              role: 'implementation',
+              evidence: [],
+              pairedWith: [],
+              missingStorageGaps: [],
+              issues: [],
+            };
+            classified.set(implementation, entry);
+          }
+          entry.evidence.push(`deployed behind ${proxies[0].name} in ${deployer.name}.${fn.name}`);
+          entry.pattern = entry.pattern || proxies[0].pattern;
+
+          for (const proxy of proxies) {
+            pair(entry, proxy.name);
+            const proxyContract = this.byName.get(proxy.name);
+            pair(proxyContract ? classified.get(proxyContract) : undefined, implementation.name);
+          }
+          const factory = classified.get(deployer);
+          if (factory?.role === 'factory') pair(factory, implementation.name);
+        }
+      }
+    }
+  }
+
+  /**
+   * Contracts named as facets are paired with the project's diamonds
+   */
+  private pairFacets(classified: Map<SolidityContract, UpgradeableContract>): void {
+    const diamonds = Array.from(classified.values()).filter((e) => e.pattern === 'diamond' && e.role === 'proxy');
+    if (diamonds.length === 0) return;
+
+    for (const contract of this.contracts) {
+      if (contract.type !== 'contract' || contract.role !== 'source' || !contract.name.endsWith('Facet')) continue;
+      if (classified.has(contract)) continue;
+
+      classified.set(contract, {
+        contractName: contract.name,
+        filePath: contract.filePath,
+        role: 'facet',
+        pattern: 'diamond',
+        evidence: ['named as a facet'],
+        pairedWith: diamonds.map((d) => d.contractName),
+        missingStorageGaps: [],
+        issues: [],
+      });
+      for (const diamond of diamonds) diamond.pairedWith.push(contract.name);
+    }
+  }
+
+  /**
+   * An implementation must lock its own initializers, and its upgradeable project bases
+   * need storage gaps to add variables later without shifting the derived contract's
+   */
+  private checkImplementation(contract: SolidityContract, entry: UpgradeableContract): void {
+    if (this.usesInitializers(contract)) {
+      const constructor = contract.functions.find((f) => f.kind === 'constructor');
+      entry.disablesInitializers =
+        constructor !== undefined &&
+        (constructor.modifiers.includes('initializer') ||
+          (this.rawCalls.get(constructor) || []).some(
+            (call) => call.name === '_disableInitializers' && call.receiver === undefined
+          ));
+      if (!entry.disablesInitializers) {
+        entry.issues.push(
+          'constructor does not call _disableInitializers(), so the implementation itself can be initialized'
+        );
+      }
+    }
+
+    for (const reference of contract.linearization.slice(1)) {
+      const base = this.inheritance.lookup(reference);
+      if (!base || base.role !== 'source' || base.type === 'interface') continue;
+
+      const stored = base.stateVariables.filter((v) => !v.constant && !v.immutable && !v.transient);
+      if (stored.length > 0 && !stored.some((v) => v.name.startsWith('__gap'))) {
+        entry.missingStorageGaps.push(base.name);
+      }
+    }
+    if (entry.missingStorageGaps.length > 0) {
+      const one = entry.missingStorageGaps.length === 1;
+      entry.issues.push(
+        `${entry.missingStorageGaps.join(', ')} ${one ? 'declares' : 'declare'} state variables without a __gap, so adding variables to ${one ? 'it' : 'them'} in an upgrade shifts ${contract.name}'s storage`
+      );
+    }
+  }
+
+  /**
+   * State a proxy keeps in sequential slots collides with its implementation's
+   */
+  private checkProxy(contract: SolidityContract, entry: UpgradeableContract): void {
+    const stored = contract.linearization
+      .map((reference, index) => (index === 0 ? contract : this.inheritance.lookup(reference)))
+      .flatMap((c) => c?.stateVariables || [])
+      .filter((v) => !v.constant && !v.immutable && !v.transient);
+    if (stored.length > 0) {
+      entry.issues.push(
+        `stores ${stored.map((v) => v.name).join(', ')} in sequential slots, which collide with the implementation's storage; use EIP-1967 slots`
+      );
+    }
+  }
+
+  /**
+   * Proxies and clones a contract creates, in one function or any of its own
+   */
+  private deployedProxies(
+    contract: SolidityContract,
+    calls: RawCallSite[] = contract.functions.flatMap((fn) => this.rawCalls.get(fn) || [])
+  ): Array<{ name: string; pattern: ProxyPattern; evidence: string }> {
+    const deployed: Array<{ name: string; pattern: ProxyPattern; evidence: string }> = [];
+
+    for (const call of calls) {
+      if (call.creates) {
+        const name = unqualified(call.creates);
+        const created = this.byName.get(name);
+        const pattern =
+          PROXY_BASES[name] ||
+          (BEACON_BASES.includes(name) ? 'beacon' : undefined) ||
+          (created && created.role === 'source' ? this.proxyPatternOf(created) : undefined);
+        if (pattern) deployed.push({ name, pattern, evidence: `creates ${name} (line ${call.range.startLine})` });
+      } else if (call.receiver && CLONE_LIBRARIES.includes(call.receiver) && call.name.startsWith('clone')) {
+        deployed.push({
+          name: 'EIP-1167 clone',
+          pattern: 'minimal-proxy',
+          evidence: `${call.receiver}.${call.name} (line ${call.range.startLine})`,
+        });
+      }
+    }
+
+    if (deployed.length === 0 && contract.proxyMarkers.includes('eip1167-bytecode')) {
+      deployed.push({ name: 'EIP-1167 clone', pattern: 'minimal-proxy', evidence: 'embeds EIP-1167 clone bytecode' });
+    }
+
+    return deployed;
+  }
+
+  private proxyPatternOf(contract: SolidityContract): ProxyPattern | undefined {
+    const entry = contract.type === 'contract' ? this.classifyContract(contract, false) : null;
+    return entry && (entry.role === 'proxy' || entry.role === 'beacon') ? entry.pattern : undefined;
+  }
+
+  private usesInitializers(contract: SolidityContract): boolean {
+    return (
+      contract.linearization.some((reference) => unqualified(reference.name) === 'Initializable') ||
+      contract.functions.some((fn) => fn.modifiers.some((m) => INITIALIZER_MODIFIERS.includes(m)))
+    );
+  }
+
+  /**
+   * Markers in the contract or any of its resolved bases
+   */
+  private markers(contract: SolidityContract): ProxyMarker[] {
+    const markers = new Set(contract.proxyMarkers);
+    for (const reference of contract.linearization.slice(1)) {
+      for (const marker of this.inheritance.lookup(reference)?.proxyMarkers || []) markers.add(marker);
+    }
+    return Array.from(markers);
+  }
+
+  /**
+   * Whether the contract or one of its resolved bases issues a delegatecall, in Solidity or assembly
+   */
+  private delegates(contract: SolidityContract): boolean {
+    return contract.linearization
+      .map((reference, index) => (index === 0 ? contract : this.inheritance.lookup(reference)))
+      .some(
+        (c) =>
+          c !== undefined &&
+          (c.assembly.some((block) => block.opcodes.delegatecall > 0) ||
+            c.functions.some((fn) => fn.calls.some((call) => call.kind === 'delegatecall')))
+      );
+  }
+}
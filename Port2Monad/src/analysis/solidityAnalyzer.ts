@@ -6,80 +6,270 @@
 import Parser from 'tree-sitter';
 import Solidity from 'tree-sitter-solidity';
 import { logger } from '../utils/logger.js';
-import { GitHubClient } from '../github/client.js';
+import { RepositorySource, openSourceForMetadata } from '../ingestion/sources/index.js';
+import { ImportResolver } from './importResolver.js';
+import { ImportDirective, InheritanceResolver } from './inheritance.js';
+import { CallSiteResolver, RawCallSite, buildCallEdges } from './callGraph.js';
+import { RawStateAccess, StateAccessAnalyzer } from './stateAccess.js';
+import { TypeScope, computeStorageLayouts } from './storageLayout.js';
+import { checkCompilerCompatibility } from './compilerVersion.js';
+import { ParsedFile, parseCache } from './parseCache.js';
+import { MonadLinter } from './monadLint.js';
+import { ChainConstantResolver, addressRegistry, isDeploymentScript } from './chainConstants.js';
+import { ProtocolDependencyDetector, protocolDatabase } from './protocolDependencies.js';
+import { detectTokenStandards } from './tokenStandards.js';
+import { ProxyClassifier, findProxyMarkers } from './proxyPatterns.js';
+import { config } from '../utils/config.js';
+import { mapWithConcurrency, withTimeout } from '../utils/concurrency.js';
 import {
   RepositoryTree,
   RepositoryFile,
   RepositoryDirectory,
   SolidityContract,
   SolidityFunction,
+  SolidityModifier,
+  SolidityParameter,
+  DataLocation,
+  FunctionKind,
+  SourceRange,
+  AssemblyBlock,
   StateVariable,
   ContractType,
   SolidityAnalysisResult,
+  SolidityFileInfo,
+  LintFinding,
+  ChainConstant,
+  ContractInterface,
+  AnalysisProgress,
   DependencyGraph,
   DependencyEdge,
 } from '../types/index.js';
 
-const UPGRADEABLE_PATTERNS = [
-  'Initializable',
-  'UUPSUpgradeable',
-  'TransparentUpgradeableProxy',
-  'BeaconProxy',
-  'initialize(',
-  'upgradeTo(',
-];
+const DATA_LOCATIONS: DataLocation[] = ['memory', 'calldata', 'storage'];
+
+export interface AnalysisOptions {
+  concurrency?: number; // files fetched and parsed at once
+  fileTimeoutMs?: number; // per file, 0 for no limit
+  signal?: AbortSignal; // stops scheduling files; the analysis rejects with AnalysisCancelledError
+  onProgress?: (progress: AnalysisProgress) => void; // called as each file finishes
+  disabledLintRules?: string[]; // defaults to config.analysis.lintDisabledRules
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor(message: string = 'Analysis cancelled') {
+    super(message);
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+type FileOutcome = { parsed: ParsedFile; reused: boolean } | { error: string };
+
+/**
+ * Canonical form of a parameter type for signatures: `uint` is `uint256`,
+ * `address payable` is `address`, and whitespace is dropped
+ */
+function canonicalType(type: string): string {
+  return type
+    .replace(/\baddress\s+payable\b/g, 'address')
+    .replace(/\s+/g, '')
+    .replace(/\b(u?int)\b/g, '$1256')
+    .replace(/\bbyte\b/g, 'bytes1')
+    .replace(/\b(u?fixed)\b/g, '$1128x18');
+}
+
+/**
+ * Strip the `expression` wrappers tree-sitter puts around every sub-expression
+ */
+function unwrapExpression(node: Parser.SyntaxNode | null): Parser.SyntaxNode | null {
+  while (node && node.type === 'expression' && node.namedChildCount === 1) {
+    node = node.namedChildren[0];
+  }
+  return node;
+}
+
+function getSourceRange(node: Parser.SyntaxNode): SourceRange {
+  return {
+    startLine: node.startPosition.row + 1,
+    endLine: node.endPosition.row + 1,
+    startByte: node.startIndex,
+    endByte: node.endIndex,
+  };
+}
+
+/**
+ * Signature of the getter of a public state variable: mapping keys and array
+ * indices become parameters, e.g. `allowance(address,address)`
+ */
+function getterSignature(variable: StateVariable): string {
+  const parameters: string[] = [];
+  let type = variable.type.trim();
+
+  for (;;) {
+    const mapping = /^mapping\s*\(\s*(.+?)\s*=>\s*(.+)\)$/.exec(type);
+    if (mapping) {
+      // Drop the key name of a named mapping, e.g. `mapping(address owner => uint256)`
+      const key = mapping[1].split(/\s+/);
+      const named = key.length > 1 && key[key.length - 1] !== 'payable';
+      parameters.push(canonicalType(named ? key.slice(0, -1).join(' ') : mapping[1]));
+      type = mapping[2].trim();
+      continue;
+    }
+    const array = /^(.+)\[[^\]]*\]$/.exec(type);
+    if (array) {
+      parameters.push('uint256');
+      type = array[1].trim();
+      continue;
+    }
+    return `${variable.name}(${parameters.join(',')})`;
+  }
+}
+
+/**
+ * Human-readable ABI entry, e.g. `transfer(address,uint256) returns (bool)`
+ */
+export function formatFunctionSignature(fn: SolidityFunction): string {
+  const returns = fn.returns.map((r) => (r.location ? `${r.type} ${r.location}` : r.type));
+  return returns.length > 0 ? `${fn.signature} returns (${returns.join(', ')})` : fn.signature;
+}
 
 export class SolidityAnalyzer {
   private parser: Parser;
-  private githubClient: GitHubClient;
-  private owner: string = '';
-  private repo: string = '';
+  private linter: MonadLinter = new MonadLinter();
+  private githubToken?: string;
+  private source: RepositorySource | null = null;
+  private fileScope: TypeScope = { structs: [], enums: [], valueTypes: [] };
+  private fileImports: Map<string, ImportDirective[]> = new Map();
+  private rawCalls: Map<SolidityFunction, RawCallSite[]> = new Map();
+  private rawAccesses: Map<SolidityFunction | SolidityModifier, RawStateAccess[]> = new Map();
+  private files: SolidityFileInfo[] = [];
+  private lintFindings: LintFinding[] = [];
+  private reusedFiles: string[] = [];
+  private parsedFiles: string[] = [];
 
   constructor(githubToken?: string) {
     this.parser = new Parser();
     this.parser.setLanguage(Solidity as any);
-    this.githubClient = new GitHubClient(githubToken);
+    this.githubToken = githubToken;
     logger.info('SolidityAnalyzer initialized with Tree-sitter');
   }
 
-  async analyzeSolidity(repoTree: RepositoryTree): Promise<SolidityAnalysisResult> {
+  async analyzeSolidity(
+    repoTree: RepositoryTree,
+    source?: RepositorySource,
+    options: AnalysisOptions = {}
+  ): Promise<SolidityAnalysisResult> {
     logger.info({ repo: repoTree.metadata.fullName }, 'Starting Solidity analysis');
 
-    // Extract owner and repo for file fetching
-    this.owner = repoTree.metadata.owner;
-    this.repo = repoTree.metadata.name;
+    // Read files from the source the tree was ingested from
+    this.source = source || openSourceForMetadata(repoTree.metadata, { githubToken: this.githubToken });
 
     const contracts: SolidityContract[] = [];
     const parseErrors: Array<{ filePath: string; error: string }> = [];
+    this.fileScope = { structs: [], enums: [], valueTypes: [] };
+    this.fileImports = new Map();
+    this.rawCalls = new Map();
+    this.rawAccesses = new Map();
+    this.files = [];
+    this.lintFindings = [];
+    this.reusedFiles = [];
+    this.parsedFiles = [];
 
     // Find all Solidity files
     const solidityFiles = this.findSolidityFiles(repoTree.root);
     logger.info({ count: solidityFiles.length }, 'Found Solidity files');
 
-    // Parse each Solidity file
-    for (const file of solidityFiles) {
-      try {
-        const fileContracts = await this.parseFile(file);
-        contracts.push(...fileContracts);
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        logger.error({ filePath: file.path, error: errorMsg }, 'Failed to parse file');
-        parseErrors.push({ filePath: file.path, error: errorMsg });
+    // Fetch and parse files concurrently; a file that takes too long counts as a parse error
+    const concurrency = options.concurrency ?? config.agents.analyzer.concurrency;
+    const fileTimeoutMs = options.fileTimeoutMs ?? config.agents.analyzer.timeout;
+    let completed = 0;
+
+    const outcomes = await mapWithConcurrency(
+      solidityFiles,
+      concurrency,
+      async (file): Promise<FileOutcome> => {
+        let outcome: FileOutcome;
+        try {
+          outcome = await withTimeout(
+            this.parseFile(file),
+            fileTimeoutMs,
+            `Timed out after ${fileTimeoutMs}ms`
+          );
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          logger.error({ filePath: file.path, error: errorMsg }, 'Failed to parse file');
+          outcome = { error: errorMsg };
+        }
+
+        completed++;
+        options.onProgress?.({
+          filePath: file.path,
+          status: 'error' in outcome ? 'failed' : outcome.reused ? 'reused' : 'parsed',
+          completed,
+          total: solidityFiles.length,
+          error: 'error' in outcome ? outcome.error : undefined,
+        });
+        return outcome;
+      },
+      options.signal
+    );
+
+    if (options.signal?.aborted) {
+      logger.info({ repo: repoTree.metadata.fullName, completed }, 'Solidity analysis cancelled');
+      throw new AnalysisCancelledError();
+    }
+
+    // Register files in tree order so the result doesn't depend on which fetch finished first
+    outcomes.forEach((outcome, index) => {
+      const filePath = solidityFiles[index].path;
+      if ('error' in outcome) {
+        parseErrors.push({ filePath, error: outcome.error });
+        return;
+      }
+      (outcome.reused ? this.reusedFiles : this.parsedFiles).push(filePath);
+      contracts.push(...this.addParsedFile(outcome.parsed));
+    });
+
+    logger.info(
+      { totalContracts: contracts.length, reused: this.reusedFiles.length, parsed: this.parsedFiles.length },
+      'Parsed all contracts'
+    );
+
+    // Resolve bases through import scopes and linearize every hierarchy
+    const importResolver = new ImportResolver(repoTree);
+    const inheritance = new InheritanceResolver(contracts, this.fileImports, importResolver);
+    inheritance.resolve();
+
+    // Classify call sites now that inherited functions and variable types are known
+    const callSiteResolver = new CallSiteResolver(contracts, inheritance);
+    for (const contract of contracts) {
+      for (const fn of contract.functions) {
+        fn.calls = callSiteResolver.resolve(contract, this.rawCalls.get(fn) || []);
       }
     }
 
-    logger.info({ totalContracts: contracts.length }, 'Parsed all contracts');
+    // Follow state reads and writes through modifiers and internal calls
+    const contention = new StateAccessAnalyzer(contracts, inheritance, this.rawAccesses, this.rawCalls).analyze();
+
+    // Recognize the oracles, DEXes and other external protocols each contract relies on
+    await protocolDatabase.load();
+    const protocolDependencies = new ProtocolDependencyDetector(protocolDatabase.protocols, this.rawCalls).detect(
+      contracts
+    );
+
+    // Build dependency graph, resolving import paths against the project layout
+    const dependencyGraph = this.buildDependencyGraph(contracts, importResolver);
+    const unresolvedImports = this.findUnresolvedImports(importResolver);
 
-    // Build dependency graph
-    const dependencyGraph = this.buildDependencyGraph(contracts);
+    // Token standards each contract satisfies, by the functions it exposes or its bases
+    const interfaces = contracts
+      .filter((c) => c.type !== 'library')
+      .map((c) => this.describeInterface(c, inheritance));
 
     // Identify entry points (deployable contracts)
-    const entryPointContracts = this.identifyEntryPoints(contracts, dependencyGraph);
+    const entryPointContracts = this.identifyEntryPoints(contracts, inheritance);
 
-    // Identify upgradeable contracts
-    const upgradeableContracts = contracts
-      .filter((c) => c.usesUpgradeablePattern)
-      .map((c) => c.name);
+    // Classify proxies, beacons, implementations and factories, and pair them up
+    const upgradeableContracts = new ProxyClassifier(contracts, inheritance, this.rawCalls).classify();
 
     // Calculate stats
     const stats = {
@@ -88,9 +278,46 @@ export class SolidityAnalyzer {
       interfaces: contracts.filter((c) => c.type === 'interface').length,
       libraries: contracts.filter((c) => c.type === 'library').length,
       totalFunctions: contracts.reduce((sum, c) => sum + c.functions.length, 0),
+      assemblyBlocks: contracts.reduce((sum, c) => sum + c.assembly.length, 0),
       parseErrors: parseErrors.length,
     };
 
+    const opcodeInventory: Record<string, number> = {};
+    for (const block of contracts.flatMap((c) => c.assembly)) {
+      for (const [opcode, count] of Object.entries(block.opcodes)) {
+        opcodeInventory[opcode] = (opcodeInventory[opcode] || 0) + count;
+      }
+    }
+
+    // Slot assignments for every contract that can hold storage
+    const storageLayouts = computeStorageLayouts(contracts, this.fileScope);
+
+    // Compiler range every pragma accepts, and EVM features relative to Monad's
+    const compiler = checkCompilerCompatibility(
+      this.files,
+      contracts,
+      repoTree.projects || [],
+      config.monad.evmVersion
+    );
+
+    // Lint findings are kept for every rule in the parse cache; drop the disabled ones here
+    const disabledLintRules = options.disabledLintRules ?? config.analysis.lintDisabledRules;
+    const enabledFindings = this.lintFindings.filter((f) => !disabledLintRules.includes(f.ruleId));
+
+    // Match hardcoded addresses and chain IDs, here and in deployment scripts, against the registry
+    await addressRegistry.load();
+    const chainConstantResolver = new ChainConstantResolver(addressRegistry, config.monad.chainId);
+    const { findings: lintFindings, constants: chainConstants } = chainConstantResolver.resolveFindings(
+      enabledFindings,
+      this.files
+    );
+    chainConstants.push(
+      ...(await this.scanDeploymentScripts(repoTree.root, chainConstantResolver, concurrency, options.signal))
+    );
+    if (options.signal?.aborted) {
+      throw new AnalysisCancelledError();
+    }
+
     logger.info({ stats }, 'Solidity analysis completed');
 
     return {
@@ -98,7 +325,21 @@ export class SolidityAnalyzer {
       dependencyGraph,
       entryPointContracts,
       upgradeableContracts,
+      unresolvedImports,
       stats,
+      opcodeInventory,
+      storageLayouts,
+      contention,
+      files: this.files,
+      compiler,
+      lintFindings,
+      chainConstants,
+      protocolDependencies,
+      interfaces,
+      incremental: {
+        reusedFiles: this.reusedFiles,
+        parsedFiles: this.parsedFiles,
+      },
       parseErrors,
     };
   }
@@ -117,15 +358,65 @@ export class SolidityAnalyzer {
     return files;
   }
 
-  private async parseFile(file: RepositoryFile): Promise<SolidityContract[]> {
+  /**
+   * Chain constants in deployment scripts. Scripts that can't be read are skipped;
+   * they aren't part of the Solidity analysis.
+   */
+  private async scanDeploymentScripts(
+    root: RepositoryDirectory,
+    resolver: ChainConstantResolver,
+    concurrency: number,
+    signal?: AbortSignal
+  ): Promise<ChainConstant[]> {
+    const scripts: RepositoryFile[] = [];
+    const collect = (dir: RepositoryDirectory) => {
+      scripts.push(...dir.files.filter(isDeploymentScript));
+      dir.subdirectories.forEach(collect);
+    };
+    collect(root);
+
+    const constants = await mapWithConcurrency(
+      scripts,
+      concurrency,
+      async (file): Promise<ChainConstant[]> => {
+        try {
+          return resolver.resolveScript(file, await this.source!.readFile(file.path, file.sha));
+        } catch (error) {
+          logger.warn({ filePath: file.path, error }, 'Failed to read deployment script');
+          return [];
+        }
+      },
+      signal
+    );
+    return constants.flatMap((c) => c || []);
+  }
+
+  /**
+   * Parse one file, or take it from the parse cache. Nothing is registered with the
+   * analysis here, so files can be parsed in any order.
+   */
+  private async parseFile(file: RepositoryFile): Promise<{ parsed: ParsedFile; reused: boolean }> {
+    // Files unchanged since an earlier analysis come from the parse cache
+    const cached = file.sha ? await parseCache.get(file.path, file.sha) : undefined;
+    if (cached) {
+      logger.debug({ filePath: file.path }, 'Reusing parsed Solidity file');
+      // Roles depend on the project layout, which may have changed around the file
+      const role = file.role || 'source';
+      cached.info.role = role;
+      for (const entry of cached.contracts) {
+        entry.contract.role = role;
+      }
+      return { parsed: cached, reused: true };
+    }
+
     logger.debug({ filePath: file.path }, 'Parsing Solidity file');
 
-    // Fetch file content from GitHub
-    const content = await this.githubClient.getFileContent(
-      this.owner,
-      this.repo,
-      file.path
-    );
+    if (!this.source) {
+      throw new Error('Repository source not initialized');
+    }
+
+    // Fetch file content from the repository source
+    const content = await this.source.readFile(file.path, file.sha);
 
     // Parse with Tree-sitter
     const tree = this.parser.parse(content);
@@ -136,8 +427,14 @@ export class SolidityAnalyzer {
 
     const contracts: SolidityContract[] = [];
 
+    const info = this.extractFileInfo(file, tree.rootNode, content);
+
     // Extract imports
-    const imports = this.extractImports(tree.rootNode, content);
+    const importDirectives = this.extractImports(tree.rootNode, content);
+    const imports = importDirectives.map((directive) => directive.path);
+
+    // File-level structs, enums and value types can be used by any contract
+    const { structs, enums, valueTypes } = this.extractDeclarations(tree.rootNode, content);
 
     // Find all contract declarations
     const contractNodes = this.findNodesByType(tree.rootNode, [
@@ -147,26 +444,126 @@ export class SolidityAnalyzer {
     ]);
 
     for (const node of contractNodes) {
-      const contract = this.extractContract(node, file.path, content, imports);
+      const contract = this.extractContract(node, file, content, imports);
       if (contract) {
         contracts.push(contract);
       }
     }
 
-    return contracts;
+    const parsed: ParsedFile = {
+      info,
+      imports: importDirectives,
+      declarations: { structs, enums, valueTypes },
+      contracts: contracts.map((contract) => ({
+        contract,
+        calls: contract.functions.map((fn) => this.rawCalls.get(fn) || []),
+        functionAccesses: contract.functions.map((fn) => this.rawAccesses.get(fn) || []),
+        modifierAccesses: contract.modifiers.map((modifier) => this.rawAccesses.get(modifier) || []),
+      })),
+      findings: this.linter.lint(tree.rootNode, content, file.path),
+    };
+    if (file.sha) {
+      await parseCache.set(file.path, file.sha, parsed);
+    }
+
+    return { parsed, reused: false };
+  }
+
+  /**
+   * Make a file's declarations and raw call and access sites visible to the
+   * repository-wide passes
+   */
+  private addParsedFile(parsed: ParsedFile): SolidityContract[] {
+    this.files.push(parsed.info);
+    this.lintFindings.push(...parsed.findings);
+    this.fileImports.set(parsed.info.filePath, parsed.imports);
+    this.fileScope.structs.push(...parsed.declarations.structs);
+    this.fileScope.enums.push(...parsed.declarations.enums);
+    this.fileScope.valueTypes.push(...parsed.declarations.valueTypes);
+
+    for (const entry of parsed.contracts) {
+      entry.contract.functions.forEach((fn, index) => {
+        this.rawCalls.set(fn, entry.calls[index]);
+        this.rawAccesses.set(fn, entry.functionAccesses[index]);
+      });
+      entry.contract.modifiers.forEach((modifier, index) => {
+        this.rawAccesses.set(modifier, entry.modifierAccesses[index]);
+      });
+    }
+
+    return parsed.contracts.map((entry) => entry.contract);
+  }
+
+  /**
+   * Read the SPDX license and the pragmas of a file. Several `pragma solidity`
+   * directives must all hold, so their constraints are joined.
+   */
+  private extractFileInfo(
+    file: RepositoryFile,
+    rootNode: Parser.SyntaxNode,
+    sourceCode: string
+  ): SolidityFileInfo {
+    const info: SolidityFileInfo = {
+      filePath: file.path,
+      sha: file.sha,
+      role: file.role || 'source',
+      license: sourceCode.match(/SPDX-License-Identifier:\s*([^\r\n*]+?)\s*(?:\*\/|$)/m)?.[1],
+      experimental: [],
+      evmFeatures: [],
+    };
+    const versions: string[] = [];
+
+    for (const node of rootNode.namedChildren.filter((c) => c.type === 'pragma_directive')) {
+      const pragma = sourceCode
+        .slice(node.startIndex, node.endIndex)
+        .match(/^pragma\s+(\w+)\s*([^;]*?)\s*;?$/s);
+      if (!pragma) continue;
+
+      const [, name, value] = pragma;
+      if (name === 'solidity') {
+        versions.push(value.replace(/\s+/g, ' '));
+      } else if (name === 'abicoder') {
+        info.abicoder = value;
+      } else if (name === 'experimental') {
+        info.experimental.push(value.replace(/^["']|["']$/g, ''));
+      }
+    }
+
+    if (versions.length > 0) {
+      info.solidityPragma = versions.join(' ');
+    }
+    return info;
   }
 
-  private extractImports(rootNode: Parser.SyntaxNode, sourceCode: string): string[] {
-    const imports: string[] = [];
+  private extractImports(rootNode: Parser.SyntaxNode, sourceCode: string): ImportDirective[] {
+    const imports: ImportDirective[] = [];
     const importNodes = this.findNodesByType(rootNode, ['import_directive']);
+    const text = (node: Parser.SyntaxNode) => sourceCode.slice(node.startIndex, node.endIndex);
 
     for (const node of importNodes) {
-      const importText = sourceCode.slice(node.startIndex, node.endIndex);
+      const importText = text(node);
       // Extract import path from various import formats
       const pathMatch = importText.match(/["']([^"']+)["']/);
-      if (pathMatch) {
-        imports.push(pathMatch[1]);
+      if (!pathMatch) continue;
+
+      // `{A, B as C}` pairs each name with the alias that follows it; without names
+      // the alias names the whole unit (`import "x" as X`, `import * as X from "x"`)
+      const names = node.childrenForFieldName('import_name');
+      const aliases = node.childrenForFieldName('alias');
+      if (names.length === 0) {
+        imports.push({ path: pathMatch[1], unitAlias: aliases[0] ? text(aliases[0]) : undefined });
+        continue;
       }
+      imports.push({
+        path: pathMatch[1],
+        symbols: names.map((name, i) => {
+          const next = names[i + 1];
+          const alias = aliases.find(
+            (a) => a.startIndex > name.startIndex && (!next || a.startIndex < next.startIndex)
+          );
+          return { name: text(name), alias: alias ? text(alias) : undefined };
+        }),
+      });
     }
 
     return imports;
@@ -174,7 +571,7 @@ export class SolidityAnalyzer {
 
   private extractContract(
     node: Parser.SyntaxNode,
-    filePath: string,
+    file: RepositoryFile,
     sourceCode: string,
     fileImports: string[]
   ): SolidityContract | null {
@@ -200,16 +597,13 @@ export class SolidityAnalyzer {
     }
     const name = sourceCode.slice(nameNode.startIndex, nameNode.endIndex);
 
-    // Extract inheritance
+    // Extract inheritance, in declaration order (`is A, B(arg)`)
     const inherits: string[] = [];
-    const inheritanceNode = node.childForFieldName('inheritance');
-    if (inheritanceNode) {
-      const inheritanceNames = this.findNodesByType(inheritanceNode, ['identifier', 'user_defined_type']);
-      for (const inhNode of inheritanceNames) {
-        const inhName = sourceCode.slice(inhNode.startIndex, inhNode.endIndex);
-        if (inhName && !inherits.includes(inhName)) {
-          inherits.push(inhName);
-        }
+    for (const specifier of node.namedChildren.filter((c) => c.type === 'inheritance_specifier')) {
+      const ancestor = specifier.childForFieldName('ancestor');
+      const inhName = ancestor ? sourceCode.slice(ancestor.startIndex, ancestor.endIndex) : '';
+      if (inhName && !inherits.includes(inhName)) {
+        inherits.push(inhName);
       }
     }
 
@@ -219,21 +613,32 @@ export class SolidityAnalyzer {
     // Extract state variables
     const stateVariables = this.extractStateVariables(node, sourceCode);
 
-    // Check for upgradeable patterns
-    const contractText = sourceCode.slice(node.startIndex, node.endIndex);
-    const usesUpgradeablePattern = UPGRADEABLE_PATTERNS.some((pattern) =>
-      contractText.includes(pattern)
-    );
+    // Extract modifiers, events, errors, structs, enums, value types and using-for directives
+    const declarations = this.extractDeclarations(node.childForFieldName('body'), sourceCode);
+
+    // Inventory inline assembly
+    const assembly = this.extractAssembly(node, sourceCode);
+
+    // EIP-1967 slots and clone bytecode, kept for proxy classification
+    const proxyMarkers = findProxyMarkers(sourceCode.slice(node.startIndex, node.endIndex));
 
     return {
       name,
       type,
-      filePath,
+      filePath: file.path,
+      role: file.role || 'source',
       imports: fileImports,
       inherits,
+      linearization: [], // resolved once every file is parsed
       functions,
+      effectiveFunctions: [],
       stateVariables,
-      usesUpgradeablePattern,
+      ...declarations,
+      assembly,
+      usesUpgradeablePattern: false, // classified once every file is parsed
+      proxyMarkers,
+      standards: [], // detected once the effective functions are known
+      range: getSourceRange(node),
     };
   }
 
@@ -242,17 +647,33 @@ export class SolidityAnalyzer {
     sourceCode: string
   ): SolidityFunction[] {
     const functions: SolidityFunction[] = [];
-    const functionNodes = this.findNodesByType(contractNode, ['function_definition']);
+    const functionNodes = this.findNodesByType(contractNode, [
+      'function_definition',
+      'constructor_definition',
+      'fallback_receive_definition',
+    ]);
 
     for (const node of functionNodes) {
-      const nameNode = node.childForFieldName('name');
-      if (!nameNode) continue;
-
-      const name = sourceCode.slice(nameNode.startIndex, nameNode.endIndex);
+      const kind: FunctionKind =
+        node.type === 'constructor_definition'
+          ? 'constructor'
+          : node.type === 'fallback_receive_definition'
+            ? node.children.some((c) => c.type === 'receive')
+              ? 'receive'
+              : 'fallback'
+            : 'function';
+
+      let name: string = kind;
+      if (kind === 'function') {
+        const nameNode = node.childForFieldName('name');
+        if (!nameNode) continue;
+        name = sourceCode.slice(nameNode.startIndex, nameNode.endIndex);
+      }
 
-      // Extract visibility
-      let visibility: 'public' | 'external' | 'internal' | 'private' = 'public';
-      const visibilityNode = this.findNodeByType(node, 'visibility');
+      // Extract visibility (fallback and receive are always external)
+      let visibility: 'public' | 'external' | 'internal' | 'private' =
+        kind === 'fallback' || kind === 'receive' ? 'external' : 'public';
+      const visibilityNode = node.namedChildren.find((c) => c.type === 'visibility');
       if (visibilityNode) {
         const visText = sourceCode.slice(visibilityNode.startIndex, visibilityNode.endIndex);
         if (visText === 'external' || visText === 'internal' || visText === 'private') {
@@ -260,89 +681,469 @@ export class SolidityAnalyzer {
         }
       }
 
-      // Only include public/external functions
-      if (visibility !== 'public' && visibility !== 'external') {
-        continue;
-      }
-
-      // Extract state mutability
+      // Extract state mutability; constructors mark `payable` with a bare keyword
       let stateMutability: 'pure' | 'view' | 'payable' | 'nonpayable' | undefined;
-      const mutabilityNode = this.findNodeByType(node, 'state_mutability');
+      const mutabilityNode = node.namedChildren.find((c) => c.type === 'state_mutability');
       if (mutabilityNode) {
         const mutText = sourceCode.slice(mutabilityNode.startIndex, mutabilityNode.endIndex);
         if (mutText === 'pure' || mutText === 'view' || mutText === 'payable') {
           stateMutability = mutText;
         }
+      } else if (node.children.some((c) => c.type === 'payable')) {
+        stateMutability = 'payable';
       }
 
-      // Extract parameters (simplified)
-      const parameters: string[] = [];
-      const paramNode = node.childForFieldName('parameters');
-      if (paramNode) {
-        const paramText = sourceCode.slice(paramNode.startIndex, paramNode.endIndex);
-        // Simple extraction - just get parameter count
-        const paramCount = (paramText.match(/,/g) || []).length + (paramText.trim().length > 2 ? 1 : 0);
-        for (let i = 0; i < paramCount; i++) {
-          parameters.push(`param${i}`);
-        }
-      }
-
-      // Extract returns (simplified)
-      const returns: string[] = [];
-      const returnNode = node.childForFieldName('return_parameters');
-      if (returnNode) {
-        returns.push('returnValue');
-      }
-
-      functions.push({
+      // Parameters are direct children; return values sit under the return_type node,
+      // except for fallback, which lists them inline after `returns`
+      const returnsIndex = node.children.findIndex((c) => c.type === 'returns');
+      const parameters = this.extractParameters(
+        node.children.filter((c, i) => returnsIndex === -1 || i < returnsIndex),
+        sourceCode
+      );
+      const returnNode = node.childForFieldName('return_type');
+      const returns = returnNode
+        ? this.extractParameters(returnNode.namedChildren, sourceCode)
+        : returnsIndex !== -1
+          ? this.extractParameters(node.children.slice(returnsIndex + 1), sourceCode)
+          : [];
+
+      const modifiers = node.namedChildren
+        .filter((c) => c.type === 'modifier_invocation' && c.namedChildren.length > 0)
+        .map((c) => sourceCode.slice(c.namedChildren[0].startIndex, c.namedChildren[0].endIndex));
+
+      const fn: SolidityFunction = {
         name,
+        kind,
         visibility,
         stateMutability,
         parameters,
         returns,
-      });
+        signature: `${name}(${parameters.map((p) => canonicalType(p.type)).join(',')})`,
+        modifiers,
+        implemented: node.childForFieldName('body') !== null,
+        calls: [], // classified once every contract is known
+        range: getSourceRange(node),
+      };
+      functions.push(fn);
+      this.rawCalls.set(fn, this.extractCallSites(node, sourceCode));
+      this.rawAccesses.set(fn, this.extractStateAccesses(node, sourceCode));
     }
 
     return functions;
   }
 
+  /**
+   * Record reads and writes of variables other than locals and parameters, with the
+   * index expressions applied to them. Storage pointers (`Pos storage p = positions[id]`)
+   * are followed back to the variable they point into.
+   */
+  private extractStateAccesses(node: Parser.SyntaxNode, sourceCode: string): RawStateAccess[] {
+    const body = node.childForFieldName('body');
+    if (!body) {
+      return [];
+    }
+
+    const text = (n: Parser.SyntaxNode) => sourceCode.slice(n.startIndex, n.endIndex).replace(/\s+/g, ' ');
+    const locals = new Set<string>();
+    const aliases = new Map<string, { root: string; keys: string[] }>();
+
+    // `a[i][j].field` is an access of `a` with keys [i, j]; struct fields share their struct's shape
+    const accessPath = (
+      expression: Parser.SyntaxNode | null
+    ): { root: string; keys: string[]; rootNode: Parser.SyntaxNode } | null => {
+      const n = unwrapExpression(expression);
+      if (!n) return null;
+      if (n.type === 'identifier') {
+        const name = text(n);
+        const alias = aliases.get(name);
+        if (alias) return { ...alias, rootNode: n };
+        return locals.has(name) ? null : { root: name, keys: [], rootNode: n };
+      }
+      if (n.type === 'array_access') {
+        const path = accessPath(n.childForFieldName('base'));
+        const index = n.childForFieldName('index');
+        if (!path) return null;
+        const key = index ? text(index).replace(/^_msgSender\(\)$/, 'msg.sender') : '';
+        return { ...path, keys: [...path.keys, key] };
+      }
+      if (n.type === 'member_expression') {
+        return accessPath(n.childForFieldName('object'));
+      }
+      return null;
+    };
+
+    for (const parameter of [
+      ...node.namedChildren.filter((c) => c.type === 'parameter'),
+      ...(node.childForFieldName('return_type')?.namedChildren || []),
+    ]) {
+      const nameNode = parameter.childForFieldName('name');
+      if (nameNode) locals.add(text(nameNode));
+    }
+    for (const declaration of this.findNodesByType(body, ['variable_declaration'])) {
+      const nameNode = declaration.childForFieldName('name');
+      if (!nameNode) continue;
+      const value = declaration.parent?.childForFieldName('value');
+      const pointer = declaration.children.some((c) => c.type === 'storage') ? accessPath(value || null) : null;
+      if (pointer) {
+        aliases.set(text(nameNode), { root: pointer.root, keys: pointer.keys });
+      } else {
+        locals.add(text(nameNode));
+      }
+    }
+
+    const accesses: RawStateAccess[] = [];
+    const writeOnly = new Set<number>(); // identifiers that are assigned, not read
+
+    const recordWrite = (target: Parser.SyntaxNode | null, alsoRead: boolean) => {
+      const unwrapped = unwrapExpression(target);
+      const targets = unwrapped?.type === 'tuple_expression' ? unwrapped.namedChildren : [unwrapped];
+      for (const element of targets) {
+        const path = accessPath(element);
+        if (!path) continue;
+        accesses.push({ root: path.root, keys: path.keys, write: true });
+        if (!alsoRead) writeOnly.add(path.rootNode.startIndex);
+      }
+    };
+    for (const assignment of this.findNodesByType(body, ['assignment_expression'])) {
+      recordWrite(assignment.childForFieldName('left'), false);
+    }
+    for (const assignment of this.findNodesByType(body, ['augmented_assignment_expression'])) {
+      recordWrite(assignment.childForFieldName('left'), true);
+    }
+    for (const update of this.findNodesByType(body, ['update_expression'])) {
+      recordWrite(update.childForFieldName('argument'), true);
+    }
+    for (const unary of this.findNodesByType(body, ['unary_expression'])) {
+      if (unary.children[0]?.type === 'delete') {
+        recordWrite(unary.childForFieldName('argument'), false);
+      }
+    }
+
+    for (const identifier of this.findNodesByType(body, ['identifier'])) {
+      if (writeOnly.has(identifier.startIndex)) continue;
+      const parent = identifier.parent;
+      if (parent?.type === 'member_expression' && parent.childForFieldName('property')?.startIndex === identifier.startIndex) {
+        continue;
+      }
+
+      // Climb to the outermost index expression this identifier is the base of
+      let top: Parser.SyntaxNode = identifier;
+      let current = identifier.parent;
+      while (current) {
+        const base = current.type === 'array_access' ? current.childForFieldName('base') : null;
+        if (current.type === 'expression' || (base && base.startIndex === top.startIndex && base.endIndex === top.endIndex)) {
+          top = current;
+          current = current.parent;
+        } else {
+          break;
+        }
+      }
+
+      const path = accessPath(top);
+      if (path) {
+        accesses.push({ root: path.root, keys: path.keys, write: false });
+      }
+    }
+
+    return accesses;
+  }
+
+  /**
+   * Record the call expressions in a function body along with what the syntax says
+   * about the receiver: its declared type if it's a parameter or local variable, or
+   * the type it was converted to (`IFoo(addr).f()`)
+   */
+  private extractCallSites(functionNode: Parser.SyntaxNode, sourceCode: string): RawCallSite[] {
+    const body = functionNode.childForFieldName('body');
+    if (!body) {
+      return [];
+    }
+
+    const text = (node: Parser.SyntaxNode) => sourceCode.slice(node.startIndex, node.endIndex);
+    const unwrap = unwrapExpression;
+
+    const localTypes = new Map<string, string>();
+    const declarations = [
+      ...functionNode.namedChildren.filter((c) => c.type === 'parameter'),
+      ...this.findNodesByType(body, ['variable_declaration']),
+    ];
+    for (const declaration of declarations) {
+      const nameNode = declaration.childForFieldName('name');
+      const typeNode = declaration.childForFieldName('type');
+      if (nameNode && typeNode) {
+        localTypes.set(text(nameNode), text(typeNode).replace(/\s+/g, ' '));
+      }
+    }
+
+    const sites: RawCallSite[] = [];
+    for (const call of this.findNodesByType(body, ['call_expression'])) {
+      let callee = unwrap(call.childForFieldName('function'));
+      // `f{value: v}(...)` wraps the callee in call options
+      if (callee?.type === 'struct_expression') {
+        callee = unwrap(callee.childForFieldName('type'));
+      }
+      if (!callee) continue;
+
+      const site = {
+        arguments: call.namedChildren
+          .filter((c) => c.type === 'call_argument')
+          .map((c) => text(c).replace(/\s+/g, ' ')),
+        range: getSourceRange(call),
+      };
+
+      if (callee.type === 'new_expression') {
+        const created = this.findNodeByType(callee, 'user_defined_type');
+        if (created) {
+          sites.push({ ...site, name: 'new', creates: text(created) });
+        }
+      } else if (callee.type === 'identifier') {
+        sites.push({ ...site, name: text(callee) });
+      } else if (callee.type === 'member_expression') {
+        const object = unwrap(callee.childForFieldName('object'));
+        const property = callee.childForFieldName('property');
+        if (!object || !property) continue;
+
+        let castTo: string | undefined;
+        if (object.type === 'payable_conversion_expression') {
+          castTo = 'address';
+        } else if (object.type === 'call_expression') {
+          const conversion = unwrap(object.childForFieldName('function'));
+          if (conversion && (conversion.type === 'identifier' || conversion.type === 'primitive_type')) {
+            castTo = text(conversion);
+          }
+        }
+
+        const receiver = text(object);
+        sites.push({
+          ...site,
+          name: text(property),
+          receiver,
+          receiverType: object.type === 'identifier' ? localTypes.get(receiver) : undefined,
+          castTo,
+        });
+      }
+    }
+
+    return sites;
+  }
+
+  private extractParameters(nodes: Parser.SyntaxNode[], sourceCode: string): SolidityParameter[] {
+    const parameters: SolidityParameter[] = [];
+
+    for (const child of nodes) {
+      if (child.type !== 'parameter' && child.type !== 'event_parameter' && child.type !== 'error_parameter') {
+        continue;
+      }
+
+      const typeNode = child.childForFieldName('type');
+      if (!typeNode) continue;
+
+      const nameNode = child.childForFieldName('name');
+      // The location keyword is an anonymous node
+      const location = child.children.find((c) => DATA_LOCATIONS.includes(c.type as DataLocation));
+
+      parameters.push({
+        name: nameNode ? sourceCode.slice(nameNode.startIndex, nameNode.endIndex) : undefined,
+        type: sourceCode.slice(typeNode.startIndex, typeNode.endIndex).replace(/\s+/g, ' '),
+        location: location ? (location.type as DataLocation) : undefined,
+      });
+    }
+
+    return parameters;
+  }
+
+  /**
+   * Extract the declarations in a contract body, or at file level, other than
+   * functions and state variables
+   */
+  private extractDeclarations(
+    body: Parser.SyntaxNode | null,
+    sourceCode: string
+  ): Pick<
+    SolidityContract,
+    'modifiers' | 'events' | 'errors' | 'structs' | 'enums' | 'valueTypes' | 'usingFor'
+  > {
+    const declarations: Pick<
+      SolidityContract,
+      'modifiers' | 'events' | 'errors' | 'structs' | 'enums' | 'valueTypes' | 'usingFor'
+    > = { modifiers: [], events: [], errors: [], structs: [], enums: [], valueTypes: [], usingFor: [] };
+
+    if (!body) {
+      return declarations;
+    }
+
+    const text = (node: Parser.SyntaxNode) => sourceCode.slice(node.startIndex, node.endIndex);
+    const hasKeyword = (node: Parser.SyntaxNode, keyword: string) =>
+      node.children.some((c) => c.type === keyword);
+
+    for (const node of body.namedChildren) {
+      const nameNode = node.childForFieldName('name');
+      const name = nameNode ? text(nameNode) : '';
+      const range = getSourceRange(node);
+
+      switch (node.type) {
+        case 'modifier_definition': {
+          const modifier: SolidityModifier = {
+            name,
+            parameters: this.extractParameters(node.namedChildren, sourceCode),
+            virtual: node.namedChildren.some((c) => c.type === 'virtual'),
+            range,
+          };
+          declarations.modifiers.push(modifier);
+          this.rawAccesses.set(modifier, this.extractStateAccesses(node, sourceCode));
+          break;
+        }
+
+        case 'event_definition':
+          declarations.events.push({
+            name,
+            parameters: node.namedChildren
+              .filter((c) => c.type === 'event_parameter')
+              .flatMap((c) =>
+                this.extractParameters([c], sourceCode).map((parameter) => ({
+                  ...parameter,
+                  indexed: hasKeyword(c, 'indexed'),
+                }))
+              ),
+            anonymous: hasKeyword(node, 'anonymous'),
+            range,
+          });
+          break;
+
+        case 'error_declaration':
+          declarations.errors.push({
+            name,
+            parameters: this.extractParameters(node.namedChildren, sourceCode),
+            range,
+          });
+          break;
+
+        case 'struct_declaration': {
+          const members = (node.childForFieldName('body')?.namedChildren || [])
+            .filter((c) => c.type === 'struct_member')
+            .map((member) => {
+              const memberName = member.childForFieldName('name');
+              const memberType = member.childForFieldName('type');
+              return {
+                name: memberName ? text(memberName) : '',
+                type: memberType ? text(memberType).replace(/\s+/g, ' ') : 'unknown',
+              };
+            });
+          declarations.structs.push({ name, members, range });
+          break;
+        }
+
+        case 'enum_declaration':
+          declarations.enums.push({
+            name,
+            values: (node.childForFieldName('body')?.namedChildren || [])
+              .filter((c) => c.type === 'enum_value')
+              .map(text),
+            range,
+          });
+          break;
+
+        case 'user_defined_type_definition': {
+          const underlying = node.namedChildren.find((c) => c.type === 'primitive_type');
+          declarations.valueTypes.push({
+            name,
+            underlyingType: underlying ? text(underlying) : 'unknown',
+            range,
+          });
+          break;
+        }
+
+        case 'using_directive': {
+          const library = node.namedChildren.find((c) => c.type === 'type_alias');
+          const source = node.childForFieldName('source');
+          declarations.usingFor.push({
+            library: library ? text(library) : undefined,
+            functions: node.namedChildren.filter((c) => c.type === 'using_alias').map(text),
+            target: !source || source.type === 'any_source_type' ? '*' : text(source),
+            global: hasKeyword(node, 'global'),
+            range,
+          });
+          break;
+        }
+      }
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Find `assembly { }` blocks, attributing each to its enclosing function or modifier,
+   * and count the Yul builtins they call
+   */
+  private extractAssembly(contractNode: Parser.SyntaxNode, sourceCode: string): AssemblyBlock[] {
+    const blocks: AssemblyBlock[] = [];
+    const owners = this.findNodesByType(contractNode, [
+      'function_definition',
+      'constructor_definition',
+      'fallback_receive_definition',
+      'modifier_definition',
+    ]);
+
+    for (const owner of owners) {
+      const nameNode = owner.childForFieldName('name');
+      const name = nameNode ? sourceCode.slice(nameNode.startIndex, nameNode.endIndex) : undefined;
+      const functionName =
+        owner.type === 'modifier_definition'
+          ? `modifier ${name}`
+          : owner.type === 'constructor_definition'
+            ? 'constructor'
+            : owner.type === 'fallback_receive_definition'
+              ? owner.children.some((c) => c.type === 'receive')
+                ? 'receive'
+                : 'fallback'
+              : name;
+
+      for (const node of this.findNodesByType(owner, ['assembly_statement'])) {
+        const opcodes: Record<string, number> = {};
+        for (const builtin of this.findNodesByType(node, ['yul_evm_builtin'])) {
+          const opcode = sourceCode.slice(builtin.startIndex, builtin.endIndex);
+          opcodes[opcode] = (opcodes[opcode] || 0) + 1;
+        }
+
+        const flags = node.namedChildren.find((c) => c.type === 'assembly_flags');
+        blocks.push({
+          functionName,
+          memorySafe: flags ? sourceCode.slice(flags.startIndex, flags.endIndex).includes('memory-safe') : false,
+          opcodes,
+          range: getSourceRange(node),
+        });
+      }
+    }
+
+    return blocks;
+  }
+
   private extractStateVariables(
     contractNode: Parser.SyntaxNode,
     sourceCode: string
   ): StateVariable[] {
     const variables: StateVariable[] = [];
-    const varNodes = this.findNodesByType(contractNode, ['state_variable_declaration']);
+    const body = contractNode.childForFieldName('body');
+    const varNodes = (body?.namedChildren || []).filter((c) => c.type === 'state_variable_declaration');
+    const text = (node: Parser.SyntaxNode) => sourceCode.slice(node.startIndex, node.endIndex);
 
     for (const node of varNodes) {
-      const nameNode = this.findNodeByType(node, 'identifier');
+      const nameNode = node.childForFieldName('name');
+      const typeNode = node.childForFieldName('type');
       if (!nameNode) continue;
 
-      const name = sourceCode.slice(nameNode.startIndex, nameNode.endIndex);
-
-      // Extract type (simplified)
-      const typeNode = this.findNodeByType(node, 'type_name') || 
-                       this.findNodeByType(node, 'user_defined_type') ||
-                       this.findNodeByType(node, 'elementary_type_name');
-      const type = typeNode 
-        ? sourceCode.slice(typeNode.startIndex, typeNode.endIndex)
-        : 'unknown';
-
-      // Extract visibility
-      let visibility: 'public' | 'internal' | 'private' = 'internal';
-      const varText = sourceCode.slice(node.startIndex, node.endIndex);
-      if (varText.includes(' public ')) visibility = 'public';
-      else if (varText.includes(' private ')) visibility = 'private';
-
-      // Check for constant/immutable
-      const constant = varText.includes(' constant ');
-      const immutable = varText.includes(' immutable ');
+      const visibilityNode = node.childForFieldName('visibility');
+      const visibility = visibilityNode ? text(visibilityNode) : 'internal';
+      const location = node.childForFieldName('location');
 
       variables.push({
-        name,
-        type,
-        visibility,
-        constant,
-        immutable,
+        name: text(nameNode),
+        type: typeNode ? text(typeNode).replace(/\s+/g, ' ') : 'unknown',
+        visibility: visibility === 'public' || visibility === 'private' ? visibility : 'internal',
+        constant: node.children.some((c) => c.type === 'constant'),
+        immutable: node.children.some((c) => c.type === 'immutable'),
+        transient: location !== null && text(location) === 'transient',
+        range: getSourceRange(node),
       });
     }
 
@@ -376,7 +1177,10 @@ export class SolidityAnalyzer {
     return null;
   }
 
-  private buildDependencyGraph(contracts: SolidityContract[]): DependencyGraph {
+  private buildDependencyGraph(
+    contracts: SolidityContract[],
+    importResolver: ImportResolver
+  ): DependencyGraph {
     const nodes: string[] = [];
     const edges: DependencyEdge[] = [];
 
@@ -387,7 +1191,8 @@ export class SolidityAnalyzer {
       }
 
       // Add import dependencies
-      for (const importPath of contract.imports) {
+      for (const rawImport of contract.imports) {
+        const importPath = importResolver.resolve(contract.filePath, rawImport).path;
         if (!nodes.includes(importPath)) {
           nodes.push(importPath);
         }
@@ -411,39 +1216,106 @@ export class SolidityAnalyzer {
       }
     }
 
+    // Add call edges; low-level calls and transfers target addresses, not contracts
+    for (const edge of buildCallEdges(contracts)) {
+      const targetsContract =
+        edge.type === 'internal-call' || edge.type === 'external-call' || edge.type === 'create';
+      if (targetsContract && !nodes.includes(edge.to)) {
+        nodes.push(edge.to);
+      }
+      edges.push(edge);
+    }
+
     return { nodes, edges };
   }
 
-  private identifyEntryPoints(
-    contracts: SolidityContract[],
-    graph: DependencyGraph
-  ): string[] {
-    // Entry points are concrete contracts (not abstract, interface, or library)
-    // that are likely to be deployed
-    const deployable = contracts.filter(
-      (c) => c.type === 'contract' && !this.isOnlyInherited(c.name, graph)
-    );
+  /**
+   * Imports that match no ingested file: those that should point into the repository, and
+   * those of dependencies that weren't ingested (e.g. npm packages under node_modules),
+   * which leave the analysis of contracts built on them incomplete
+   */
+  private findUnresolvedImports(importResolver: ImportResolver): SolidityAnalysisResult['unresolvedImports'] {
+    const unresolved: SolidityAnalysisResult['unresolvedImports'] = [];
+
+    // Taken from each parsed file, so files declaring only free functions, constants,
+    // structs or errors are covered too
+    for (const [filePath, imports] of this.fileImports) {
+      for (const { path: importPath } of imports) {
+        const resolved = importResolver.resolve(filePath, importPath);
+        if (!resolved.found) {
+          unresolved.push({
+            filePath,
+            importPath,
+            resolvedPath: resolved.path,
+            reason: resolved.external ? 'not-ingested' : 'missing',
+          });
+        }
+      }
+    }
 
-    return deployable.map((c) => c.name);
+    return unresolved;
   }
 
-  private isOnlyInherited(contractName: string, graph: DependencyGraph): boolean {
-    // Check if contract is only used for inheritance (appears as 'to' in inheritance edges)
-    const isInherited = graph.edges.some(
-      (e) => e.to === contractName && e.type === 'inheritance'
-    );
-    const isInheriting = graph.edges.some(
-      (e) => e.from === contractName && e.type === 'inheritance'
+  /**
+   * Public and external functions of a contract, with the getters of its public state
+   * variables, and the token standards they satisfy. Records the standards on the contract.
+   */
+  private describeInterface(contract: SolidityContract, inheritance: InheritanceResolver): ContractInterface {
+    const functions = new Set(
+      contract.effectiveFunctions
+        .filter((f) => f.kind === 'function' && (f.visibility === 'public' || f.visibility === 'external'))
+        .map((f) => f.signature)
     );
 
-    return isInherited && !isInheriting;
+    for (const [index, reference] of contract.linearization.entries()) {
+      const base = index === 0 ? contract : inheritance.lookup(reference);
+      for (const variable of base?.stateVariables || []) {
+        if (variable.visibility === 'public') functions.add(getterSignature(variable));
+      }
+    }
+
+    const bases = [...contract.inherits, ...contract.linearization.map((r) => r.name)];
+    contract.standards = detectTokenStandards(Array.from(functions), bases);
+
+    return {
+      contractName: contract.name,
+      filePath: contract.filePath,
+      standards: contract.standards,
+      functions: Array.from(functions).sort(),
+    };
+  }
+
+  /**
+   * Entry points are concrete project contracts (not abstract, interface, or library,
+   * and not tests, scripts, mocks or vendored code) that implement every function they
+   * inherit and that no other concrete project contract extends
+   */
+  private identifyEntryPoints(
+    contracts: SolidityContract[],
+    inheritance: InheritanceResolver
+  ): string[] {
+    const concrete = contracts.filter((c) => c.type === 'contract' && c.role === 'source');
+
+    const extended = new Set<SolidityContract>();
+    for (const contract of concrete) {
+      for (const reference of contract.linearization.slice(1)) {
+        const base = inheritance.lookup(reference);
+        if (base) extended.add(base);
+      }
+    }
+
+    return concrete
+      .filter((c) => !extended.has(c) && c.effectiveFunctions.every((f) => f.implemented))
+      .map((c) => c.name);
   }
 }
 
 export async function analyzeSolidityRepository(
   repoTree: RepositoryTree,
-  githubToken?: string
+  githubToken?: string,
+  source?: RepositorySource,
+  options?: AnalysisOptions
 ): Promise<SolidityAnalysisResult> {
   const analyzer = new SolidityAnalyzer(githubToken);
-  return analyzer.analyzeSolidity(repoTree);
+  return analyzer.analyzeSolidity(repoTree, source, options);
 }
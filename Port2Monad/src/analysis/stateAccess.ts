@@ -0,0 +1,253 @@
+/**
+ * State access analysis
+ * Computes the storage each entry function reads and writes, following modifiers
+ * and internal calls, and reports the global slots that every transaction touching
+ * them must serialize on under parallel execution
+ */
+
+import {
+  ContentionHotspot,
+  ContentionReport,
+  FunctionStateAccess,
+  SolidityContract,
+  SolidityFunction,
+  SolidityModifier,
+  StateAccess,
+  StateAccessScope,
+} from '../types/index.js';
+import { InheritanceResolver } from './inheritance.js';
+import type { RawCallSite } from './callGraph.js';
+
+/**
+ * A read or write of a variable that isn't a local or parameter, as written
+ */
+export interface RawStateAccess {
+  root: string; // accessed identifier
+  keys: string[]; // index expressions, outermost first
+  write: boolean;
+}
+
+const SENDER_KEYS = ['msg.sender', 'tx.origin'];
+
+// Parameter name -> the caller's argument expression
+type Bindings = Map<string, string>;
+
+/**
+ * Rewrite the identifiers of an expression that name bound parameters; members
+ * (`.from`) are left alone
+ */
+function substitute(expression: string, bindings: Bindings): string {
+  const bound = bindings.size
+    ? expression.replace(/(?<![\w$.])[A-Za-z_$][\w$]*/g, (identifier) => bindings.get(identifier) ?? identifier)
+    : expression;
+  return bound.replace(/^_msgSender\(\)$/, 'msg.sender');
+}
+
+function classifyScope(keys: string[]): StateAccessScope {
+  if (keys.some((key) => SENDER_KEYS.includes(key))) {
+    return 'sender';
+  }
+  // Literal keys always hit the same slot
+  if (keys.every((key) => /^(\d+|0x[0-9a-fA-F]+|"[^"]*"|'[^']*'|true|false)$/.test(key))) {
+    return 'global';
+  }
+  return 'keyed';
+}
+
+export class StateAccessAnalyzer {
+  private contracts: SolidityContract[];
+  private inheritance: InheritanceResolver;
+  private rawAccesses: Map<SolidityFunction | SolidityModifier, RawStateAccess[]>;
+  private rawCalls: Map<SolidityFunction, RawCallSite[]>;
+
+  constructor(
+    contracts: SolidityContract[],
+    inheritance: InheritanceResolver,
+    rawAccesses: Map<SolidityFunction | SolidityModifier, RawStateAccess[]>,
+    rawCalls: Map<SolidityFunction, RawCallSite[]>
+  ) {
+    this.contracts = contracts;
+    this.inheritance = inheritance;
+    this.rawAccesses = rawAccesses;
+    this.rawCalls = rawCalls;
+  }
+
+  /**
+   * Analyze the public and external functions of project contracts that hold storage
+   */
+  analyze(): ContentionReport {
+    const functions: FunctionStateAccess[] = [];
+    const hotspots: ContentionHotspot[] = [];
+
+    for (const contract of this.contracts) {
+      if ((contract.type !== 'contract' && contract.type !== 'abstract') || contract.role !== 'source') {
+        continue;
+      }
+
+      const contractFunctions = this.analyzeContract(contract);
+      functions.push(...contractFunctions);
+      hotspots.push(...this.findHotspots(contract.name, contractFunctions));
+    }
+
+    hotspots.sort((a, b) => b.writers.length - a.writers.length || b.readers.length - a.readers.length);
+    return { functions, hotspots };
+  }
+
+  private analyzeContract(contract: SolidityContract): FunctionStateAccess[] {
+    const bases = contract.linearization.map((reference, index) =>
+      index === 0 ? contract : this.inheritance.lookup(reference)
+    );
+
+    // Storage variables visible to the contract; constants and immutables live in code,
+    // and transient variables don't outlive the transaction
+    const storageVariables = new Set<string>();
+    for (const base of bases) {
+      for (const variable of base?.stateVariables || []) {
+        if (!variable.constant && !variable.immutable && !variable.transient) storageVariables.add(variable.name);
+      }
+    }
+
+    const results: FunctionStateAccess[] = [];
+    for (const effective of contract.effectiveFunctions) {
+      if (effective.kind === 'constructor' || !effective.implemented) continue;
+      if (effective.visibility !== 'public' && effective.visibility !== 'external') continue;
+
+      const entry = this.findFunction(contract, effective.definedIn, effective.signature);
+      if (!entry) continue;
+
+      const raw = this.collect(contract, entry, new Map(), new Set(), new Set());
+      const reads = new Map<string, StateAccess>();
+      const writes = new Map<string, StateAccess>();
+      for (const access of raw) {
+        if (!storageVariables.has(access.root)) continue;
+        const slot = `${access.root}${access.keys.map((key) => `[${key}]`).join('')}`;
+        const target = access.write ? writes : reads;
+        target.set(slot, { variable: access.root, slot, scope: classifyScope(access.keys) });
+      }
+
+      results.push({
+        contractName: contract.name,
+        function: effective.signature,
+        reads: Array.from(reads.values()),
+        writes: Array.from(writes.values()),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Accesses of a function, its modifiers and the internal functions it calls.
+   * Internal calls dispatch to the most derived override, except `super` calls
+   * from an override, which run the base's version. A callee's parameters are
+   * replaced by the caller's arguments, so `_transfer(msg.sender, to, amount)`
+   * reports `_balances[from]` as `_balances[msg.sender]`.
+   */
+  private collect(
+    contract: SolidityContract,
+    fn: SolidityFunction,
+    bindings: Bindings,
+    stack: Set<SolidityFunction>,
+    expanded: Set<string>
+  ): RawStateAccess[] {
+    if (stack.has(fn)) {
+      return [];
+    }
+    // The same function reached with the same arguments adds nothing new
+    const expansion = `${contract.name}.${fn.signature}(${Array.from(bindings.values()).join(',')})`;
+    if (expanded.has(expansion)) {
+      return [];
+    }
+    expanded.add(expansion);
+    stack.add(fn);
+
+    const bind = (access: RawStateAccess): RawStateAccess => ({
+      ...access,
+      keys: access.keys.map((key) => substitute(key, bindings)),
+    });
+    const accesses = (this.rawAccesses.get(fn) || []).map(bind);
+
+    for (const name of fn.modifiers) {
+      const modifier = this.findModifier(contract, name);
+      if (modifier) accesses.push(...(this.rawAccesses.get(modifier) || []).map(bind));
+    }
+
+    const rawCalls = this.rawCalls.get(fn) || [];
+    for (const call of fn.calls) {
+      if (call.kind !== 'internal-call' || !call.function) continue;
+
+      const raw = rawCalls.find((r) => r.range.startByte === call.range.startByte);
+      // `x.f(a)` through `using Lib for T` passes `x` as the first argument
+      const viaUsingFor =
+        raw?.receiver !== undefined && raw.receiver !== 'super' && raw.receiver !== call.target;
+      const args = raw ? [...(viaUsingFor ? [raw.receiver!] : []), ...raw.arguments] : [];
+
+      const overrides = contract.effectiveFunctions.filter(
+        (f) =>
+          f.signature.startsWith(`${call.function}(`) &&
+          (f.definedIn === call.target || f.overrides.includes(call.target))
+      );
+      for (const effective of overrides) {
+        let callee = this.findFunction(contract, effective.definedIn, effective.signature);
+        if (callee === fn || (callee && stack.has(callee) && effective.definedIn !== call.target)) {
+          callee = this.findFunction(contract, call.target, effective.signature);
+        }
+        if (!callee) continue;
+
+        const calleeBindings: Bindings = new Map();
+        callee.parameters.forEach((parameter, index) => {
+          // Named arguments (`f({a: x})`) aren't positional
+          if (parameter.name && index < args.length && !args[index].startsWith('{')) {
+            calleeBindings.set(parameter.name, substitute(args[index], bindings));
+          }
+        });
+        accesses.push(...this.collect(contract, callee, calleeBindings, stack, expanded));
+      }
+    }
+
+    stack.delete(fn);
+    return accesses;
+  }
+
+  private findFunction(contract: SolidityContract, declaringName: string, signature: string): SolidityFunction | undefined {
+    const declaring = this.findBase(contract, declaringName);
+    return declaring?.functions.find((f) => f.signature === signature);
+  }
+
+  private findModifier(contract: SolidityContract, name: string): SolidityModifier | undefined {
+    for (const [index, reference] of contract.linearization.entries()) {
+      const base = index === 0 ? contract : this.inheritance.lookup(reference);
+      const modifier = base?.modifiers.find((m) => m.name === name);
+      if (modifier) return modifier;
+    }
+    return undefined;
+  }
+
+  private findBase(contract: SolidityContract, name: string): SolidityContract | undefined {
+    if (name === contract.name) {
+      return contract;
+    }
+    const reference = contract.linearization.find((r) => r.name === name);
+    return reference ? this.inheritance.lookup(reference) : undefined;
+  }
+
+  private findHotspots(contractName: string, functions: FunctionStateAccess[]): ContentionHotspot[] {
+    const hotspots = new Map<string, ContentionHotspot>();
+
+    for (const fn of functions) {
+      for (const write of fn.writes.filter((w) => w.scope === 'global')) {
+        const hotspot = hotspots.get(write.slot) || { contractName, slot: write.slot, writers: [], readers: [] };
+        hotspot.writers.push(fn.function);
+        hotspots.set(write.slot, hotspot);
+      }
+    }
+    for (const fn of functions) {
+      for (const read of fn.reads) {
+        const hotspot = hotspots.get(read.slot);
+        if (hotspot && !hotspot.writers.includes(fn.function)) hotspot.readers.push(fn.function);
+      }
+    }
+
+    return Array.from(hotspots.values());
+  }
+}
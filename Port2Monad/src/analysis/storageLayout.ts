@@ -0,0 +1,313 @@
+/**
+ * Storage layout computation
+ * Assigns slots the way solc does: value types pack into 32-byte slots in declaration
+ * order, following the C3 linearization from the most base contract, while structs,
+ * fixed arrays, mappings and dynamic types occupy whole slots of their own
+ */
+
+import {
+  ContractReference,
+  SolidityContract,
+  SolidityStruct,
+  StorageLayout,
+  StorageLayoutChange,
+  StorageSlotEntry,
+} from '../types/index.js';
+
+const SLOT_BYTES = 32;
+
+/**
+ * Type declarations visible to the layout, e.g. those declared at file level
+ */
+export type TypeScope = Pick<SolidityContract, 'structs' | 'enums' | 'valueTypes'>;
+
+interface TypeSize {
+  bytes: number; // whole slots unless packed
+  packed: boolean; // value type that can share a slot with its neighbours
+}
+
+type ResolvedType =
+  | { kind: 'struct'; struct: SolidityStruct; owner?: string }
+  | { kind: 'enum'; values: number }
+  | { kind: 'value'; underlyingType: string }
+  | { kind: 'contract' };
+
+interface SlotCursor {
+  slot: number;
+  offset: number;
+}
+
+function wholeSlots(count: number): TypeSize {
+  return { bytes: count * SLOT_BYTES, packed: false };
+}
+
+/**
+ * Reserve space for the next item; non-packed items start and end on a slot boundary
+ */
+function place(cursor: SlotCursor, size: TypeSize): SlotCursor {
+  if (size.packed ? cursor.offset + size.bytes > SLOT_BYTES : cursor.offset > 0) {
+    cursor.slot++;
+    cursor.offset = 0;
+  }
+  const position = { ...cursor };
+  if (size.packed) {
+    cursor.offset += size.bytes;
+  } else {
+    cursor.slot += size.bytes / SLOT_BYTES;
+  }
+  return position;
+}
+
+function slotsUsed(cursor: SlotCursor): number {
+  return cursor.slot + (cursor.offset > 0 ? 1 : 0);
+}
+
+export class StorageLayoutCalculator {
+  private declared: SolidityContract[];
+  private contracts: Map<string, SolidityContract> = new Map();
+  private structs: Map<string, { struct: SolidityStruct; owner?: string }> = new Map();
+  private enums: Map<string, number> = new Map();
+  private valueTypes: Map<string, string> = new Map();
+
+  /**
+   * Types are keyed `Contract.Name` when declared in a contract and `Name` at file level.
+   * Contract names that occur more than once resolve to their first declaration.
+   */
+  constructor(contracts: SolidityContract[], fileScope: TypeScope) {
+    this.declared = contracts;
+    for (const contract of contracts) {
+      if (!this.contracts.has(contract.name)) {
+        this.contracts.set(contract.name, contract);
+      }
+      this.addScope(contract, contract.name);
+    }
+    this.addScope(fileScope);
+  }
+
+  computeAll(): StorageLayout[] {
+    const layouts: StorageLayout[] = [];
+    for (const contract of this.declared) {
+      if (contract.type === 'contract' || contract.type === 'abstract') {
+        layouts.push(this.compute(contract));
+      }
+    }
+    return layouts;
+  }
+
+  compute(contract: SolidityContract): StorageLayout {
+    const warnings: string[] = [];
+    if (contract.linearizationError) {
+      warnings.push(contract.linearizationError);
+    }
+    for (const missing of contract.linearization.filter((reference) => !reference.filePath)) {
+      warnings.push(`Base contract ${missing.name} not found; its storage is not included`);
+    }
+    const order = contract.linearization.map((reference) => reference.name);
+
+    const entries: StorageSlotEntry[] = [];
+    const cursor: SlotCursor = { slot: 0, offset: 0 };
+
+    for (const reference of [...contract.linearization].reverse()) {
+      const declaring = reference === contract.linearization[0] ? contract : this.findContract(reference);
+      if (!declaring) continue;
+
+      for (const variable of declaring.stateVariables) {
+        if (variable.constant || variable.immutable || variable.transient) continue;
+        const size = this.sizeOf(variable.type, [declaring.name, ...order], warnings);
+        const position = place(cursor, size);
+        entries.push({
+          contractName: declaring.name,
+          name: variable.name,
+          type: variable.type,
+          slot: position.slot,
+          offset: position.offset,
+          bytes: size.bytes,
+        });
+      }
+    }
+
+    return {
+      contractName: contract.name,
+      filePath: contract.filePath,
+      linearization: order,
+      entries,
+      slotsUsed: slotsUsed(cursor),
+      warnings: Array.from(new Set(warnings)),
+    };
+  }
+
+  private findContract(reference: ContractReference): SolidityContract | undefined {
+    return this.declared.find((c) => c.name === reference.name && c.filePath === reference.filePath);
+  }
+
+  private addScope(scope: TypeScope, owner?: string): void {
+    const key = (name: string) => (owner ? `${owner}.${name}` : name);
+    for (const struct of scope.structs) {
+      this.structs.set(key(struct.name), { struct, owner });
+    }
+    for (const enumeration of scope.enums) {
+      this.enums.set(key(enumeration.name), enumeration.values.length);
+    }
+    for (const valueType of scope.valueTypes) {
+      this.valueTypes.set(key(valueType.name), valueType.underlyingType);
+    }
+  }
+
+  /**
+   * Size of a declared type; `context` lists the contracts whose nested types are visible
+   */
+  private sizeOf(rawType: string, context: string[], warnings: string[], resolving: string[] = []): TypeSize {
+    const type = rawType.trim();
+
+    // `T[n]` is n elements of T; `T[2][3]` is three `T[2]`
+    const array = type.match(/^(.*)\[\s*([^[\]]*?)\s*\]$/);
+    if (array) {
+      if (!array[2]) {
+        return wholeSlots(1);
+      }
+      let length = Number(array[2]);
+      if (!Number.isInteger(length) || length < 0) {
+        warnings.push(`Length of ${type} is not a literal; assumed 1`);
+        length = 1;
+      }
+      const element = this.sizeOf(array[1], context, warnings, resolving);
+      if (element.packed) {
+        return wholeSlots(Math.ceil(length / Math.floor(SLOT_BYTES / element.bytes)));
+      }
+      return wholeSlots((length * element.bytes) / SLOT_BYTES);
+    }
+
+    if (type.startsWith('mapping')) {
+      return wholeSlots(1);
+    }
+    if (type.startsWith('function')) {
+      // External function pointers hold an address and a selector
+      return { bytes: /\b(external|public)\b/.test(type) ? 24 : 8, packed: true };
+    }
+
+    const elementary = this.elementarySize(type);
+    if (elementary) {
+      return elementary;
+    }
+
+    const resolved = this.resolve(type, context);
+    switch (resolved?.kind) {
+      case 'struct': {
+        const key = `${resolved.owner || ''}.${resolved.struct.name}`;
+        if (resolving.includes(key)) {
+          warnings.push(`Struct ${resolved.struct.name} contains itself; assumed one slot`);
+          return wholeSlots(1);
+        }
+        const memberContext = resolved.owner ? [resolved.owner, ...context] : context;
+        const cursor: SlotCursor = { slot: 0, offset: 0 };
+        for (const member of resolved.struct.members) {
+          place(cursor, this.sizeOf(member.type, memberContext, warnings, [...resolving, key]));
+        }
+        return wholeSlots(Math.max(1, slotsUsed(cursor)));
+      }
+      case 'enum':
+        return { bytes: resolved.values > 256 ? 2 : 1, packed: true };
+      case 'value':
+        return this.sizeOf(resolved.underlyingType, context, warnings, resolving);
+      case 'contract':
+        return { bytes: 20, packed: true };
+      default:
+        warnings.push(`Could not resolve type ${type}; assumed one slot`);
+        return wholeSlots(1);
+    }
+  }
+
+  private elementarySize(type: string): TypeSize | null {
+    if (type === 'bool' || type === 'byte') {
+      return { bytes: 1, packed: true };
+    }
+    if (/^address(\s+payable)?$/.test(type)) {
+      return { bytes: 20, packed: true };
+    }
+    if (type === 'string' || type === 'bytes') {
+      return wholeSlots(1);
+    }
+    const integer = type.match(/^u?int(\d*)$/);
+    if (integer) {
+      return { bytes: Number(integer[1] || 256) / 8, packed: true };
+    }
+    const fixedBytes = type.match(/^bytes(\d+)$/);
+    if (fixedBytes) {
+      return { bytes: Number(fixedBytes[1]), packed: true };
+    }
+    const fixedPoint = type.match(/^u?fixed(?:(\d+)x\d+)?$/);
+    if (fixedPoint) {
+      return { bytes: Number(fixedPoint[1] || 128) / 8, packed: true };
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a user-defined type name: nested in the given contracts first, then
+   * at file level, then a contract or interface (stored as an address)
+   */
+  private resolve(type: string, context: string[]): ResolvedType | null {
+    const dot = type.lastIndexOf('.');
+    const name = dot === -1 ? type : type.substring(dot + 1);
+    const keys =
+      dot === -1
+        ? [...context.map((owner) => `${owner}.${name}`), name]
+        : [type, name]; // `Lib.S`, or an import alias in front of a file-level type
+
+    for (const key of keys) {
+      const struct = this.structs.get(key);
+      if (struct) return { kind: 'struct', ...struct };
+      const values = this.enums.get(key);
+      if (values !== undefined) return { kind: 'enum', values };
+      const underlyingType = this.valueTypes.get(key);
+      if (underlyingType) return { kind: 'value', underlyingType };
+    }
+
+    if (this.contracts.has(name)) {
+      return { kind: 'contract' };
+    }
+    return null;
+  }
+}
+
+export function computeStorageLayouts(contracts: SolidityContract[], fileScope: TypeScope): StorageLayout[] {
+  return new StorageLayoutCalculator(contracts, fileScope).computeAll();
+}
+
+/**
+ * Variables of the earlier layouts that moved, changed type or disappeared.
+ * Variables appended after the existing ones are not reported.
+ */
+export function compareStorageLayouts(
+  before: StorageLayout[],
+  after: StorageLayout[]
+): StorageLayoutChange[] {
+  const changes: StorageLayoutChange[] = [];
+
+  for (const previous of before) {
+    const current =
+      after.find((l) => l.contractName === previous.contractName && l.filePath === previous.filePath) ||
+      after.find((l) => l.contractName === previous.contractName);
+    if (!current) continue;
+
+    const currentEntries = new Map(current.entries.map((e) => [`${e.contractName}.${e.name}`, e]));
+    for (const entry of previous.entries) {
+      const variable = `${entry.contractName}.${entry.name}`;
+      const moved = currentEntries.get(variable);
+      const change = (issue: string) =>
+        changes.push({ contractName: previous.contractName, variable, issue });
+
+      if (!moved) {
+        change(`${variable} (slot ${entry.slot}) was removed`);
+      } else if (moved.slot !== entry.slot || moved.offset !== entry.offset) {
+        change(
+          `${variable} moved from slot ${entry.slot} offset ${entry.offset} to slot ${moved.slot} offset ${moved.offset}`
+        );
+      } else if (moved.type.replace(/\s+/g, '') !== entry.type.replace(/\s+/g, '')) {
+        change(`${variable} in slot ${entry.slot} changed type from ${entry.type} to ${moved.type}`);
+      }
+    }
+  }
+
+  return changes;
+}
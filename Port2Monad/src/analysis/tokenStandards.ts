@@ -0,0 +1,131 @@
+/**
+ * Token standards
+ * Which ERC token standards a contract satisfies, either because it exposes every
+ * function the standard requires or because it inherits an OpenZeppelin base that does
+ */
+
+import { TokenStandard } from '../types/index.js';
+
+interface StandardDefinition {
+  functions: string[]; // canonical signatures the standard requires
+  bases: string[]; // OpenZeppelin implementations
+  extends?: TokenStandard; // standard that must also hold
+}
+
+export const TOKEN_STANDARDS: Record<TokenStandard, StandardDefinition> = {
+  'ERC-20': {
+    functions: [
+      'totalSupply()',
+      'balanceOf(address)',
+      'transfer(address,uint256)',
+      'transferFrom(address,address,uint256)',
+      'approve(address,uint256)',
+      'allowance(address,address)',
+    ],
+    bases: ['ERC20', 'ERC20Upgradeable'],
+  },
+  'ERC-721': {
+    functions: [
+      'balanceOf(address)',
+      'ownerOf(uint256)',
+      'safeTransferFrom(address,address,uint256)',
+      'safeTransferFrom(address,address,uint256,bytes)',
+      'transferFrom(address,address,uint256)',
+      'approve(address,uint256)',
+      'setApprovalForAll(address,bool)',
+      'getApproved(uint256)',
+      'isApprovedForAll(address,address)',
+    ],
+    bases: ['ERC721', 'ERC721Upgradeable'],
+  },
+  'ERC-1155': {
+    functions: [
+      'balanceOf(address,uint256)',
+      'balanceOfBatch(address[],uint256[])',
+      'setApprovalForAll(address,bool)',
+      'isApprovedForAll(address,address)',
+      'safeTransferFrom(address,address,uint256,uint256,bytes)',
+      'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+    ],
+    bases: ['ERC1155', 'ERC1155Upgradeable'],
+  },
+  'ERC-4626': {
+    functions: [
+      'asset()',
+      'totalAssets()',
+      'convertToShares(uint256)',
+      'convertToAssets(uint256)',
+      'maxDeposit(address)',
+      'previewDeposit(uint256)',
+      'deposit(uint256,address)',
+      'maxMint(address)',
+      'previewMint(uint256)',
+      'mint(uint256,address)',
+      'maxWithdraw(address)',
+      'previewWithdraw(uint256)',
+      'withdraw(uint256,address,address)',
+      'maxRedeem(address)',
+      'previewRedeem(uint256)',
+      'redeem(uint256,address,address)',
+    ],
+    bases: ['ERC4626', 'ERC4626Upgradeable'],
+    extends: 'ERC-20',
+  },
+  'ERC-2612': {
+    functions: ['permit(address,address,uint256,uint256,uint8,bytes32,bytes32)', 'nonces(address)', 'DOMAIN_SEPARATOR()'],
+    bases: ['ERC20Permit', 'ERC20PermitUpgradeable'],
+    extends: 'ERC-20',
+  },
+  'ERC-777': {
+    functions: [
+      'name()',
+      'symbol()',
+      'granularity()',
+      'totalSupply()',
+      'balanceOf(address)',
+      'send(address,uint256,bytes)',
+      'burn(uint256,bytes)',
+      'isOperatorFor(address,address)',
+      'authorizeOperator(address)',
+      'revokeOperator(address)',
+      'defaultOperators()',
+      'operatorSend(address,address,uint256,bytes,bytes)',
+      'operatorBurn(address,uint256,bytes,bytes)',
+    ],
+    bases: ['ERC777', 'ERC777Upgradeable'],
+  },
+};
+
+/**
+ * Required functions of a standard, and of the standard it extends, that are missing
+ */
+export function missingStandardFunctions(standard: TokenStandard, functions: string[]): string[] {
+  const definition = TOKEN_STANDARDS[standard];
+  const required = [
+    ...(definition.extends ? TOKEN_STANDARDS[definition.extends].functions : []),
+    ...definition.functions,
+  ];
+  return Array.from(new Set(required)).filter((signature) => !functions.includes(signature));
+}
+
+/**
+ * Standards satisfied by a contract exposing `functions` with the named bases.
+ * Unresolved bases still count, since OpenZeppelin is often not part of the tree,
+ * and imply the standard theirs extends.
+ */
+export function detectTokenStandards(functions: string[], bases: string[]): TokenStandard[] {
+  const standards = Object.keys(TOKEN_STANDARDS) as TokenStandard[];
+  const satisfied = new Set(
+    standards.filter(
+      (standard) =>
+        missingStandardFunctions(standard, functions).length === 0 ||
+        TOKEN_STANDARDS[standard].bases.some((base) => bases.includes(base))
+    )
+  );
+  for (const standard of Array.from(satisfied)) {
+    const extended = TOKEN_STANDARDS[standard].extends;
+    if (extended) satisfied.add(extended);
+  }
+
+  return standards.filter((standard) => satisfied.has(standard));
+}
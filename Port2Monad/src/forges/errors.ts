@@ -0,0 +1,39 @@
+/**
+ * Forge API error types
+ * Lets callers distinguish missing repositories, auth failures and rate limiting
+ * regardless of which forge (GitHub, GitLab, Bitbucket, Gitea) the repository lives on
+ */
+
+export class ForgeError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ForgeError';
+    this.status = status;
+  }
+}
+
+export class ForgeNotFoundError extends ForgeError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'ForgeNotFoundError';
+  }
+}
+
+export class ForgeUnauthorizedError extends ForgeError {
+  constructor(message: string, status: number = 401) {
+    super(message, status);
+    this.name = 'ForgeUnauthorizedError';
+  }
+}
+
+export class ForgeRateLimitError extends ForgeError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, retryAfterSeconds?: number) {
+    super(message, status);
+    this.name = 'ForgeRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
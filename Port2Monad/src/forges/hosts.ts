@@ -0,0 +1,188 @@
+/**
+ * Forge host registry
+ * Maps repository URL hosts to the forge that serves them and its API base URL
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { ForgeKind } from '../types/index.js';
+
+export interface ForgeHost {
+  host: string; // hostname, with port when not the default
+  kind: ForgeKind;
+  webUrl: string; // base URL repository links are built from
+  apiUrl: string;
+}
+
+export interface ParsedForgeUrl {
+  forge: ForgeHost;
+  owner: string; // user, organization, workspace or (on GitLab) full group path
+  repo: string;
+  ref?: string;
+}
+
+const FORGE_KINDS: ForgeKind[] = ['github', 'gitlab', 'bitbucket', 'gitea'];
+
+// API path appended to the web URL of self-hosted instances without an explicit API URL
+const DEFAULT_API_PATHS: Record<ForgeKind, string> = {
+  github: '/api/v3',
+  gitlab: '/api/v4',
+  bitbucket: '/2.0',
+  gitea: '/api/v1',
+};
+
+function builtInHosts(): ForgeHost[] {
+  return [
+    { host: 'github.com', kind: 'github', webUrl: 'https://github.com', apiUrl: config.github.apiUrl },
+    { host: 'gitlab.com', kind: 'gitlab', webUrl: 'https://gitlab.com', apiUrl: 'https://gitlab.com/api/v4' },
+    { host: 'bitbucket.org', kind: 'bitbucket', webUrl: 'https://bitbucket.org', apiUrl: 'https://api.bitbucket.org/2.0' },
+    { host: 'gitea.com', kind: 'gitea', webUrl: 'https://gitea.com', apiUrl: 'https://gitea.com/api/v1' },
+    { host: 'codeberg.org', kind: 'gitea', webUrl: 'https://codeberg.org', apiUrl: 'https://codeberg.org/api/v1' },
+  ];
+}
+
+/**
+ * Parse one `host=kind[@apiUrl]` entry. The host may carry a scheme (`http://localhost:3000`),
+ * otherwise the scheme is taken from the API URL, defaulting to https.
+ */
+function parseHostEntry(entry: string): ForgeHost | null {
+  const match = entry.trim().match(/^(.+?)=(\w+)(?:@(.+))?$/);
+  if (!match || !FORGE_KINDS.includes(match[2] as ForgeKind)) {
+    logger.warn({ entry }, 'Ignoring invalid FORGE_HOSTS entry');
+    return null;
+  }
+
+  const kind = match[2] as ForgeKind;
+  const apiUrl = match[3]?.replace(/\/+$/, '');
+  const scheme = match[1].match(/^(https?):\/\//)?.[1] || (apiUrl?.startsWith('http://') ? 'http' : 'https');
+  const host = match[1].replace(/^https?:\/\//, '').replace(/\/+$/, '').toLowerCase();
+  const webUrl = `${scheme}://${host}`;
+
+  return { host, kind, webUrl, apiUrl: apiUrl || `${webUrl}${DEFAULT_API_PATHS[kind]}` };
+}
+
+const registeredHosts: ForgeHost[] = [];
+let configuredHosts: ForgeHost[] | null = null;
+
+/**
+ * Register a forge host at runtime (configured hosts take precedence over built-in ones)
+ */
+export function registerForgeHost(entry: string | ForgeHost): ForgeHost {
+  const forge = typeof entry === 'string' ? parseHostEntry(entry) : entry;
+  if (!forge) {
+    throw new Error(`Invalid forge host: ${entry}. Expected host=kind[@apiUrl]`);
+  }
+  registeredHosts.unshift(forge);
+  return forge;
+}
+
+export function getForgeHosts(): ForgeHost[] {
+  if (!configuredHosts) {
+    configuredHosts = config.forges.hosts
+      .split(',')
+      .filter((entry) => entry.trim())
+      .map(parseHostEntry)
+      .filter((forge): forge is ForgeHost => forge !== null);
+  }
+  return [...registeredHosts, ...configuredHosts, ...builtInHosts()];
+}
+
+export function findForgeHost(host: string): ForgeHost | undefined {
+  const normalized = host.toLowerCase();
+  return getForgeHosts().find((forge) => forge.host === normalized);
+}
+
+/**
+ * Extract owner, repository and optional ref from a forge web URL path.
+ * Each forge links to branches differently:
+ *   GitHub    /owner/repo/tree/<ref>
+ *   GitLab    /group/subgroup/repo/-/tree/<ref>
+ *   Bitbucket /workspace/repo/src/<ref>
+ *   Gitea     /owner/repo/src/branch/<ref> (or tag/, commit/)
+ */
+function parseRepositoryPath(
+  kind: ForgeKind,
+  segments: string[]
+): Omit<ParsedForgeUrl, 'forge'> | null {
+  let repoSegments = segments;
+  let ref: string | undefined;
+
+  switch (kind) {
+    case 'gitlab': {
+      const separator = segments.indexOf('-');
+      if (separator !== -1) {
+        repoSegments = segments.slice(0, separator);
+        if (segments[separator + 1] === 'tree') {
+          ref = segments.slice(separator + 2).join('/') || undefined;
+        }
+      }
+      break;
+    }
+    case 'github':
+      repoSegments = segments.slice(0, 2);
+      if (segments[2] === 'tree') {
+        ref = segments.slice(3).join('/') || undefined;
+      }
+      break;
+    case 'bitbucket':
+      repoSegments = segments.slice(0, 2);
+      if (segments[2] === 'src') {
+        ref = segments[3];
+      }
+      break;
+    case 'gitea':
+      repoSegments = segments.slice(0, 2);
+      if (segments[2] === 'src' && ['branch', 'tag', 'commit'].includes(segments[3])) {
+        ref = segments.slice(4).join('/') || undefined;
+      }
+      break;
+  }
+
+  if (repoSegments.length < 2) {
+    return null;
+  }
+
+  return {
+    owner: repoSegments.slice(0, -1).join('/'),
+    repo: repoSegments[repoSegments.length - 1].replace(/\.git$/, ''),
+    ref,
+  };
+}
+
+/**
+ * Resolve a repository URL on a known forge host, or null if the host isn't a registered forge.
+ * The scheme is optional (`gitlab.com/group/repo` is accepted).
+ */
+export function parseForgeUrl(repoUrl: string): ParsedForgeUrl | null {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(repoUrl) ? repoUrl : `https://${repoUrl}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  const forge = findForgeHost(url.host);
+  if (!forge) {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const parsed = parseRepositoryPath(forge.kind, segments);
+  if (!parsed) {
+    throw new Error(`Invalid ${forge.kind} repository URL: ${repoUrl}. Expected ${forge.webUrl}/owner/repo`);
+  }
+
+  return { forge, ...parsed };
+}
+
+/**
+ * Canonical web URL of a repository on a forge
+ */
+export function forgeRepositoryUrl(forge: ForgeHost, owner: string, repo: string): string {
+  return `${forge.webUrl}/${owner}/${repo}`;
+}
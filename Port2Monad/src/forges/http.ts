@@ -0,0 +1,221 @@
+/**
+ * Forge HTTP client
+ * Shared GET plumbing for forge REST APIs: ETag revalidation, retry with backoff
+ * on rate limits, server errors and network failures, and typed error mapping
+ */
+
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import {
+  ForgeError,
+  ForgeNotFoundError,
+  ForgeRateLimitError,
+  ForgeUnauthorizedError,
+} from './errors.js';
+
+const MAX_CACHED_RESPONSES = 1000;
+const BASE_BACKOFF_MS = 1000;
+
+interface CachedResponse {
+  etag: string;
+  data: unknown;
+}
+
+// Shared across client instances; conditional requests answered with 304 don't count against rate limits
+const responseCache = new Map<string, CachedResponse>();
+
+function cacheResponse(key: string, etag: string, data: unknown): void {
+  responseCache.delete(key);
+  responseCache.set(key, { etag, data });
+  if (responseCache.size > MAX_CACHED_RESPONSES) {
+    const oldestKey = responseCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      responseCache.delete(oldestKey);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRateLimitResponse(response: AxiosResponse): boolean {
+  if (response.status === 429) {
+    return true;
+  }
+  if (response.status !== 403) {
+    return false;
+  }
+  const message = (response.data as { message?: string } | undefined)?.message || '';
+  return (
+    response.headers['x-ratelimit-remaining'] === '0' ||
+    response.headers['ratelimit-remaining'] === '0' ||
+    response.headers['retry-after'] !== undefined ||
+    /rate limit/i.test(message)
+  );
+}
+
+/**
+ * Seconds to wait before retrying a rate-limited request.
+ * Reads Retry-After, then the reset timestamp (X-RateLimit-Reset on GitHub/Gitea, RateLimit-Reset on GitLab).
+ */
+function getRateLimitWaitSeconds(response: AxiosResponse): number | undefined {
+  const retryAfter = response.headers['retry-after'];
+  if (retryAfter !== undefined) {
+    const seconds = parseInt(String(retryAfter), 10);
+    if (!isNaN(seconds)) {
+      return seconds;
+    }
+  }
+
+  const reset = response.headers['x-ratelimit-reset'] ?? response.headers['ratelimit-reset'];
+  if (reset !== undefined) {
+    const resetAt = parseInt(String(reset), 10) * 1000;
+    if (!isNaN(resetAt)) {
+      return Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert an axios failure into a typed forge error
+ */
+export function toForgeError(error: unknown, message: string): ForgeError {
+  if (error instanceof ForgeError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error) || !error.response) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return new ForgeError(`${message}: ${reason}`);
+  }
+
+  const { response } = error;
+  if (isRateLimitResponse(response)) {
+    const waitSeconds = getRateLimitWaitSeconds(response);
+    return new ForgeRateLimitError(
+      `${message}: rate limit exceeded${waitSeconds !== undefined ? `, retry after ${waitSeconds}s` : ''}`,
+      response.status,
+      waitSeconds
+    );
+  }
+
+  switch (response.status) {
+    case 404:
+      return new ForgeNotFoundError(`${message}: not found`);
+    case 401:
+      return new ForgeUnauthorizedError(`${message}: authentication required or token invalid`);
+    case 403:
+      return new ForgeUnauthorizedError(`${message}: access forbidden`, 403);
+    default:
+      return new ForgeError(`${message}: server responded with ${response.status}`, response.status);
+  }
+}
+
+export class ForgeHttpClient {
+  private _client: AxiosInstance;
+
+  constructor(baseURL: string, headers: Record<string, string> = {}) {
+    this._client = axios.create({
+      baseURL,
+      headers,
+      timeout: config.github.timeout,
+      // 304 means our cached response is still current
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    });
+  }
+
+  /**
+   * GET with ETag revalidation and retry on rate limits, server errors and network failures
+   */
+  async get<T>(
+    url: string,
+    options: AxiosRequestConfig = {},
+    conditional: boolean = true
+  ): Promise<T> {
+    const cacheKey = conditional
+      ? `${this._client.defaults.baseURL} ${url} ${JSON.stringify(options.params || {})} ${JSON.stringify(options.headers || {})}`
+      : null;
+
+    for (let attempt = 0; ; attempt++) {
+      const cached = cacheKey ? responseCache.get(cacheKey) : undefined;
+
+      try {
+        const response = await this._client.get<T>(url, {
+          ...options,
+          headers: {
+            ...options.headers,
+            ...(cached ? { 'If-None-Match': cached.etag } : {}),
+          },
+        });
+
+        if (response.status === 304 && cached) {
+          logger.debug({ url }, 'Forge response not modified, using cache');
+          return cached.data as T;
+        }
+
+        const etag = response.headers.etag;
+        if (cacheKey && typeof etag === 'string') {
+          cacheResponse(cacheKey, etag, response.data);
+        }
+
+        return response.data;
+      } catch (error) {
+        const delayMs = this.getRetryDelay(error, attempt);
+        if (delayMs === null) {
+          throw error;
+        }
+        logger.warn({ url, attempt: attempt + 1, delayMs }, 'Forge request failed, retrying');
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * GET that logs failures and rethrows them as typed forge errors
+   */
+  async request<T>(
+    description: string,
+    url: string,
+    options: AxiosRequestConfig = {},
+    conditional: boolean = true
+  ): Promise<T> {
+    try {
+      return await this.get<T>(url, options, conditional);
+    } catch (error) {
+      logger.error({ error, url }, `Forge request failed`);
+      throw toForgeError(error, `Failed to ${description}`);
+    }
+  }
+
+  /**
+   * Milliseconds to wait before retrying, or null if the failure should not be retried
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= config.github.maxRetries || !axios.isAxiosError(error)) {
+      return null;
+    }
+
+    const backoffMs = BASE_BACKOFF_MS * 2 ** attempt + Math.floor(Math.random() * 250);
+
+    // Network errors and timeouts
+    if (!error.response) {
+      return backoffMs;
+    }
+
+    if (isRateLimitResponse(error.response)) {
+      const waitSeconds = getRateLimitWaitSeconds(error.response);
+      const delayMs = waitSeconds !== undefined ? waitSeconds * 1000 + 250 : backoffMs;
+      // Don't hold a request open until a far-off reset; surface the rate limit instead
+      return delayMs <= config.github.maxRetryWaitMs ? delayMs : null;
+    }
+
+    if (error.response.status >= 500) {
+      return backoffMs;
+    }
+
+    return null;
+  }
+}
@@ -3,9 +3,10 @@
  * Handles interactions with GitHub repositories
  */
 
-import axios, { AxiosInstance } from 'axios';
 import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
 import { RepositoryMetadata } from '../types/index.js';
+import { ForgeHttpClient, toForgeError } from '../forges/http.js';
 
 interface GitHubRepoResponse {
   owner: {
@@ -20,6 +21,24 @@ interface GitHubRepoResponse {
   size: number;
 }
 
+interface GitHubCommitResponse {
+  sha: string;
+}
+
+interface GitHubTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+interface GitHubTreeResponse {
+  sha: string;
+  tree: GitHubTreeEntry[];
+  truncated: boolean;
+}
+
 interface GitHubContentResponse {
   name: string;
   path: string;
@@ -29,9 +48,9 @@ interface GitHubContentResponse {
 }
 
 export class GitHubClient {
-  private _client: AxiosInstance;
+  private _client: ForgeHttpClient;
 
-  constructor(token?: string) {
+  constructor(token?: string, baseUrl: string = config.github.apiUrl) {
     const headers: Record<string, string> = {
       Accept: 'application/vnd.github.v3+json',
     };
@@ -41,24 +60,19 @@ export class GitHubClient {
       headers.Authorization = `token ${token}`;
     }
 
-    this._client = axios.create({
-      baseURL: 'https://api.github.com',
-      headers,
-      timeout: 10000,
-    });
+    this._client = new ForgeHttpClient(baseUrl, headers);
 
-    logger.info('GitHubClient initialized');
+    logger.info({ baseUrl }, 'GitHubClient initialized');
   }
 
   async getRepository(owner: string, repo: string): Promise<RepositoryMetadata> {
     logger.debug({ owner, repo }, `Fetching repository metadata`);
 
     try {
-      const response = await this._client.get<GitHubRepoResponse>(
+      const data = await this._client.get<GitHubRepoResponse>(
         `/repos/${owner}/${repo}`
       );
 
-      const data = response.data;
       return {
         owner: data.owner.login,
         name: data.name,
@@ -71,62 +85,124 @@ export class GitHubClient {
       };
     } catch (error) {
       logger.error({ error, owner, repo }, `Failed to fetch repository metadata`);
-      throw new Error(`Failed to fetch repository ${owner}/${repo}`);
+      throw toForgeError(error, `Failed to fetch repository ${owner}/${repo}`);
+    }
+  }
+
+  async getCommitSha(owner: string, repo: string, ref: string): Promise<string> {
+    logger.debug({ owner, repo, ref }, `Resolving commit for ref`);
+
+    try {
+      const commit = await this._client.get<GitHubCommitResponse>(
+        `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`
+      );
+
+      return commit.sha;
+    } catch (error) {
+      logger.error({ error, owner, repo, ref }, `Failed to resolve ref`);
+      throw toForgeError(error, `Failed to resolve ref ${ref} in ${owner}/${repo}`);
     }
   }
 
   async getRepositoryContents(
     owner: string,
     repo: string,
-    path: string = ''
+    path: string = '',
+    ref?: string
   ): Promise<GitHubContentResponse[]> {
-    logger.debug({ owner, repo, path }, `Fetching repository contents`);
+    logger.debug({ owner, repo, path, ref }, `Fetching repository contents`);
 
     try {
-      const response = await this._client.get<GitHubContentResponse[]>(
+      return await this._client.get<GitHubContentResponse[]>(
         `/repos/${owner}/${repo}/contents/${path}`,
         {
           params: {
             per_page: 100,
+            ref,
           },
         }
       );
-
-      return response.data;
     } catch (error) {
       logger.error(
         { error, owner, repo, path },
         `Failed to fetch repository contents`
       );
-      throw new Error(`Failed to fetch contents from ${owner}/${repo}/${path}`);
+      throw toForgeError(error, `Failed to fetch contents from ${owner}/${repo}/${path}`);
+    }
+  }
+
+  /**
+   * Fetch the whole tree in one request via the git trees API.
+   * GitHub truncates very large trees; callers must check `truncated`.
+   */
+  async getRecursiveTree(
+    owner: string,
+    repo: string,
+    treeish: string
+  ): Promise<GitHubTreeResponse> {
+    logger.debug({ owner, repo, treeish }, `Fetching recursive tree`);
+
+    try {
+      return await this._client.get<GitHubTreeResponse>(
+        `/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeish)}`,
+        {
+          params: {
+            recursive: 1,
+          },
+        }
+      );
+    } catch (error) {
+      logger.error({ error, owner, repo, treeish }, `Failed to fetch recursive tree`);
+      throw toForgeError(error, `Failed to fetch tree ${treeish} from ${owner}/${repo}`);
+    }
+  }
+
+  /**
+   * Download the repository at a ref as a gzipped tarball
+   */
+  async getTarball(owner: string, repo: string, ref: string): Promise<Buffer> {
+    logger.debug({ owner, repo, ref }, `Downloading repository tarball`);
+
+    try {
+      const data = await this._client.get<ArrayBuffer>(
+        `/repos/${owner}/${repo}/tarball/${encodeURIComponent(ref)}`,
+        {
+          responseType: 'arraybuffer',
+          timeout: 120000,
+        },
+        false
+      );
+
+      return Buffer.from(data);
+    } catch (error) {
+      logger.error({ error, owner, repo, ref }, `Failed to download tarball`);
+      throw toForgeError(error, `Failed to download tarball for ${owner}/${repo}@${ref}`);
     }
   }
 
   async getFileContent(
     owner: string,
     repo: string,
-    path: string
+    path: string,
+    ref?: string
   ): Promise<string> {
-    logger.debug({ owner, repo, path }, `Fetching file content`);
+    logger.debug({ owner, repo, path, ref }, `Fetching file content`);
 
     try {
-      const response = await this._client.get(
+      return await this._client.get<string>(
         `/repos/${owner}/${repo}/contents/${path}`,
         {
+          params: {
+            ref,
+          },
           headers: {
             Accept: 'application/vnd.github.v3.raw',
           },
         }
       );
-
-      return response.data as string;
     } catch (error) {
       logger.error({ error, owner, repo, path }, `Failed to fetch file content`);
-      throw new Error(`Failed to fetch file ${owner}/${repo}/${path}`);
+      throw toForgeError(error, `Failed to fetch file ${owner}/${repo}/${path}`);
     }
   }
 }
-
-export function createGitHubClient(token?: string): GitHubClient {
-  return new GitHubClient(token);
-}
@@ -0,0 +1,101 @@
+/**
+ * File content store
+ * Keeps fetched repository file contents in memory, keyed by path and blob SHA,
+ * so each file is downloaded at most once per pipeline run
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { gitBlobSha } from '../utils/hash.js';
+import { RepositoryDirectory } from '../types/index.js';
+import { readTarball } from './tarball.js';
+
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+export class ContentStore {
+  private entries: Map<string, string> = new Map();
+  private totalBytes: number = 0;
+  private maxBytes: number;
+
+  constructor(maxBytes: number = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  private key(path: string, sha: string): string {
+    return `${path}@${sha}`;
+  }
+
+  get(path: string, sha: string): string | undefined {
+    return this.entries.get(this.key(path, sha));
+  }
+
+  has(path: string, sha: string): boolean {
+    return this.entries.has(this.key(path, sha));
+  }
+
+  set(path: string, sha: string, content: string): void {
+    const key = this.key(path, sha);
+    if (this.entries.has(key)) {
+      return;
+    }
+
+    const bytes = Buffer.byteLength(content, 'utf8');
+    if (bytes > this.maxBytes) {
+      return;
+    }
+
+    // Evict oldest entries (insertion order) until the new content fits
+    for (const [oldKey, oldContent] of this.entries) {
+      if (this.totalBytes + bytes <= this.maxBytes) break;
+      this.entries.delete(oldKey);
+      this.totalBytes -= Buffer.byteLength(oldContent, 'utf8');
+    }
+
+    this.entries.set(key, content);
+    this.totalBytes += bytes;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Load file contents from a repository tarball.
+   * When `root` is given, only files present in the ingested tree are kept.
+   * Returns the number of files stored.
+   */
+  loadTarball(
+    archive: Buffer,
+    options: { stripComponents?: number; root?: RepositoryDirectory } = {}
+  ): number {
+    const wanted = options.root ? collectFilePaths(options.root) : null;
+    const files = readTarball(archive, options.stripComponents || 0);
+
+    let loaded = 0;
+    for (const [path, data] of files) {
+      if (wanted && !wanted.has(path)) continue;
+      this.set(path, gitBlobSha(data), data.toString('utf8'));
+      loaded++;
+    }
+
+    logger.debug({ archiveFiles: files.size, loaded }, 'Loaded tarball into content store');
+    return loaded;
+  }
+}
+
+function collectFilePaths(dir: RepositoryDirectory, paths: Set<string> = new Set()): Set<string> {
+  for (const file of dir.files) {
+    paths.add(file.path);
+  }
+  for (const subdir of dir.subdirectories) {
+    collectFilePaths(subdir, paths);
+  }
+  return paths;
+}
+
+export const contentStore = new ContentStore(config.ingestion.contentStoreMaxBytes);
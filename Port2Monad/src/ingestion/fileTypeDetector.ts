@@ -2,7 +2,7 @@
  * File type detection and categorization logic
  */
 
-import { FileType } from '../types/index.js';
+import { FileRole, FileType, ProjectLayout } from '../types/index.js';
 
 const SOLIDITY_EXTENSIONS = ['.sol'];
 const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx'];
@@ -68,6 +68,48 @@ export function detectFileType(filename: string): FileType {
   return 'other';
 }
 
+export const FILE_ROLES: FileRole[] = ['source', 'test', 'script', 'dependency', 'mock'];
+
+// Roles the planner and transformer target unless a request asks for more
+export const DEFAULT_TARGET_ROLES: FileRole[] = ['source'];
+
+// Conventional directory names, used when a file isn't covered by a detected project layout
+const DEPENDENCY_DIRECTORIES = new Set(['lib', 'node_modules', 'vendor', 'dependencies', '.deps']);
+const TEST_DIRECTORIES = new Set(['test', 'tests']);
+const SCRIPT_DIRECTORIES = new Set(['script', 'scripts', 'migrations']);
+const MOCK_DIRECTORIES = new Set(['mock', 'mocks']);
+
+function isUnderRoot(filePath: string, root: string): boolean {
+  return root !== '' && filePath.startsWith(`${root}/`);
+}
+
+/**
+ * Classify a file by what it's for. Vendored libraries win over everything else
+ * (a mock inside lib/ is still a dependency), then mocks, tests and scripts.
+ */
+export function detectFileRole(filePath: string, projects: ProjectLayout[] = []): FileRole {
+  const segments = filePath.split('/');
+  const fileName = segments.pop() || '';
+  const dirs = segments.map((segment) => segment.toLowerCase());
+
+  const underAny = (select: (project: ProjectLayout) => string[]) =>
+    projects.some((project) => select(project).some((root) => isUnderRoot(filePath, root)));
+
+  if (underAny((p) => p.libRoots) || dirs.some((dir) => DEPENDENCY_DIRECTORIES.has(dir))) {
+    return 'dependency';
+  }
+  if (/^mock|mock\.sol$/i.test(fileName) || dirs.some((dir) => MOCK_DIRECTORIES.has(dir))) {
+    return 'mock';
+  }
+  if (/\.t\.sol$/.test(fileName) || underAny((p) => p.testRoots) || dirs.some((dir) => TEST_DIRECTORIES.has(dir))) {
+    return 'test';
+  }
+  if (/\.s\.sol$/.test(fileName) || underAny((p) => p.scriptRoots) || dirs.some((dir) => SCRIPT_DIRECTORIES.has(dir))) {
+    return 'script';
+  }
+  return 'source';
+}
+
 export function shouldIgnoreDirectory(dirName: string): boolean {
   return IGNORE_DIRECTORIES.has(dirName);
 }
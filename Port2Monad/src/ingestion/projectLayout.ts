@@ -0,0 +1,397 @@
+/**
+ * Project layout detection
+ * Finds Foundry, Hardhat and Truffle projects from their config files and records
+ * where sources, tests, scripts and vendored libraries live, plus import remappings
+ */
+
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import {
+  ImportRemapping,
+  ProjectFramework,
+  ProjectLayout,
+  RepositoryDirectory,
+  RepositoryFile,
+} from '../types/index.js';
+import type { RepositorySource } from './sources/index.js';
+
+const MAX_CONFIG_DEPTH = 3;
+
+const FRAMEWORK_DEFAULTS: Record<
+  ProjectFramework,
+  { sources: string; tests: string; scripts: string; libs: string[] }
+> = {
+  foundry: { sources: 'src', tests: 'test', scripts: 'script', libs: ['lib'] },
+  hardhat: { sources: 'contracts', tests: 'test', scripts: 'scripts', libs: ['node_modules'] },
+  truffle: { sources: 'contracts', tests: 'test', scripts: 'migrations', libs: ['node_modules'] },
+};
+
+interface ConfigFile {
+  file: RepositoryFile;
+  framework?: ProjectFramework; // absent for remappings.txt
+}
+
+interface FrameworkPaths {
+  sources?: string;
+  tests?: string;
+  scripts?: string;
+  libs?: string[];
+  remappings?: string[];
+  compilerVersion?: string;
+  evmVersion?: string;
+}
+
+function getConfigFramework(fileName: string): ProjectFramework | null | undefined {
+  if (fileName === 'foundry.toml') return 'foundry';
+  if (/^hardhat\.config\.(js|cjs|mjs|ts|cts)$/.test(fileName)) return 'hardhat';
+  if (fileName === 'truffle-config.js' || fileName === 'truffle.js') return 'truffle';
+  if (fileName === 'remappings.txt') return null;
+  return undefined;
+}
+
+export function isProjectConfigFile(fileName: string): boolean {
+  return getConfigFramework(fileName) !== undefined;
+}
+
+/**
+ * Join a project-relative path onto the project root; '' is the repository root
+ */
+function joinRoot(root: string, relative: string): string {
+  const joined = path.posix.normalize(path.posix.join(root || '.', relative)).replace(/\/+$/, '');
+  return joined === '.' ? '' : joined;
+}
+
+function isUnder(filePath: string, dir: string): boolean {
+  return dir === '' || filePath === dir || filePath.startsWith(`${dir}/`);
+}
+
+function collectConfigFiles(
+  dir: RepositoryDirectory,
+  depth: number,
+  found: Map<string, ConfigFile[]>
+): void {
+  for (const file of dir.files) {
+    const framework = getConfigFramework(file.name);
+    if (framework === undefined) continue;
+    const entries = found.get(dir.path) || [];
+    entries.push({ file, framework: framework || undefined });
+    found.set(dir.path, entries);
+  }
+  if (depth < MAX_CONFIG_DEPTH) {
+    for (const subdir of dir.subdirectories) {
+      collectConfigFiles(subdir, depth + 1, found);
+    }
+  }
+}
+
+function findDirectory(root: RepositoryDirectory, dirPath: string): RepositoryDirectory | null {
+  if (root.path === dirPath) {
+    return root;
+  }
+  for (const subdir of root.subdirectories) {
+    if (isUnder(dirPath, subdir.path)) {
+      return findDirectory(subdir, dirPath);
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract the string values of an assignment right-hand side (`"a"` or `["a", 'b']`)
+ */
+function readStrings(value: string): string[] {
+  return Array.from(value.matchAll(/["']([^"']*)["']/g), (match) => match[1]);
+}
+
+/**
+ * Read `[profile.default]` (or top-level) path and compiler settings from foundry.toml.
+ * Only the handful of keys that affect layout and compilation are understood.
+ */
+export function parseFoundryToml(content: string): FrameworkPaths {
+  const settings: Record<string, string[]> = {};
+  let section = '';
+  let pending: { key: string; value: string } | null = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+
+    // Arrays may span several lines
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (line.includes(']')) {
+        settings[pending.key] = readStrings(pending.value);
+        pending = null;
+      }
+      continue;
+    }
+
+    const sectionMatch = line.match(/^\[([^\]]+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim();
+      continue;
+    }
+    if (section !== '' && section !== 'profile.default') {
+      continue;
+    }
+
+    const assignment = line.match(/^([\w-]+)\s*=\s*(.+)$/);
+    if (!assignment) continue;
+    const [, key, value] = assignment;
+    if (value.startsWith('[') && !value.includes(']')) {
+      pending = { key, value };
+      continue;
+    }
+    settings[key] = readStrings(value);
+  }
+
+  return {
+    sources: settings.src?.[0],
+    tests: settings.test?.[0],
+    scripts: settings.script?.[0],
+    libs: settings.libs,
+    remappings: settings.remappings,
+    compilerVersion: (settings.solc_version || settings.solc)?.[0],
+    evmVersion: settings.evm_version?.[0],
+  };
+}
+
+/**
+ * The compiler version and EVM target of a Hardhat or Truffle config. Only the first
+ * compiler is read when several are configured.
+ */
+function readCompilerSettings(content: string): Pick<FrameworkPaths, 'compilerVersion' | 'evmVersion'> {
+  const compilerVersion =
+    content.match(/\bsolidity\s*:\s*["'`](\d+\.\d+\.\d+)["'`]/)?.[1] ||
+    content.match(/\bversion\s*:\s*["'`](\d+\.\d+\.\d+)["'`]/)?.[1];
+  const evmVersion = content.match(/\bevmVersion\s*:\s*["'`](\w+)["'`]/)?.[1];
+  return { compilerVersion, evmVersion };
+}
+
+/**
+ * Read the `paths` block and compiler settings of a Hardhat config. Paths built with
+ * path.join() or other expressions aren't evaluated and fall back to the defaults.
+ */
+export function parseHardhatConfig(content: string): FrameworkPaths {
+  const pathsBlock = content.match(/paths\s*:\s*\{([^}]*)\}/)?.[1] || '';
+  const read = (key: string) =>
+    pathsBlock.match(new RegExp(`\\b${key}\\s*:\\s*["'\`]([^"'\`]+)["'\`]`))?.[1];
+
+  return { sources: read('sources'), tests: read('tests'), ...readCompilerSettings(content) };
+}
+
+export function parseTruffleConfig(content: string): FrameworkPaths {
+  const read = (key: string) =>
+    content.match(new RegExp(`\\b${key}\\s*:\\s*["'\`]([^"'\`]+)["'\`]`))?.[1];
+
+  return {
+    sources: read('contracts_directory'),
+    tests: read('test_directory'),
+    scripts: read('migrations_directory'),
+    ...readCompilerSettings(content),
+  };
+}
+
+/**
+ * Parse remapping lines (`[context:]prefix=target`). Targets are made repository-relative.
+ */
+export function parseRemappings(
+  lines: string[],
+  projectRoot: string,
+  origin: ImportRemapping['origin']
+): ImportRemapping[] {
+  const remappings: ImportRemapping[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+
+    let prefix = line.substring(0, separator).trim();
+    const target = line.substring(separator + 1).trim();
+    let context: string | undefined;
+
+    const contextSeparator = prefix.indexOf(':');
+    if (contextSeparator !== -1) {
+      context = joinRoot(projectRoot, prefix.substring(0, contextSeparator));
+      prefix = prefix.substring(contextSeparator + 1);
+    }
+    if (!prefix || !target) continue;
+
+    // Keep the trailing slash so `@oz/` doesn't match `@ozone/`
+    const resolvedTarget = joinRoot(projectRoot, target) + (target.endsWith('/') ? '/' : '');
+    remappings.push({ context, prefix, target: resolvedTarget, origin });
+  }
+
+  return remappings;
+}
+
+export class ProjectLayoutDetector {
+  private source: RepositorySource;
+  private warnings: string[] = [];
+
+  constructor(source: RepositorySource) {
+    this.source = source;
+  }
+
+  /**
+   * Detect every project in the repository. Config files inside another project's
+   * library directories (e.g. lib/forge-std/foundry.toml) belong to dependencies, not projects.
+   */
+  async detect(root: RepositoryDirectory): Promise<{ projects: ProjectLayout[]; warnings: string[] }> {
+    this.warnings = [];
+
+    const configsByDir = new Map<string, ConfigFile[]>();
+    collectConfigFiles(root, 0, configsByDir);
+
+    const projectDirs = Array.from(configsByDir.keys()).sort(
+      (a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b)
+    );
+
+    const projects: ProjectLayout[] = [];
+    for (const dir of projectDirs) {
+      const insideLibrary = projects.some((project) =>
+        project.libRoots.some((libRoot) => isUnder(dir, libRoot))
+      );
+      if (insideLibrary) continue;
+
+      projects.push(await this.buildProject(root, dir, configsByDir.get(dir)!));
+    }
+
+    logger.debug(
+      { projects: projects.map((p) => ({ root: p.root, frameworks: p.frameworks })) },
+      'Detected project layouts'
+    );
+
+    return { projects, warnings: this.warnings };
+  }
+
+  private async buildProject(
+    repoRoot: RepositoryDirectory,
+    projectRoot: string,
+    configs: ConfigFile[]
+  ): Promise<ProjectLayout> {
+    const frameworks: ProjectFramework[] = [];
+    const sourceRoots = new Set<string>();
+    const testRoots = new Set<string>();
+    const scriptRoots = new Set<string>();
+    const libRoots = new Set<string>();
+    const explicit: ImportRemapping[] = [];
+    let compilerVersion: string | undefined;
+    let evmVersion: string | undefined;
+
+    for (const config of configs) {
+      if (!config.framework) {
+        const content = await this.readConfig(config.file);
+        explicit.push(...parseRemappings(content.split('\n'), projectRoot, 'remappings.txt'));
+        continue;
+      }
+
+      const framework = config.framework;
+      if (!frameworks.includes(framework)) {
+        frameworks.push(framework);
+      }
+
+      const content = await this.readConfig(config.file);
+      const paths =
+        framework === 'foundry'
+          ? parseFoundryToml(content)
+          : framework === 'hardhat'
+            ? parseHardhatConfig(content)
+            : parseTruffleConfig(content);
+      const defaults = FRAMEWORK_DEFAULTS[framework];
+
+      sourceRoots.add(joinRoot(projectRoot, paths.sources || defaults.sources));
+      testRoots.add(joinRoot(projectRoot, paths.tests || defaults.tests));
+      scriptRoots.add(joinRoot(projectRoot, paths.scripts || defaults.scripts));
+      for (const lib of paths.libs || defaults.libs) {
+        libRoots.add(joinRoot(projectRoot, lib));
+      }
+      if (paths.remappings) {
+        explicit.push(...parseRemappings(paths.remappings, projectRoot, 'foundry.toml'));
+      }
+      compilerVersion = compilerVersion || paths.compilerVersion;
+      evmVersion = evmVersion || paths.evmVersion;
+    }
+
+    const inferred = await this.inferLibraryRemappings(repoRoot, Array.from(libRoots));
+
+    // Explicit remappings win over inferred ones with the same prefix
+    const remappings = [...explicit];
+    for (const remapping of inferred) {
+      if (!remappings.some((r) => r.prefix === remapping.prefix && r.context === remapping.context)) {
+        remappings.push(remapping);
+      }
+    }
+
+    return {
+      root: projectRoot,
+      frameworks,
+      configFiles: configs.map((c) => c.file.path),
+      sourceRoots: Array.from(sourceRoots),
+      testRoots: Array.from(testRoots),
+      scriptRoots: Array.from(scriptRoots),
+      libRoots: Array.from(libRoots),
+      remappings,
+      compilerVersion,
+      evmVersion,
+    };
+  }
+
+  /**
+   * Mirror Foundry's automatic remappings for vendored libraries: a library's own
+   * remappings.txt is honored, and `<name>/` maps to its src/ directory (or its root).
+   */
+  private async inferLibraryRemappings(
+    repoRoot: RepositoryDirectory,
+    libRoots: string[]
+  ): Promise<ImportRemapping[]> {
+    const remappings: ImportRemapping[] = [];
+
+    for (const libRoot of libRoots) {
+      const libDir = findDirectory(repoRoot, libRoot);
+      if (!libDir) continue;
+
+      for (const library of libDir.subdirectories) {
+        const remappingsFile = library.files.find((f) => f.name === 'remappings.txt');
+        if (remappingsFile) {
+          const content = await this.readConfig(remappingsFile);
+          remappings.push(
+            ...parseRemappings(content.split('\n'), library.path, 'inferred').map((r) => ({
+              ...r,
+              context: undefined,
+            }))
+          );
+        }
+
+        const hasSrc = library.subdirectories.some((d) => d.name === 'src');
+        remappings.push({
+          prefix: `${library.name}/`,
+          target: `${hasSrc ? `${library.path}/src` : library.path}/`,
+          origin: 'inferred',
+        });
+      }
+    }
+
+    return remappings;
+  }
+
+  private async readConfig(file: RepositoryFile): Promise<string> {
+    try {
+      return await this.source.readFile(file.path, file.sha);
+    } catch (error) {
+      logger.warn({ error, file: file.path }, 'Failed to read project config');
+      this.warnings.push(
+        `Failed to read project config ${file.path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return '';
+    }
+  }
+}
+
+export async function detectProjectLayouts(
+  root: RepositoryDirectory,
+  source: RepositorySource
+): Promise<{ projects: ProjectLayout[]; warnings: string[] }> {
+  const detector = new ProjectLayoutDetector(source);
+  return detector.detect(root);
+}
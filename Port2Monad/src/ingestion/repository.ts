@@ -1,160 +1,354 @@
 /**
  * Repository ingestion module
- * Fetches and parses GitHub repositories into structured format
+ * Fetches and parses repositories into structured format
  */
 
-import { GitHubClient } from '../github/client.js';
 import { logger } from '../utils/logger.js';
 import {
   RepositoryTree,
   RepositoryFile,
   RepositoryDirectory,
+  IngestionFilters,
+  IngestionMode,
+  ProjectLayout,
 } from '../types/index.js';
+import { config } from '../utils/config.js';
+import { GlobMatcher, parseIgnoreFile } from '../utils/glob.js';
 import {
   getFileExtension,
   detectFileType,
+  detectFileRole,
   shouldIgnoreDirectory,
   shouldIgnoreFile,
 } from './fileTypeDetector.js';
+import {
+  RepositorySource,
+  RepositorySourceOptions,
+  SourceEntry,
+  createRepositorySource,
+} from './sources/index.js';
+import { ContentStore, contentStore } from './contentStore.js';
+import { detectProjectLayouts, isProjectConfigFile } from './projectLayout.js';
+import { ForgeRateLimitError } from '../forges/errors.js';
 
-const MAX_RECURSION_DEPTH = 10;
-const MAX_FILES_TO_FETCH = 5000;
+// Gitignore-style patterns at the repository root that are never ingested
+const IGNORE_FILE_NAME = '.port2monadignore';
 
-interface ParsedRepoUrl {
-  owner: string;
-  repo: string;
+export interface IngestOptions extends Omit<RepositorySourceOptions, 'githubToken'> {
+  mode?: IngestionMode;
+  prefetch?: boolean; // download the repository archive into the content store
+  contentStore?: ContentStore;
+  include?: string[]; // glob patterns files must match; project config files are always kept
+  exclude?: string[]; // glob patterns of files and directories to skip
+  maxFiles?: number;
+  maxDepth?: number;
+  maxBytes?: number; // 0 for no byte budget
 }
 
-function parseRepositoryUrl(repoUrl: string): ParsedRepoUrl {
-  // Handle URLs like:
-  // https://github.com/owner/repo
-  // https://github.com/owner/repo/
-  // github.com/owner/repo
-  const match = repoUrl.match(/github\.com\/([^/]+)\/([^/]+)(?:\/)?$/);
-
-  if (!match) {
-    throw new Error(
-      `Invalid GitHub repository URL: ${repoUrl}. Expected format: https://github.com/owner/repo`
-    );
-  }
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
+function createDirectory(path: string): RepositoryDirectory {
   return {
-    owner: match[1],
-    repo: match[2],
+    path,
+    name: path.split('/').pop() || 'root',
+    files: [],
+    subdirectories: [],
   };
 }
 
 export class RepositoryIngester {
-  private client: GitHubClient;
+  private options: RepositorySourceOptions;
+  private mode: IngestionMode;
+  private prefetch: boolean;
+  private store: ContentStore;
+  private include: string[];
+  private exclude: string[];
+  private maxFiles: number;
+  private maxDepth: number;
+  private maxBytes: number;
+  private filters!: IngestionFilters;
+  private includeMatcher!: GlobMatcher;
+  private excludeMatcher!: GlobMatcher;
   private fileCount: number = 0;
   private solidityCount: number = 0;
   private typescriptCount: number = 0;
   private javascriptCount: number = 0;
   private configCount: number = 0;
   private otherCount: number = 0;
+  private totalBytes: number = 0;
+  private truncationReasons: Set<string> = new Set();
+  private warnings: string[] = [];
+  private rateLimited: boolean = false;
+  private budgetExhausted: boolean = false;
+  private skippedForBytes: string[] = [];
 
-  constructor(githubToken?: string) {
-    this.client = new GitHubClient(githubToken);
+  constructor(githubToken?: string, options: IngestOptions = {}) {
+    const {
+      mode = 'tree',
+      prefetch = false,
+      contentStore: store,
+      include = [],
+      exclude = [],
+      maxFiles = config.ingestion.maxFiles,
+      maxDepth = config.ingestion.maxDepth,
+      maxBytes = config.ingestion.maxBytes,
+      ...sourceOptions
+    } = options;
+    this.options = { ...sourceOptions, githubToken };
+    this.mode = mode;
+    this.prefetch = prefetch;
+    this.store = store || contentStore;
+    this.include = include;
+    this.exclude = exclude;
+    this.maxFiles = maxFiles;
+    this.maxDepth = maxDepth;
+    this.maxBytes = maxBytes;
   }
 
-  async ingestRepository(repoUrl: string): Promise<RepositoryTree> {
-    logger.info({ repoUrl }, 'Starting repository ingestion');
+  async ingestRepository(repoUrl: string, ref?: string): Promise<RepositoryTree> {
+    logger.info({ repoUrl, ref }, 'Starting repository ingestion');
 
     try {
-      const { owner, repo } = parseRepositoryUrl(repoUrl);
-
-      // Reset counters
-      this.fileCount = 0;
-      this.solidityCount = 0;
-      this.typescriptCount = 0;
-      this.javascriptCount = 0;
-      this.configCount = 0;
-      this.otherCount = 0;
-
-      // Fetch repository metadata
-      const metadata = await this.client.getRepository(owner, repo);
-      logger.info({ owner, repo }, `Repository metadata fetched`);
-
-      // Recursively fetch repository structure
-      const root = await this.fetchDirectoryTree(
-        owner,
-        repo,
-        '',
-        0
+      const source = createRepositorySource(repoUrl, { ...this.options, ref: ref || this.options.ref });
+      return await this.ingestSource(source);
+    } catch (error) {
+      logger.error({ error, repoUrl }, 'Repository ingestion failed');
+      throw error;
+    }
+  }
+
+  async ingestSource(source: RepositorySource): Promise<RepositoryTree> {
+    // Reset counters
+    this.fileCount = 0;
+    this.solidityCount = 0;
+    this.typescriptCount = 0;
+    this.javascriptCount = 0;
+    this.configCount = 0;
+    this.otherCount = 0;
+    this.totalBytes = 0;
+    this.truncationReasons = new Set();
+    this.warnings = [];
+    this.rateLimited = false;
+    this.budgetExhausted = false;
+    this.skippedForBytes = [];
+    this.filters = {
+      include: this.include,
+      exclude: this.exclude,
+      ignorePatterns: [],
+      maxFiles: this.maxFiles,
+      maxDepth: this.maxDepth,
+      maxBytes: this.maxBytes,
+    };
+    this.includeMatcher = new GlobMatcher(this.include);
+    this.excludeMatcher = new GlobMatcher(this.exclude);
+
+    // Fetch repository metadata
+    const metadata = await source.getMetadata();
+    logger.info(
+      { repo: metadata.fullName, source: source.descriptor.kind, ref: metadata.ref, commitSha: metadata.commitSha },
+      `Repository metadata fetched`
+    );
+
+    // Fetch repository structure, preferring a single recursive listing
+    let mode: IngestionMode = 'walk';
+    let root: RepositoryDirectory | null = null;
+    if (this.mode === 'tree' && source.listTree) {
+      root = await this.fetchRecursiveTree(source);
+      mode = root ? 'tree' : 'walk';
+    }
+    if (!root) {
+      root = await this.fetchDirectoryTree(source, '', 0);
+    }
+
+    if (this.skippedForBytes.length > 0) {
+      const listed = this.skippedForBytes.slice(0, 10).join(', ');
+      this.warnings.push(
+        `${this.skippedForBytes.length} files did not fit the byte budget and were skipped: ${listed}${this.skippedForBytes.length > 10 ? ', ...' : ''}`
       );
+    }
+
+    if (source.hashFile) {
+      await this.hashFiles(source, root);
+    }
+
+    const prefetchedFiles = this.prefetch ? await this.prefetchContents(source, root) : 0;
+
+    // Locate Foundry/Hardhat/Truffle projects so later stages can tell sources from vendored code
+    const layout = await detectProjectLayouts(root, source);
+    this.warnings.push(...layout.warnings);
+    this.assignFileRoles(root, layout.projects);
 
-      const totalSize = metadata.size * 1024; // GitHub size is in KB
+    // GitHub reports size in KB; local sources are measured from ingested files
+    const totalSize = metadata.size > 0 ? metadata.size * 1024 : this.totalBytes;
+
+    const result: RepositoryTree = {
+      metadata,
+      root,
+      stats: {
+        totalFiles: this.fileCount,
+        solidityFiles: this.solidityCount,
+        typescriptFiles: this.typescriptCount,
+        javascriptFiles: this.javascriptCount,
+        configFiles: this.configCount,
+        otherFiles: this.otherCount,
+        totalSize,
+        ingestionMode: mode,
+        prefetchedFiles,
+        truncated: this.truncationReasons.size > 0,
+        truncationReasons: Array.from(this.truncationReasons),
+      },
+      projects: layout.projects,
+      filters: this.filters,
+      warnings: this.warnings,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    logger.info(
+      { stats: result.stats },
+      `Repository ingestion completed`
+    );
 
-      const result: RepositoryTree = {
-        metadata,
+    return result;
+  }
+
+  /**
+   * Download the repository archive once and load the ingested files into the content store
+   */
+  private async prefetchContents(
+    source: RepositorySource,
+    root: RepositoryDirectory
+  ): Promise<number> {
+    if (!source.fetchArchive) {
+      logger.debug({ source: source.descriptor.kind }, 'Source does not support archive prefetch');
+      return 0;
+    }
+
+    try {
+      const archive = await source.fetchArchive();
+      const loaded = this.store.loadTarball(archive.data, {
+        stripComponents: archive.stripComponents,
         root,
-        stats: {
-          totalFiles: this.fileCount,
-          solidityFiles: this.solidityCount,
-          typescriptFiles: this.typescriptCount,
-          javascriptFiles: this.javascriptCount,
-          configFiles: this.configCount,
-          otherFiles: this.otherCount,
-          totalSize,
-        },
-        fetchedAt: new Date().toISOString(),
-      };
-
-      logger.info(
-        { stats: result.stats },
-        `Repository ingestion completed`
-      );
+      });
+      logger.info({ loaded }, 'Prefetched repository contents from archive');
+      return loaded;
+    } catch (error) {
+      // Files are fetched individually on demand if the archive is unavailable
+      logger.warn({ error }, 'Archive prefetch failed');
+      this.warnings.push(`Archive prefetch failed: ${errorMessage(error)}`);
+      return 0;
+    }
+  }
 
-      return result;
+  /**
+   * Build the directory hierarchy from a single flat listing.
+   * Returns null when the listing is incomplete so the caller can walk instead.
+   */
+  private async fetchRecursiveTree(source: RepositorySource): Promise<RepositoryDirectory | null> {
+    let listing;
+    try {
+      listing = await source.listTree!();
     } catch (error) {
-      logger.error({ error, repoUrl }, 'Repository ingestion failed');
-      throw error;
+      logger.warn({ error }, 'Recursive tree listing failed, falling back to directory walk');
+      this.warnings.push(`Recursive tree listing failed, used directory walk: ${errorMessage(error)}`);
+      return null;
+    }
+
+    if (listing.truncated) {
+      logger.warn(
+        { entries: listing.entries.length },
+        'Recursive tree listing truncated, falling back to directory walk'
+      );
+      return null;
+    }
+
+    await this.loadIgnoreFile(
+      source,
+      listing.entries.find((entry) => entry.path === IGNORE_FILE_NAME)
+    );
+
+    const root = createDirectory('');
+    const directories = new Map<string, RepositoryDirectory>([['', root]]);
+
+    const getDirectory = (dirPath: string): RepositoryDirectory => {
+      const existing = directories.get(dirPath);
+      if (existing) {
+        return existing;
+      }
+      const parentPath = dirPath.includes('/') ? dirPath.substring(0, dirPath.lastIndexOf('/')) : '';
+      const directory = createDirectory(dirPath);
+      getDirectory(parentPath).subdirectories.push(directory);
+      directories.set(dirPath, directory);
+      return directory;
+    };
+
+    for (const item of listing.entries) {
+      const segments = item.path.split('/');
+      const dirSegments = segments.slice(0, -1);
+
+      // Skip files under ignored directories
+      if (dirSegments.some((segment) => shouldIgnoreDirectory(segment))) {
+        continue;
+      }
+
+      if (dirSegments.length > this.maxDepth) {
+        this.truncationReasons.add(`Directories deeper than ${this.maxDepth} levels were skipped`);
+        continue;
+      }
+
+      if (!this.selectFile(item)) {
+        continue;
+      }
+      if (!this.withinBudget(item)) {
+        if (this.budgetExhausted) break;
+        continue;
+      }
+
+      getDirectory(dirSegments.join('/')).files.push(this.processFile(item));
     }
+
+    return root;
   }
 
   private async fetchDirectoryTree(
-    owner: string,
-    repo: string,
+    source: RepositorySource,
     path: string,
     depth: number
   ): Promise<RepositoryDirectory> {
     // Prevent infinite recursion and respect depth limits
-    if (depth > MAX_RECURSION_DEPTH || this.fileCount > MAX_FILES_TO_FETCH) {
-      return {
-        path,
-        name: path.split('/').pop() || 'root',
-        files: [],
-        subdirectories: [],
-      };
+    if (depth > this.maxDepth) {
+      this.truncationReasons.add(`Directories deeper than ${this.maxDepth} levels were skipped`);
+      return createDirectory(path);
+    }
+    if (this.budgetExhausted || this.rateLimited) {
+      return createDirectory(path);
     }
 
     try {
-      const contents = await this.client.getRepositoryContents(
-        owner,
-        repo,
-        path
-      );
+      const contents = await source.listDirectory(path);
 
-      const directory: RepositoryDirectory = {
-        path,
-        name: path.split('/').pop() || 'root',
-        files: [],
-        subdirectories: [],
-      };
+      if (path === '') {
+        await this.loadIgnoreFile(
+          source,
+          contents.find((item) => item.type === 'file' && item.name === IGNORE_FILE_NAME)
+        );
+      }
+
+      const directory = createDirectory(path);
 
       // Process contents
       for (const item of contents) {
         // Skip ignored directories
         if (item.type === 'dir') {
-          if (shouldIgnoreDirectory(item.name)) {
+          if (shouldIgnoreDirectory(item.name) || this.excludeMatcher.matches(item.path, true)) {
             logger.debug({ dir: item.path }, 'Ignoring directory');
             continue;
           }
 
           // Recursively fetch subdirectory
           const subdir = await this.fetchDirectoryTree(
-            owner,
-            repo,
+            source,
             item.path,
             depth + 1
           );
@@ -163,42 +357,15 @@ export class RepositoryIngester {
             directory.subdirectories.push(subdir);
           }
         } else {
-          // Process file
-          if (shouldIgnoreFile(item.name)) {
-            logger.debug({ file: item.path }, 'Ignoring file');
+          if (!this.selectFile(item)) {
             continue;
           }
-
-          const fileType = detectFileType(item.name);
-          const file: RepositoryFile = {
-            path: item.path,
-            name: item.name,
-            extension: getFileExtension(item.name),
-            type: fileType,
-            size: item.size,
-            sha: item.sha,
-          };
-
-          directory.files.push(file);
-          this.fileCount++;
-
-          // Update type counters
-          switch (fileType) {
-            case 'solidity':
-              this.solidityCount++;
-              break;
-            case 'typescript':
-              this.typescriptCount++;
-              break;
-            case 'javascript':
-              this.javascriptCount++;
-              break;
-            case 'config':
-              this.configCount++;
-              break;
-            default:
-              this.otherCount++;
+          if (!this.withinBudget(item)) {
+            if (this.budgetExhausted) break;
+            continue;
           }
+
+          directory.files.push(this.processFile(item));
         }
       }
 
@@ -208,21 +375,141 @@ export class RepositoryIngester {
         { error, path },
         'Failed to fetch directory tree'
       );
-      // Return empty directory on error instead of propagating
-      return {
-        path,
-        name: path.split('/').pop() || 'root',
-        files: [],
-        subdirectories: [],
-      };
+
+      // Without the root listing there is nothing to return
+      if (path === '') {
+        throw error;
+      }
+
+      // Keep what was fetched so far, but report the gap instead of hiding it
+      if (error instanceof ForgeRateLimitError) {
+        this.rateLimited = true;
+        this.truncationReasons.add('Forge API rate limit reached before all directories were fetched');
+      }
+      this.warnings.push(`Failed to fetch directory ${path}: ${errorMessage(error)}`);
+      return createDirectory(path);
     }
   }
+
+  /**
+   * Fill in the blob SHAs a source left out of its listing, for the files that made it into the tree
+   */
+  private async hashFiles(source: RepositorySource, dir: RepositoryDirectory): Promise<void> {
+    for (const file of dir.files) {
+      if (!file.sha) file.sha = await source.hashFile!(file.path);
+    }
+    for (const subdir of dir.subdirectories) {
+      await this.hashFiles(source, subdir);
+    }
+  }
+
+  private assignFileRoles(dir: RepositoryDirectory, projects: ProjectLayout[]): void {
+    for (const file of dir.files) {
+      file.role = detectFileRole(file.path, projects);
+    }
+    for (const subdir of dir.subdirectories) {
+      this.assignFileRoles(subdir, projects);
+    }
+  }
+
+  /**
+   * Read the repository's .port2monadignore; request excludes are applied after its patterns
+   */
+  private async loadIgnoreFile(source: RepositorySource, entry?: SourceEntry): Promise<void> {
+    if (!entry) {
+      return;
+    }
+
+    try {
+      const patterns = parseIgnoreFile(await source.readFile(entry.path, entry.sha));
+      this.filters.ignoreFile = entry.path;
+      this.filters.ignorePatterns = patterns;
+      this.excludeMatcher = new GlobMatcher([...patterns, ...this.exclude]);
+      logger.debug({ ignoreFile: entry.path, patterns: patterns.length }, 'Loaded ignore file');
+    } catch (error) {
+      logger.warn({ error, ignoreFile: entry.path }, 'Failed to read ignore file');
+      this.warnings.push(`Failed to read ${entry.path}, its patterns were not applied: ${errorMessage(error)}`);
+    }
+  }
+
+  private selectFile(item: SourceEntry): boolean {
+    if (shouldIgnoreFile(item.name) || this.excludeMatcher.matches(item.path)) {
+      logger.debug({ file: item.path }, 'Ignoring file');
+      return false;
+    }
+    // Project configs stay so layouts and remappings can still be detected
+    if (!this.includeMatcher.isEmpty && !this.includeMatcher.matches(item.path) && !isProjectConfigFile(item.name)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check the file and byte budgets before taking another file. A file larger than the bytes
+   * left is skipped so one large artifact doesn't push out the rest; ingestion stops once
+   * the file limit is reached or no bytes are left.
+   */
+  private withinBudget(item: SourceEntry): boolean {
+    if (this.fileCount >= this.maxFiles) {
+      this.truncationReasons.add(`File limit of ${this.maxFiles} reached`);
+      this.budgetExhausted = true;
+      return false;
+    }
+    if (this.maxBytes > 0 && this.totalBytes + item.size > this.maxBytes) {
+      this.truncationReasons.add(`Files exceeding the remaining byte budget of ${this.maxBytes} were skipped`);
+      this.skippedForBytes.push(item.path);
+      logger.debug({ file: item.path, size: item.size }, 'File exceeds the remaining byte budget');
+      if (this.totalBytes >= this.maxBytes) {
+        this.truncationReasons.add(`Byte limit of ${this.maxBytes} reached`);
+        this.budgetExhausted = true;
+      }
+      return false;
+    }
+    return true;
+  }
+
+  private processFile(item: SourceEntry): RepositoryFile {
+    const fileType = detectFileType(item.name);
+    const file: RepositoryFile = {
+      path: item.path,
+      name: item.name,
+      extension: getFileExtension(item.name),
+      type: fileType,
+      role: 'source', // refined once project layouts are known
+      size: item.size,
+      sha: item.sha,
+    };
+
+    this.fileCount++;
+    this.totalBytes += item.size;
+
+    // Update type counters
+    switch (fileType) {
+      case 'solidity':
+        this.solidityCount++;
+        break;
+      case 'typescript':
+        this.typescriptCount++;
+        break;
+      case 'javascript':
+        this.javascriptCount++;
+        break;
+      case 'config':
+        this.configCount++;
+        break;
+      default:
+        this.otherCount++;
+    }
+
+    return file;
+  }
 }
 
 export async function ingestRepository(
   repoUrl: string,
-  githubToken?: string
+  githubToken?: string,
+  options: IngestOptions = {}
 ): Promise<RepositoryTree> {
-  const ingester = new RepositoryIngester(githubToken);
+  const ingester = new RepositoryIngester(githubToken, options);
   return ingester.ingestRepository(repoUrl);
 }
@@ -0,0 +1,166 @@
+/**
+ * Bitbucket repository source
+ * Reads repository structure and file contents through the Bitbucket Cloud REST API (2.0)
+ */
+
+import { ForgeHttpClient } from '../../forges/http.js';
+import { RepositoryMetadata, RepositorySourceDescriptor } from '../../types/index.js';
+import { ForgeRepositorySource } from './forgeSource.js';
+import type { SourceEntry, SourceTreeListing } from './index.js';
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 100;
+const MAX_TREE_DEPTH = 20;
+
+interface BitbucketRepositoryResponse {
+  name: string;
+  slug: string;
+  full_name: string;
+  description?: string;
+  is_private: boolean;
+  size: number; // bytes
+  mainbranch?: {
+    name: string;
+  };
+  links: {
+    html: {
+      href: string;
+    };
+  };
+}
+
+interface BitbucketCommitResponse {
+  hash: string;
+}
+
+interface BitbucketSourceEntry {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string; // absolute URL of the next page
+}
+
+function encodePath(filePath: string): string {
+  return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+function authHeaders(token?: string): Record<string, string> {
+  if (!token) {
+    return {};
+  }
+  // `user:app_password` uses basic auth; anything else is an access token
+  if (token.includes(':')) {
+    return { Authorization: `Basic ${Buffer.from(token).toString('base64')}` };
+  }
+  return { Authorization: `Bearer ${token}` };
+}
+
+export class BitbucketRepositorySource extends ForgeRepositorySource {
+  private client: ForgeHttpClient;
+
+  constructor(descriptor: RepositorySourceDescriptor, token?: string) {
+    super(descriptor);
+    this.client = new ForgeHttpClient(this.forge.apiUrl, authHeaders(token));
+  }
+
+  protected async fetchRepository(): Promise<RepositoryMetadata> {
+    const repository = await this.client.request<BitbucketRepositoryResponse>(
+      `fetch repository ${this.fullName}`,
+      this.repositoryPath()
+    );
+
+    return {
+      owner: this.owner,
+      name: repository.slug,
+      fullName: repository.full_name,
+      url: repository.links.html.href,
+      description: repository.description || undefined,
+      defaultBranch: repository.mainbranch?.name || 'main',
+      isPrivate: repository.is_private,
+      size: Math.ceil(repository.size / 1024),
+    };
+  }
+
+  protected async resolveCommitSha(ref: string): Promise<string> {
+    const commit = await this.client.request<BitbucketCommitResponse>(
+      `resolve ref ${ref} in ${this.fullName}`,
+      `${this.repositoryPath()}/commit/${encodeURIComponent(ref)}`
+    );
+    return commit.hash;
+  }
+
+  async listDirectory(dirPath: string): Promise<SourceEntry[]> {
+    const { entries } = await this.fetchSource(dirPath, 1);
+    return entries;
+  }
+
+  async listTree(): Promise<SourceTreeListing> {
+    const { entries, truncated } = await this.fetchSource('', MAX_TREE_DEPTH);
+    return { entries: entries.filter((entry) => entry.type === 'file'), truncated };
+  }
+
+  // No fetchArchive: Bitbucket doesn't expose blob SHAs, so archive contents couldn't be matched to tree entries
+
+  async readFile(filePath: string): Promise<string> {
+    return this.client.request<string>(
+      `fetch file ${this.fullName}/${filePath}`,
+      `${this.repositoryPath()}/src/${this.commitRef()}/${encodePath(filePath)}`,
+      {
+        responseType: 'text',
+        transformResponse: (data) => data,
+      }
+    );
+  }
+
+  /**
+   * List a directory via the src endpoint, following `next` links.
+   * Blob SHAs aren't available, so entries are keyed by the commit they were listed at.
+   */
+  private async fetchSource(
+    dirPath: string,
+    maxDepth: number
+  ): Promise<{ entries: SourceEntry[]; truncated: boolean }> {
+    const entries: SourceEntry[] = [];
+    const commit = this.commitRef();
+    let url: string | undefined = `${this.repositoryPath()}/src/${commit}/${dirPath ? `${encodePath(dirPath)}/` : ''}`;
+    let params: Record<string, unknown> | undefined = { pagelen: PAGE_SIZE, max_depth: maxDepth };
+
+    for (let page = 0; page < MAX_PAGES && url; page++) {
+      const response: BitbucketPage<BitbucketSourceEntry> = await this.client.request<
+        BitbucketPage<BitbucketSourceEntry>
+      >(`list source ${this.fullName}/${dirPath}`, url, { params });
+
+      for (const item of response.values) {
+        entries.push({
+          name: item.path.split('/').pop() || item.path,
+          path: item.path,
+          type: item.type === 'commit_directory' ? 'dir' : 'file',
+          size: item.size || 0,
+          sha: `${commit}:${item.path}`,
+        });
+      }
+
+      // `next` already carries the query string
+      url = response.next;
+      params = undefined;
+    }
+
+    return { entries, truncated: url !== undefined };
+  }
+
+  private commitRef(): string {
+    return encodeURIComponent(this.readRef() || 'HEAD');
+  }
+
+  private get fullName(): string {
+    return `${this.owner}/${this.repo}`;
+  }
+
+  private repositoryPath(): string {
+    return `/repositories/${this.owner}/${this.repo}`;
+  }
+}
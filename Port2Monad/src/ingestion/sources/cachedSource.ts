@@ -0,0 +1,54 @@
+/**
+ * Content-store backed repository source
+ * Serves file reads from the content store when the blob is known,
+ * and records fetched content for later pipeline stages
+ */
+
+import { RepositoryMetadata, RepositorySourceDescriptor } from '../../types/index.js';
+import { ContentStore } from '../contentStore.js';
+import type { RepositorySource, SourceArchive, SourceEntry, SourceTreeListing } from './index.js';
+
+export class CachedRepositorySource implements RepositorySource {
+  private inner: RepositorySource;
+  private store: ContentStore;
+  listTree?: () => Promise<SourceTreeListing>;
+  fetchArchive?: () => Promise<SourceArchive>;
+
+  constructor(inner: RepositorySource, store: ContentStore) {
+    this.inner = inner;
+    this.store = store;
+    if (inner.listTree) {
+      this.listTree = () => inner.listTree!();
+    }
+    if (inner.fetchArchive) {
+      this.fetchArchive = () => inner.fetchArchive!();
+    }
+  }
+
+  get descriptor(): RepositorySourceDescriptor {
+    return this.inner.descriptor;
+  }
+
+  getMetadata(): Promise<RepositoryMetadata> {
+    return this.inner.getMetadata();
+  }
+
+  listDirectory(dirPath: string): Promise<SourceEntry[]> {
+    return this.inner.listDirectory(dirPath);
+  }
+
+  async readFile(filePath: string, sha?: string): Promise<string> {
+    if (!sha) {
+      return this.inner.readFile(filePath);
+    }
+
+    const cached = this.store.get(filePath, sha);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const content = await this.inner.readFile(filePath, sha);
+    this.store.set(filePath, sha, content);
+    return content;
+  }
+}
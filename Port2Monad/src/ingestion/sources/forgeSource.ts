@@ -0,0 +1,60 @@
+/**
+ * Forge repository source base
+ * Shared ref pinning for sources backed by a hosted forge API (GitHub, GitLab, Bitbucket, Gitea)
+ */
+
+import { RepositoryMetadata, RepositorySourceDescriptor } from '../../types/index.js';
+import { ForgeHost, forgeRepositoryUrl, parseForgeUrl } from '../../forges/hosts.js';
+import type { RepositorySource, SourceEntry } from './index.js';
+
+export abstract class ForgeRepositorySource implements RepositorySource {
+  descriptor: RepositorySourceDescriptor;
+  protected forge: ForgeHost;
+  protected owner: string;
+  protected repo: string;
+
+  constructor(descriptor: RepositorySourceDescriptor) {
+    const parsed = parseForgeUrl(descriptor.location);
+    if (!parsed) {
+      throw new Error(`Unknown forge host for repository ${descriptor.location}`);
+    }
+    this.forge = parsed.forge;
+    this.owner = parsed.owner;
+    this.repo = parsed.repo;
+    this.descriptor = {
+      ...descriptor,
+      kind: parsed.forge.kind,
+      location: forgeRepositoryUrl(parsed.forge, parsed.owner, parsed.repo),
+    };
+  }
+
+  async getMetadata(): Promise<RepositoryMetadata> {
+    const metadata = await this.fetchRepository();
+    const ref = this.descriptor.ref || metadata.defaultBranch;
+
+    // Pin every subsequent read to the commit the ref points at right now
+    if (!this.descriptor.commitSha) {
+      const commitSha = await this.resolveCommitSha(ref);
+      this.descriptor = { ...this.descriptor, ref, commitSha };
+    }
+
+    return {
+      ...metadata,
+      ref,
+      commitSha: this.descriptor.commitSha,
+      source: this.descriptor,
+    };
+  }
+
+  abstract listDirectory(dirPath: string): Promise<SourceEntry[]>;
+
+  abstract readFile(filePath: string, sha?: string): Promise<string>;
+
+  protected abstract fetchRepository(): Promise<RepositoryMetadata>;
+
+  protected abstract resolveCommitSha(ref: string): Promise<string>;
+
+  protected readRef(): string | undefined {
+    return this.descriptor.commitSha || this.descriptor.ref;
+  }
+}
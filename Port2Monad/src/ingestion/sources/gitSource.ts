@@ -0,0 +1,128 @@
+/**
+ * Git repository source
+ * Reads committed content from a bare or non-bare git repository via the git CLI,
+ * without requiring a working tree checkout
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import { logger } from '../../utils/logger.js';
+import { RepositoryMetadata, RepositorySourceDescriptor } from '../../types/index.js';
+import type {
+  RepositorySource,
+  SourceArchive,
+  SourceEntry,
+  SourceTreeListing,
+} from './index.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+
+function parseLsTree(output: string): SourceEntry[] {
+  const entries: SourceEntry[] = [];
+
+  // Format: <mode> SP <type> SP <sha> SP+ <size> TAB <path>
+  for (const line of output.split('\n')) {
+    const match = line.match(/^\d+ (blob|tree|commit) ([0-9a-f]+)\s+(\S+)\t(.+)$/);
+    if (!match) continue;
+
+    const [, objectType, sha, size, entryPath] = match;
+    // Submodules point at commits in other repositories and cannot be read here
+    if (objectType === 'commit') continue;
+
+    entries.push({
+      name: entryPath.split('/').pop() || entryPath,
+      path: entryPath,
+      type: objectType === 'tree' ? 'dir' : 'file',
+      size: objectType === 'blob' ? parseInt(size, 10) : 0,
+      sha,
+    });
+  }
+
+  return entries;
+}
+
+export class GitRepositorySource implements RepositorySource {
+  descriptor: RepositorySourceDescriptor;
+  private gitDir: string;
+
+  constructor(descriptor: RepositorySourceDescriptor) {
+    this.gitDir = path.resolve(descriptor.location);
+    this.descriptor = { ...descriptor, kind: 'git', location: this.gitDir };
+  }
+
+  private get ref(): string {
+    return this.descriptor.commitSha || this.descriptor.ref || 'HEAD';
+  }
+
+  async getMetadata(): Promise<RepositoryMetadata> {
+    const name = path.basename(this.gitDir).replace(/\.git$/, '');
+
+    let defaultBranch = 'HEAD';
+    try {
+      defaultBranch = (await this.git(['symbolic-ref', '--short', 'HEAD'])).trim();
+    } catch {
+      logger.debug({ gitDir: this.gitDir }, 'Repository HEAD is detached');
+    }
+
+    if (!this.descriptor.commitSha) {
+      const commitSha = (await this.git(['rev-parse', '--verify', `${this.ref}^{commit}`])).trim();
+      this.descriptor = { ...this.descriptor, commitSha };
+    }
+
+    return {
+      owner: 'local',
+      name,
+      fullName: `local/${name}`,
+      url: `file://${this.gitDir}`,
+      defaultBranch,
+      ref: this.descriptor.ref || defaultBranch,
+      commitSha: this.descriptor.commitSha,
+      isPrivate: true,
+      size: 0, // Computed from ingested files
+      source: this.descriptor,
+    };
+  }
+
+  async listDirectory(dirPath: string): Promise<SourceEntry[]> {
+    const args = ['ls-tree', '-l', this.ref];
+    if (dirPath) {
+      args.push('--', `${dirPath}/`);
+    }
+
+    return parseLsTree(await this.git(args));
+  }
+
+  async listTree(): Promise<SourceTreeListing> {
+    const output = await this.git(['ls-tree', '-r', '-l', this.ref]);
+    return { entries: parseLsTree(output), truncated: false };
+  }
+
+  async fetchArchive(): Promise<SourceArchive> {
+    const data = await this.gitBuffer(['archive', '--format=tar', this.ref]);
+    return { data, stripComponents: 0 };
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return this.git(['cat-file', 'blob', `${this.ref}:${filePath}`]);
+  }
+
+  private async git(args: string[]): Promise<string> {
+    return (await this.gitBuffer(args)).toString('utf8');
+  }
+
+  private async gitBuffer(args: string[]): Promise<Buffer> {
+    try {
+      const { stdout } = await execFileAsync('git', ['-C', this.gitDir, ...args], {
+        encoding: 'buffer',
+        maxBuffer: GIT_MAX_BUFFER,
+      });
+      return stdout;
+    } catch (error) {
+      logger.error({ error, gitDir: this.gitDir, args }, 'Git command failed');
+      throw new Error(`Git command failed in ${this.gitDir}: git ${args.join(' ')}`);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Gitea repository source
+ * Reads repository structure and file contents through the Gitea REST API (v1),
+ * which Forgejo and Codeberg also serve
+ */
+
+import { ForgeHttpClient } from '../../forges/http.js';
+import { RepositoryMetadata, RepositorySourceDescriptor } from '../../types/index.js';
+import { ForgeRepositorySource } from './forgeSource.js';
+import type { SourceArchive, SourceEntry, SourceTreeListing } from './index.js';
+
+const TREE_PAGE_SIZE = 1000;
+const MAX_TREE_PAGES = 20;
+
+interface GiteaRepositoryResponse {
+  owner: {
+    login: string;
+  };
+  name: string;
+  full_name: string;
+  html_url: string;
+  description?: string;
+  default_branch: string;
+  private: boolean;
+  size: number; // KB
+}
+
+interface GiteaCommitResponse {
+  sha: string;
+}
+
+interface GiteaContentResponse {
+  name: string;
+  path: string;
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+  size: number;
+  sha: string;
+}
+
+interface GiteaTreeResponse {
+  tree: {
+    path: string;
+    type: 'blob' | 'tree' | 'commit';
+    sha: string;
+    size?: number;
+  }[];
+  truncated: boolean; // more pages follow
+  total_count: number;
+}
+
+function encodePath(filePath: string): string {
+  return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+export class GiteaRepositorySource extends ForgeRepositorySource {
+  private client: ForgeHttpClient;
+
+  constructor(descriptor: RepositorySourceDescriptor, token?: string) {
+    super(descriptor);
+    this.client = new ForgeHttpClient(this.forge.apiUrl, token ? { Authorization: `token ${token}` } : {});
+  }
+
+  protected async fetchRepository(): Promise<RepositoryMetadata> {
+    const repository = await this.client.request<GiteaRepositoryResponse>(
+      `fetch repository ${this.fullName}`,
+      this.repositoryPath()
+    );
+
+    return {
+      owner: repository.owner.login,
+      name: repository.name,
+      fullName: repository.full_name,
+      url: repository.html_url,
+      description: repository.description || undefined,
+      defaultBranch: repository.default_branch,
+      isPrivate: repository.private,
+      size: repository.size,
+    };
+  }
+
+  protected async resolveCommitSha(ref: string): Promise<string> {
+    const commits = await this.client.request<GiteaCommitResponse[]>(
+      `resolve ref ${ref} in ${this.fullName}`,
+      `${this.repositoryPath()}/commits`,
+      { params: { sha: ref, limit: 1, stat: false, files: false } }
+    );
+    if (commits.length === 0) {
+      throw new Error(`Ref ${ref} not found in ${this.fullName}`);
+    }
+    return commits[0].sha;
+  }
+
+  async listDirectory(dirPath: string): Promise<SourceEntry[]> {
+    const contents = await this.client.request<GiteaContentResponse[]>(
+      `fetch contents from ${this.fullName}/${dirPath}`,
+      `${this.repositoryPath()}/contents/${encodePath(dirPath)}`,
+      { params: { ref: this.readRef() } }
+    );
+
+    return contents
+      .filter((item) => item.type === 'file' || item.type === 'dir')
+      .map((item) => ({
+        name: item.name,
+        path: item.path,
+        type: item.type as 'file' | 'dir',
+        size: item.size,
+        sha: item.sha,
+      }));
+  }
+
+  async listTree(): Promise<SourceTreeListing> {
+    const treeish = encodeURIComponent(this.readRef() || 'HEAD');
+    const entries: SourceEntry[] = [];
+
+    // Gitea pages recursive trees; `truncated` means another page follows
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const response = await this.client.request<GiteaTreeResponse>(
+        `fetch tree ${treeish} from ${this.fullName}`,
+        `${this.repositoryPath()}/git/trees/${treeish}`,
+        { params: { recursive: true, per_page: TREE_PAGE_SIZE, page } }
+      );
+
+      for (const item of response.tree) {
+        if (item.type !== 'blob') continue;
+        entries.push({
+          name: item.path.split('/').pop() || item.path,
+          path: item.path,
+          type: 'file',
+          size: item.size || 0,
+          sha: item.sha,
+        });
+      }
+
+      if (!response.truncated || response.tree.length === 0) {
+        return { entries, truncated: false };
+      }
+    }
+
+    return { entries, truncated: true };
+  }
+
+  async fetchArchive(): Promise<SourceArchive> {
+    const ref = encodeURIComponent(this.readRef() || 'HEAD');
+    const data = await this.client.request<ArrayBuffer>(
+      `download archive for ${this.fullName}@${ref}`,
+      `${this.repositoryPath()}/archive/${ref}.tar.gz`,
+      {
+        responseType: 'arraybuffer',
+        timeout: 120000,
+      },
+      false
+    );
+    // Gitea wraps archive contents in a <repo>/ directory
+    return { data: Buffer.from(data), stripComponents: 1 };
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return this.client.request<string>(
+      `fetch file ${this.fullName}/${filePath}`,
+      `${this.repositoryPath()}/raw/${encodePath(filePath)}`,
+      {
+        params: { ref: this.readRef() },
+        responseType: 'text',
+        transformResponse: (data) => data,
+      }
+    );
+  }
+
+  private get fullName(): string {
+    return `${this.owner}/${this.repo}`;
+  }
+
+  private repositoryPath(): string {
+    return `/repos/${this.owner}/${this.repo}`;
+  }
+}
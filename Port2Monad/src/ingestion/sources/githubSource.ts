@@ -0,0 +1,99 @@
+/**
+ * GitHub repository source
+ * Reads repository structure and file contents through the GitHub REST API
+ */
+
+import { GitHubClient } from '../../github/client.js';
+import { RepositoryMetadata, RepositorySourceDescriptor } from '../../types/index.js';
+import { parseForgeUrl } from '../../forges/hosts.js';
+import { ForgeRepositorySource } from './forgeSource.js';
+import type { SourceArchive, SourceEntry, SourceTreeListing } from './index.js';
+
+interface ParsedRepoUrl {
+  owner: string;
+  repo: string;
+  ref?: string;
+}
+
+export function parseRepositoryUrl(repoUrl: string): ParsedRepoUrl {
+  // Handle URLs like:
+  // https://github.com/owner/repo
+  // https://github.com/owner/repo/
+  // https://github.com/owner/repo.git
+  // https://github.com/owner/repo/tree/feature/branch
+  // github.com/owner/repo
+  // and the same shapes on GitHub Enterprise hosts listed in FORGE_HOSTS
+  const parsed = parseForgeUrl(repoUrl);
+
+  if (!parsed || parsed.forge.kind !== 'github') {
+    throw new Error(
+      `Invalid GitHub repository URL: ${repoUrl}. Expected format: https://github.com/owner/repo[/tree/<ref>]`
+    );
+  }
+
+  return {
+    owner: parsed.owner,
+    repo: parsed.repo,
+    ref: parsed.ref,
+  };
+}
+
+export class GitHubRepositorySource extends ForgeRepositorySource {
+  private client: GitHubClient;
+
+  constructor(descriptor: RepositorySourceDescriptor, githubToken?: string) {
+    super(descriptor);
+    this.client = new GitHubClient(githubToken, this.forge.apiUrl);
+  }
+
+  protected fetchRepository(): Promise<RepositoryMetadata> {
+    return this.client.getRepository(this.owner, this.repo);
+  }
+
+  protected resolveCommitSha(ref: string): Promise<string> {
+    return this.client.getCommitSha(this.owner, this.repo, ref);
+  }
+
+  async listDirectory(dirPath: string): Promise<SourceEntry[]> {
+    const contents = await this.client.getRepositoryContents(
+      this.owner,
+      this.repo,
+      dirPath,
+      this.readRef()
+    );
+    return contents.map((item) => ({
+      name: item.name,
+      path: item.path,
+      type: item.type,
+      size: item.size,
+      sha: item.sha,
+    }));
+  }
+
+  async listTree(): Promise<SourceTreeListing> {
+    const treeish = this.readRef() || 'HEAD';
+    const response = await this.client.getRecursiveTree(this.owner, this.repo, treeish);
+
+    const entries: SourceEntry[] = response.tree
+      .filter((item) => item.type === 'blob')
+      .map((item) => ({
+        name: item.path.split('/').pop() || item.path,
+        path: item.path,
+        type: 'file',
+        size: item.size || 0,
+        sha: item.sha,
+      }));
+
+    return { entries, truncated: response.truncated };
+  }
+
+  async fetchArchive(): Promise<SourceArchive> {
+    const data = await this.client.getTarball(this.owner, this.repo, this.readRef() || 'HEAD');
+    // GitHub wraps archive contents in a <owner>-<repo>-<sha>/ directory
+    return { data, stripComponents: 1 };
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return this.client.getFileContent(this.owner, this.repo, filePath, this.readRef());
+  }
+}
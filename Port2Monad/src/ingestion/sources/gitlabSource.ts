@@ -0,0 +1,166 @@
+/**
+ * GitLab repository source
+ * Reads repository structure and file contents through the GitLab REST API (v4),
+ * on gitlab.com or a self-hosted instance
+ */
+
+import { ForgeHttpClient } from '../../forges/http.js';
+import { RepositoryMetadata, RepositorySourceDescriptor } from '../../types/index.js';
+import { ForgeRepositorySource } from './forgeSource.js';
+import type { SourceArchive, SourceEntry, SourceTreeListing } from './index.js';
+
+const PAGE_SIZE = 100;
+const MAX_TREE_PAGES = 100;
+
+interface GitLabProjectResponse {
+  path: string;
+  path_with_namespace: string;
+  namespace: {
+    full_path: string;
+  };
+  web_url: string;
+  description?: string | null;
+  default_branch: string;
+  visibility: 'public' | 'internal' | 'private';
+  statistics?: {
+    repository_size: number; // bytes
+  };
+}
+
+interface GitLabCommitResponse {
+  id: string;
+}
+
+interface GitLabTreeEntry {
+  id: string; // git object SHA
+  name: string;
+  type: 'blob' | 'tree' | 'commit';
+  path: string;
+}
+
+export class GitLabRepositorySource extends ForgeRepositorySource {
+  private client: ForgeHttpClient;
+
+  constructor(descriptor: RepositorySourceDescriptor, token?: string) {
+    super(descriptor);
+    this.client = new ForgeHttpClient(this.forge.apiUrl, token ? { 'PRIVATE-TOKEN': token } : {});
+  }
+
+  protected async fetchRepository(): Promise<RepositoryMetadata> {
+    const project = await this.client.request<GitLabProjectResponse>(
+      `fetch project ${this.fullName}`,
+      this.projectPath(),
+      { params: { statistics: true } }
+    );
+
+    return {
+      owner: project.namespace.full_path,
+      name: project.path,
+      fullName: project.path_with_namespace,
+      url: project.web_url,
+      description: project.description || undefined,
+      defaultBranch: project.default_branch,
+      isPrivate: project.visibility !== 'public',
+      // Statistics require reporter access; without them size is measured from ingested files
+      size: project.statistics ? Math.ceil(project.statistics.repository_size / 1024) : 0,
+    };
+  }
+
+  protected async resolveCommitSha(ref: string): Promise<string> {
+    const commit = await this.client.request<GitLabCommitResponse>(
+      `resolve ref ${ref} in ${this.fullName}`,
+      `${this.projectPath()}/repository/commits/${encodeURIComponent(ref)}`
+    );
+    return commit.id;
+  }
+
+  async listDirectory(dirPath: string): Promise<SourceEntry[]> {
+    const { entries } = await this.fetchTree(dirPath, false);
+    return entries;
+  }
+
+  async listTree(): Promise<SourceTreeListing> {
+    const { entries, truncated } = await this.fetchTree('', true);
+    return { entries: entries.filter((entry) => entry.type === 'file'), truncated };
+  }
+
+  async fetchArchive(): Promise<SourceArchive> {
+    const data = await this.client.request<ArrayBuffer>(
+      `download archive for ${this.fullName}`,
+      `${this.projectPath()}/repository/archive.tar.gz`,
+      {
+        params: { sha: this.readRef() },
+        responseType: 'arraybuffer',
+        timeout: 120000,
+      },
+      false
+    );
+    // GitLab wraps archive contents in a <repo>-<ref>-<sha>/ directory
+    return { data: Buffer.from(data), stripComponents: 1 };
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return this.client.request<string>(
+      `fetch file ${this.fullName}/${filePath}`,
+      `${this.projectPath()}/repository/files/${encodeURIComponent(filePath)}/raw`,
+      {
+        params: { ref: this.readRef() || 'HEAD' },
+        responseType: 'text',
+        transformResponse: (data) => data,
+      }
+    );
+  }
+
+  /**
+   * List a directory, or the whole repository when recursive, following pagination.
+   * GitLab tree listings don't report blob sizes, so entries have size 0.
+   */
+  private async fetchTree(
+    dirPath: string,
+    recursive: boolean
+  ): Promise<{ entries: SourceEntry[]; truncated: boolean }> {
+    const entries: SourceEntry[] = [];
+
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const items = await this.client.request<GitLabTreeEntry[]>(
+        `list tree ${this.fullName}/${dirPath}`,
+        `${this.projectPath()}/repository/tree`,
+        {
+          params: {
+            path: dirPath || undefined,
+            ref: this.readRef(),
+            recursive,
+            per_page: PAGE_SIZE,
+            page,
+          },
+        }
+      );
+
+      for (const item of items) {
+        // Submodules ('commit') have no content in this repository
+        if (item.type === 'commit') continue;
+        entries.push({
+          name: item.name,
+          path: item.path,
+          type: item.type === 'tree' ? 'dir' : 'file',
+          size: 0,
+          sha: item.id,
+        });
+      }
+
+      if (items.length < PAGE_SIZE) {
+        return { entries, truncated: false };
+      }
+    }
+
+    return { entries, truncated: true };
+  }
+
+  private get fullName(): string {
+    return `${this.owner}/${this.repo}`;
+  }
+
+  private projectPath(): string {
+    return `/projects/${encodeURIComponent(this.fullName)}`;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Repository source abstraction
+ * Lets ingestion, analysis and transformation read from a hosted forge (GitHub,
+ * GitLab, Bitbucket, Gitea), a local checkout or a git repository through the same interface
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import {
+  RepositoryMetadata,
+  RepositorySourceDescriptor,
+  RepositorySourceKind,
+} from '../../types/index.js';
+import { config } from '../../utils/config.js';
+import { findForgeHost, forgeRepositoryUrl, parseForgeUrl } from '../../forges/hosts.js';
+import { GitHubRepositorySource, parseRepositoryUrl } from './githubSource.js';
+import { GitLabRepositorySource } from './gitlabSource.js';
+import { BitbucketRepositorySource } from './bitbucketSource.js';
+import { GiteaRepositorySource } from './giteaSource.js';
+import { LocalRepositorySource } from './localSource.js';
+import { GitRepositorySource } from './gitSource.js';
+import { CachedRepositorySource } from './cachedSource.js';
+import { contentStore } from '../contentStore.js';
+
+export interface SourceEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+  sha: string; // empty when the source hashes files only on request, see hashFile
+}
+
+export interface SourceTreeListing {
+  entries: SourceEntry[]; // files only, with full paths
+  truncated: boolean; // true when the backend could not return the complete tree
+}
+
+export interface SourceArchive {
+  data: Buffer; // tar or tar.gz
+  stripComponents: number; // leading path segments to drop from archive entries
+}
+
+export interface RepositorySource {
+  readonly descriptor: RepositorySourceDescriptor;
+  getMetadata(): Promise<RepositoryMetadata>;
+  listDirectory(dirPath: string): Promise<SourceEntry[]>;
+  // Optional single-request listing of every file; sources without one are walked per directory
+  listTree?(): Promise<SourceTreeListing>;
+  // Optional download of the whole repository as one archive
+  fetchArchive?(): Promise<SourceArchive>;
+  // `sha` identifies the blob so cached content can be reused
+  readFile(filePath: string, sha?: string): Promise<string>;
+  // Blob SHA of a listed file, for sources whose listings leave it empty
+  hashFile?(filePath: string): Promise<string>;
+}
+
+export interface RepositorySourceOptions {
+  githubToken?: string;
+  allowLocalSources?: boolean;
+  ref?: string;
+}
+
+function isBareGitRepository(dirPath: string): boolean {
+  return (
+    fs.existsSync(path.join(dirPath, 'HEAD')) &&
+    fs.existsSync(path.join(dirPath, 'objects')) &&
+    fs.existsSync(path.join(dirPath, 'refs'))
+  );
+}
+
+const LOCAL_SOURCES_DISABLED = 'Local repository sources are disabled on this server';
+
+/**
+ * Resolve a repository URL or path to a source descriptor without touching the network.
+ * An explicit ref takes precedence over one embedded in the URL (e.g. GitHub's /tree/<ref>).
+ * With local sources disabled, anything but a forge URL is rejected before the filesystem
+ * is consulted, so the error doesn't reveal whether the path exists.
+ */
+export function describeRepositorySource(
+  repoUrl: string,
+  ref?: string,
+  allowLocalSources?: boolean
+): RepositorySourceDescriptor {
+  const forgeUrl = parseForgeUrl(repoUrl);
+  if (forgeUrl) {
+    return {
+      kind: forgeUrl.forge.kind,
+      location: forgeRepositoryUrl(forgeUrl.forge, forgeUrl.owner, forgeUrl.repo),
+      ref: ref || forgeUrl.ref,
+    };
+  }
+
+  if (allowLocalSources === false) {
+    throw new Error(LOCAL_SOURCES_DISABLED);
+  }
+
+  if (repoUrl.startsWith('file://')) {
+    return { kind: 'git', location: fileURLToPath(repoUrl), ref };
+  }
+
+  const localPath = path.resolve(repoUrl);
+  if (fs.existsSync(localPath) && fs.statSync(localPath).isDirectory()) {
+    if (isBareGitRepository(localPath)) {
+      return { kind: 'git', location: localPath, ref };
+    }
+    if (ref) {
+      // A working tree only reflects one revision; read pinned refs from its git history
+      if (!fs.existsSync(path.join(localPath, '.git'))) {
+        throw new Error(`Cannot pin ${repoUrl} to ref ${ref}: directory is not a git checkout`);
+      }
+      return { kind: 'git', location: localPath, ref };
+    }
+    return { kind: 'local', location: localPath };
+  }
+
+  throw new Error(
+    `Unsupported repository location: ${repoUrl}. Expected a GitHub, GitLab, Bitbucket or Gitea URL, a file:// URL or a local directory`
+  );
+}
+
+// Local ids start with a prefix no forge owner or host can have
+const LOCAL_ID_PREFIX = 'local:';
+
+/**
+ * A repository id that can't be turned back into a source, e.g. one ingested from a local path
+ */
+export class UnresolvableRepositoryIdError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnresolvableRepositoryIdError';
+  }
+}
+
+function isForgeKind(kind: RepositorySourceKind): boolean {
+  return kind !== 'local' && kind !== 'git';
+}
+
+/**
+ * Stable identifier used to cache a repository across pipeline stages.
+ * github.com repositories are `owner/repo`; other forges are prefixed with their host
+ * (`gitlab.com/group/repo`). Local paths are `local:<dirname>-<hash of the absolute path>`, so two
+ * checkouts with the same directory name don't share entries. Pinned refs are appended as `@<ref>`
+ * so different branches don't collide.
+ */
+export function getRepositoryId(descriptor: RepositorySourceDescriptor): string {
+  let baseId: string;
+  const forgeUrl = isForgeKind(descriptor.kind) ? parseForgeUrl(descriptor.location) : null;
+  if (forgeUrl) {
+    const { forge, owner, repo } = forgeUrl;
+    baseId = forge.host === 'github.com' ? `${owner}/${repo}` : `${forge.host}/${owner}/${repo}`;
+  } else {
+    const location = path.resolve(descriptor.location);
+    const name = path.basename(location).replace(/\.git$/, '').replace(/[^\w.-]/g, '-');
+    const hash = createHash('sha256').update(location).digest('hex').substring(0, 12);
+    baseId = `${LOCAL_ID_PREFIX}${name}-${hash}`;
+  }
+  return descriptor.ref ? `${baseId}@${descriptor.ref}` : baseId;
+}
+
+/**
+ * Turn a forge repository id back into a URL and ref. Local ids can't be resolved
+ * since they don't record the path they were ingested from.
+ */
+export function resolveRepositoryId(repoId: string): { repoUrl: string; ref?: string } {
+  const separator = repoId.indexOf('@');
+  const baseId = separator === -1 ? repoId : repoId.substring(0, separator);
+  const ref = separator === -1 ? undefined : repoId.substring(separator + 1);
+
+  if (baseId.startsWith(LOCAL_ID_PREFIX)) {
+    throw new UnresolvableRepositoryIdError(
+      `Repository ${repoId} was ingested from a local path; ingest it again by path`
+    );
+  }
+
+  const [host, ...rest] = baseId.split('/');
+  const forge = findForgeHost(host);
+  if (forge && rest.length >= 2) {
+    return { repoUrl: `${forge.webUrl}/${rest.join('/')}`, ref };
+  }
+  return { repoUrl: `https://github.com/${baseId}`, ref };
+}
+
+export function openRepositorySource(
+  descriptor: RepositorySourceDescriptor,
+  options: RepositorySourceOptions = {}
+): RepositorySource {
+  if (!isForgeKind(descriptor.kind) && options.allowLocalSources === false) {
+    throw new Error(LOCAL_SOURCES_DISABLED);
+  }
+
+  switch (descriptor.kind) {
+    case 'github':
+      return new GitHubRepositorySource(descriptor, options.githubToken);
+    case 'gitlab':
+      return new GitLabRepositorySource(descriptor, config.forges.gitlabToken);
+    case 'bitbucket':
+      return new BitbucketRepositorySource(descriptor, config.forges.bitbucketToken);
+    case 'gitea':
+      return new GiteaRepositorySource(descriptor, config.forges.giteaToken);
+    case 'local':
+      return new LocalRepositorySource(descriptor);
+    case 'git':
+      return new GitRepositorySource(descriptor);
+  }
+}
+
+export function createRepositorySource(
+  repoUrl: string,
+  options: RepositorySourceOptions = {}
+): RepositorySource {
+  return openRepositorySource(describeRepositorySource(repoUrl, options.ref, options.allowLocalSources), options);
+}
+
+/**
+ * The commit a tree's ref points at now. Undefined when the tree can't go stale that way:
+ * it was pinned to a commit SHA, or read from a working tree that records no commit.
+ */
+export async function resolveCurrentCommit(
+  metadata: RepositoryMetadata,
+  options: RepositorySourceOptions = {}
+): Promise<string | undefined> {
+  const descriptor = metadata.source;
+  if (!descriptor?.commitSha || descriptor.ref === descriptor.commitSha) {
+    return undefined;
+  }
+  const unpinned = { ...descriptor, commitSha: undefined };
+  return (await openRepositorySource(unpinned, options).getMetadata()).commitSha;
+}
+
+/**
+ * Reopen the source a repository tree was ingested from.
+ * Reads go through the shared content store so prefetched or already-read files aren't fetched again.
+ */
+export function openSourceForMetadata(
+  metadata: RepositoryMetadata,
+  options: RepositorySourceOptions = {}
+): RepositorySource {
+  const descriptor = metadata.source || { kind: 'github', location: metadata.url };
+  return new CachedRepositorySource(openRepositorySource(descriptor, options), contentStore);
+}
+
+export { parseRepositoryUrl };
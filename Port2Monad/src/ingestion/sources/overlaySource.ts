@@ -0,0 +1,58 @@
+/**
+ * Overlay repository source
+ * Serves in-memory content for a set of paths (e.g. transformed files) on top of
+ * another source, so the modified repository can be re-analyzed without writing it out
+ */
+
+import { gitBlobSha } from '../../utils/hash.js';
+import {
+  RepositoryDirectory,
+  RepositoryMetadata,
+  RepositorySourceDescriptor,
+  RepositoryTree,
+} from '../../types/index.js';
+import type { RepositorySource, SourceEntry } from './index.js';
+
+export class OverlayRepositorySource implements RepositorySource {
+  private inner: RepositorySource;
+  private overlay: Map<string, string>;
+
+  constructor(inner: RepositorySource, overlay: Map<string, string>) {
+    this.inner = inner;
+    this.overlay = overlay;
+  }
+
+  get descriptor(): RepositorySourceDescriptor {
+    return this.inner.descriptor;
+  }
+
+  getMetadata(): Promise<RepositoryMetadata> {
+    return this.inner.getMetadata();
+  }
+
+  listDirectory(dirPath: string): Promise<SourceEntry[]> {
+    return this.inner.listDirectory(dirPath);
+  }
+
+  async readFile(filePath: string, sha?: string): Promise<string> {
+    const content = this.overlay.get(filePath);
+    return content !== undefined ? content : this.inner.readFile(filePath, sha);
+  }
+}
+
+/**
+ * The tree with overlaid files carrying the blob SHA of their new content, so caches
+ * keyed by SHA don't serve the original files
+ */
+export function overlayRepositoryTree(tree: RepositoryTree, overlay: Map<string, string>): RepositoryTree {
+  const overlayDirectory = (dir: RepositoryDirectory): RepositoryDirectory => ({
+    ...dir,
+    files: dir.files.map((file) => {
+      const content = overlay.get(file.path);
+      return content !== undefined ? { ...file, sha: gitBlobSha(content) } : file;
+    }),
+    subdirectories: dir.subdirectories.map(overlayDirectory),
+  });
+
+  return { ...tree, root: overlayDirectory(tree.root) };
+}
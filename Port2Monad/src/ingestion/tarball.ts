@@ -0,0 +1,110 @@
+/**
+ * Minimal tar archive reader
+ * Extracts regular files from (optionally gzipped) tarballs such as
+ * GitHub's repository archives and `git archive` output
+ */
+
+import { gunzipSync } from 'zlib';
+
+const BLOCK_SIZE = 512;
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+function readSize(block: Buffer): number {
+  // Sizes above 8GB use base-256 encoding, flagged by the high bit
+  if (block[124] & 0x80) {
+    let size = 0;
+    for (let i = 125; i < 136; i++) {
+      size = size * 256 + block[i];
+    }
+    return size;
+  }
+  return parseInt(readString(block, 124, 12).trim() || '0', 8);
+}
+
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+
+  // Each record: "<length> <key>=<value>\n", where length covers the whole record
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString('utf8'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf8');
+    const separator = record.indexOf('=');
+    if (separator !== -1) {
+      records[record.substring(0, separator)] = record.substring(separator + 1);
+    }
+    offset += length;
+  }
+
+  return records;
+}
+
+/**
+ * Extract regular files from a tarball.
+ * `stripComponents` drops leading path segments (GitHub archives wrap everything in `<owner>-<repo>-<sha>/`).
+ */
+export function readTarball(archive: Buffer, stripComponents: number = 0): Map<string, Buffer> {
+  const data = archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive;
+  const files = new Map<string, Buffer>();
+
+  let offset = 0;
+  let pendingPath: string | null = null;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+
+    // Archive ends with zero-filled blocks
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = readSize(header);
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const bodyStart = offset + BLOCK_SIZE;
+    const body = data.subarray(bodyStart, bodyStart + size);
+    offset = bodyStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === 'x') {
+      // Per-entry pax header: overrides the next entry's path
+      pendingPath = parsePaxRecords(body).path || null;
+      continue;
+    }
+    if (typeFlag === 'L') {
+      // GNU long name extension
+      pendingPath = readString(body, 0, body.length);
+      continue;
+    }
+    if (typeFlag === 'g') {
+      continue;
+    }
+
+    let entryPath = pendingPath;
+    pendingPath = null;
+    if (!entryPath) {
+      const name = readString(header, 0, 100);
+      const prefix = readString(header, 345, 155);
+      entryPath = prefix ? `${prefix}/${name}` : name;
+    }
+
+    if (typeFlag !== '0' && typeFlag !== '7') {
+      continue; // Directories, links and devices carry no file content
+    }
+
+    const segments = entryPath.replace(/^\.\//, '').split('/').slice(stripComponents);
+    if (segments.length === 0 || segments.some((segment) => segment === '..')) {
+      continue;
+    }
+
+    files.set(segments.join('/'), Buffer.from(body));
+  }
+
+  return files;
+}
@@ -10,6 +10,9 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { apiClient } from './server/http.js';
 import { logger } from './utils/logger.js';
 import type {
+  AnalysisProgress,
+  AnalyzeSolidityResponse,
+  AnalyzeSolidityStreamEvent,
   ExplainValidateResponse,
   TransformResponse,
   PlanResponse,
@@ -19,6 +22,33 @@ import type {
   ValidationReport,
 } from './types/index.js';
 
+/**
+ * Read a streamed /analyze/solidity response: one JSON line per parsed file, then the result
+ */
+async function readAnalysisStream(
+  stream: AsyncIterable<Buffer | string>,
+  onProgress: (progress: AnalysisProgress) => void
+): Promise<AnalyzeSolidityResponse> {
+  let result: AnalyzeSolidityResponse = { success: false, error: 'Analysis stream ended without a result' };
+  let buffered = '';
+
+  for await (const chunk of stream) {
+    buffered += chunk.toString();
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    for (const line of lines.filter((l) => l.trim())) {
+      const { type, ...event } = JSON.parse(line) as AnalyzeSolidityStreamEvent;
+      if (type === 'progress') {
+        onProgress(event as AnalysisProgress);
+      } else {
+        result = event as AnalyzeSolidityResponse;
+      }
+    }
+  }
+
+  return result;
+}
+
 // Initialize MCP Server
 const server = new Server({
   name: 'monad-migration-mcp',
@@ -37,12 +67,33 @@ const ingestRepositoryTool: Tool = {
     properties: {
       repositoryUrl: {
         type: 'string',
-        description: 'GitHub repository URL (e.g., https://github.com/owner/repo)',
+        description: 'Repository URL on GitHub, GitHub Enterprise, GitLab, Bitbucket or Gitea (e.g., https://github.com/owner/repo)',
       },
       branch: {
         type: 'string',
-        description: 'Branch name (default: main)',
-        default: 'main',
+        description: 'Branch, tag or commit SHA (default: repository default branch)',
+      },
+      include: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Glob patterns files must match (e.g., src/**/*.sol)',
+      },
+      exclude: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Glob patterns of files and directories to skip, applied after .port2monadignore',
+      },
+      maxFiles: {
+        type: 'number',
+        description: 'Maximum number of files to ingest',
+      },
+      maxDepth: {
+        type: 'number',
+        description: 'Maximum directory depth to ingest',
+      },
+      maxBytes: {
+        type: 'number',
+        description: 'Maximum total file size in bytes (0 for no limit)',
       },
     },
     required: ['repositoryUrl'],
@@ -61,7 +112,7 @@ const analyzeSolidityTool: Tool = {
     properties: {
       repositoryId: {
         type: 'string',
-        description: 'Repository ID (owner/repo format)',
+        description: 'Repository ID (owner/repo or owner/repo@ref format)',
       },
     },
     required: ['repositoryId'],
@@ -80,7 +131,12 @@ const planMigrationTool: Tool = {
     properties: {
       repositoryId: {
         type: 'string',
-        description: 'Repository ID (owner/repo format)',
+        description: 'Repository ID (owner/repo or owner/repo@ref format)',
+      },
+      includeRoles: {
+        type: 'array',
+        items: { type: 'string', enum: ['source', 'test', 'script', 'dependency', 'mock'] },
+        description: 'File roles to target (default: source files only)',
       },
     },
     required: ['repositoryId'],
@@ -99,7 +155,12 @@ const transformCodeTool: Tool = {
     properties: {
       repositoryId: {
         type: 'string',
-        description: 'Repository ID (owner/repo format)',
+        description: 'Repository ID (owner/repo or owner/repo@ref format)',
+      },
+      includeRoles: {
+        type: 'array',
+        items: { type: 'string', enum: ['source', 'test', 'script', 'dependency', 'mock'] },
+        description: 'File roles to target (default: source files only)',
       },
     },
     required: ['repositoryId'],
@@ -118,7 +179,7 @@ const explainAndValidateTool: Tool = {
     properties: {
       repositoryId: {
         type: 'string',
-        description: 'Repository ID (owner/repo format)',
+        description: 'Repository ID (owner/repo or owner/repo@ref format)',
       },
     },
     required: ['repositoryId'],
@@ -156,7 +217,7 @@ const queryResultsTool: Tool = {
     properties: {
       repositoryId: {
         type: 'string',
-        description: 'Repository ID (owner/repo format)',
+        description: 'Repository ID (owner/repo or owner/repo@ref format)',
       },
       stage: {
         type: 'string',
@@ -184,7 +245,7 @@ server.setRequestHandler('tools/list', async () => {
 });
 
 // Handle tool calls
-server.setRequestHandler('tools/call', async (request) => {
+server.setRequestHandler('tools/call', async (request, extra) => {
   const { name, arguments: args } = request.params;
 
   try {
@@ -192,14 +253,25 @@ server.setRequestHandler('tools/call', async (request) => {
 
     switch (name) {
       case 'ingestRepository': {
-        const { repositoryUrl, branch = 'main' } = args as {
+        const { repositoryUrl, branch, include, exclude, maxFiles, maxDepth, maxBytes } = args as {
           repositoryUrl: string;
           branch?: string;
+          include?: string[];
+          exclude?: string[];
+          maxFiles?: number;
+          maxDepth?: number;
+          maxBytes?: number;
         };
         logger.info({ repositoryUrl, branch }, 'MCP: Ingesting repository');
 
         const response = (await apiClient.api.post('/ingest', {
           repoUrl: repositoryUrl,
+          ref: branch,
+          include,
+          exclude,
+          maxFiles,
+          maxDepth,
+          maxBytes,
         })) as any;
 
         result = {
@@ -211,25 +283,42 @@ server.setRequestHandler('tools/call', async (request) => {
 
       case 'analyzeSolidity': {
         const { repositoryId } = args as { repositoryId: string };
+        const progressToken = request.params._meta?.progressToken;
         logger.info({ repositoryId }, 'MCP: Analyzing Solidity');
 
-        const response = (await apiClient.api.post('/analyze/solidity', {
-          repoId: repositoryId,
-        })) as any;
+        // Forward per-file progress to clients that passed a progress token
+        const response = (await apiClient.api.post(
+          '/analyze/solidity',
+          { repoId: repositoryId, stream: true },
+          { responseType: 'stream' }
+        )) as any;
+        const data = await readAnalysisStream(response.data, (progress) => {
+          if (progressToken === undefined) return;
+          void extra.sendNotification({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: progress.completed,
+              total: progress.total,
+              message: `${progress.status} ${progress.filePath}`,
+            },
+          });
+        });
 
         result = {
           type: 'text',
-          text: JSON.stringify(response.data, null, 2),
+          text: JSON.stringify(data, null, 2),
         };
         break;
       }
 
       case 'planMigration': {
-        const { repositoryId } = args as { repositoryId: string };
-        logger.info({ repositoryId }, 'MCP: Planning migration');
+        const { repositoryId, includeRoles } = args as { repositoryId: string; includeRoles?: string[] };
+        logger.info({ repositoryId, includeRoles }, 'MCP: Planning migration');
 
         const response = (await apiClient.api.post('/plan/migration', {
           repoId: repositoryId,
+          includeRoles,
         })) as any;
 
         result = {
@@ -240,11 +329,12 @@ server.setRequestHandler('tools/call', async (request) => {
       }
 
       case 'transformCode': {
-        const { repositoryId } = args as { repositoryId: string };
-        logger.info({ repositoryId }, 'MCP: Transforming code');
+        const { repositoryId, includeRoles } = args as { repositoryId: string; includeRoles?: string[] };
+        logger.info({ repositoryId, includeRoles }, 'MCP: Transforming code');
 
         const response = (await apiClient.api.post('/transform', {
           repoId: repositoryId,
+          includeRoles,
         })) as any;
 
         result = {
@@ -4,19 +4,45 @@
  */
 
 import express, { Express, Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { pathToFileURL } from 'url';
 import { logger } from '../utils/logger.js';
 import { config } from '../utils/config.js';
-import { ingestRepository } from '../ingestion/repository.js';
-import { analyzeSolidityRepository } from '../analysis/solidityAnalyzer.js';
+import { IngestOptions, ingestRepository } from '../ingestion/repository.js';
+import {
+  describeRepositorySource,
+  getRepositoryId,
+  resolveCurrentCommit,
+  resolveRepositoryId,
+  UnresolvableRepositoryIdError,
+} from '../ingestion/sources/index.js';
+import { AnalysisCancelledError, analyzeSolidityRepository } from '../analysis/solidityAnalyzer.js';
+import { findCallees, findCallers } from '../analysis/callGraph.js';
+import { diffAnalyses } from '../analysis/analysisDiff.js';
+import { DEFAULT_TARGET_ROLES, FILE_ROLES } from '../ingestion/fileTypeDetector.js';
 import { planRepositoryMigration } from '../agents/migrationPlanner.js';
 import { transformRepository } from '../agents/transformer.js';
 import { explainAndValidateTransformation } from '../agents/explainerValidator.js';
+import {
+  ForgeError,
+  ForgeNotFoundError,
+  ForgeRateLimitError,
+  ForgeUnauthorizedError,
+} from '../forges/errors.js';
 import {
   IngestRequest, 
   IngestResponse, 
   RepositoryDirectory,
   AnalyzeSolidityRequest,
   AnalyzeSolidityResponse,
+  AnalyzeSolidityStreamEvent,
+  StorageLayoutRequest,
+  StorageLayoutResponse,
+  CallGraphQueryRequest,
+  CallGraphQueryResponse,
+  AnalysisDiffRequest,
+  AnalysisDiffResponse,
+  SolidityAnalysisResult,
   RepositoryTree,
   PlanMigrationRequest,
   PlanMigrationResponse,
@@ -24,6 +50,7 @@ import {
   TransformResponse,
   ExplainValidateRequest,
   ExplainValidateResponse,
+  FileRole,
 } from '../types/index.js';
 
 // In-memory cache for ingested repositories (temporary)
@@ -46,6 +73,152 @@ const planCache = new Map<string, PlanCache>();
 
 const CACHE_TTL_MS = 30 * 60 * 1000; // 30 minutes
 
+type IngestFilterOptions = Pick<IngestOptions, 'include' | 'exclude' | 'maxFiles' | 'maxDepth' | 'maxBytes'>;
+
+function ingest(
+  repoUrl: string,
+  ref?: string,
+  prefetch?: boolean,
+  filters: IngestFilterOptions = {}
+): Promise<RepositoryTree> {
+  return ingestRepository(repoUrl, config.githubToken, {
+    allowLocalSources: config.ingestion.allowLocalSources,
+    mode: config.ingestion.mode,
+    prefetch: prefetch ?? config.ingestion.prefetchArchive,
+    ref,
+    ...filters,
+  });
+}
+
+/**
+ * Cache key suffix for an ingest narrowed by request globs or budgets, so the cut-down tree
+ * doesn't stand in for the full one other requests expect. Empty when the request sets none.
+ */
+function filterKeySuffix(filters: IngestFilterOptions): string {
+  const given = Object.entries(filters).filter(
+    ([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0)
+  );
+  if (given.length === 0) {
+    return '';
+  }
+  const hash = createHash('sha256').update(JSON.stringify(Object.fromEntries(given))).digest('hex');
+  return `#${hash.substring(0, 12)}`;
+}
+
+/**
+ * Forget the analysis and plan derived from a tree that is being replaced
+ */
+function dropDerivedCaches(cacheKey: string): void {
+  analysisCache.delete(cacheKey);
+  planCache.delete(cacheKey);
+}
+
+/**
+ * Validate an ingest request's globs and budgets. Returns an error message if invalid.
+ */
+function validateIngestFilters(body: IngestRequest): string | null {
+  for (const key of ['include', 'exclude'] as const) {
+    const patterns = body[key];
+    if (patterns !== undefined && (!Array.isArray(patterns) || !patterns.every((p) => typeof p === 'string'))) {
+      return `Invalid ${key}; expected an array of glob patterns`;
+    }
+  }
+  for (const key of ['maxFiles', 'maxDepth'] as const) {
+    const value = body[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      return `Invalid ${key}; expected a positive integer`;
+    }
+  }
+  if (body.maxBytes !== undefined && (!Number.isInteger(body.maxBytes) || body.maxBytes < 0)) {
+    return 'Invalid maxBytes; expected a non-negative integer (0 for no limit)';
+  }
+  return null;
+}
+
+/**
+ * Ingest a forge repository from its cache key (`owner/repo`, `host/owner/repo`, optionally `@ref`).
+ * Keys of filtered ingests only record a hash of the filters, so those can't be rebuilt.
+ */
+function ingestRepositoryId(repoId: string): Promise<RepositoryTree> {
+  if (repoId.includes('#')) {
+    throw new UnresolvableRepositoryIdError(
+      `Repository ${repoId} was ingested with filters and is no longer cached; ingest it again`
+    );
+  }
+  const { repoUrl, ref } = resolveRepositoryId(repoId);
+  return ingest(repoUrl, ref);
+}
+
+/**
+ * Resolve the cache key for a repository URL or local path, or null if unsupported.
+ * Keys include the ref so two branches of the same repository are cached separately.
+ */
+function resolveCacheKey(repoUrl: string, ref?: string): string | null {
+  try {
+    return getRepositoryId(describeRepositorySource(repoUrl, ref, config.ingestion.allowLocalSources));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a request's `includeRoles`, defaulting to project sources. Returns null if invalid.
+ */
+function parseIncludeRoles(value: unknown): FileRole[] | null {
+  if (value === undefined) {
+    return DEFAULT_TARGET_ROLES;
+  }
+  if (!Array.isArray(value) || value.length === 0 || !value.every((role) => FILE_ROLES.includes(role))) {
+    return null;
+  }
+  return value as FileRole[];
+}
+
+function sameRoles(a: FileRole[], b: FileRole[]): boolean {
+  return a.length === b.length && a.every((role) => b.includes(role));
+}
+
+/**
+ * Map a pipeline failure to an HTTP status so clients can tell a missing repository from a rate limit
+ */
+function getErrorStatus(error: unknown, res: Response): number {
+  if (error instanceof ForgeRateLimitError) {
+    if (error.retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    }
+    return 429;
+  }
+  if (error instanceof ForgeNotFoundError) {
+    return 404;
+  }
+  if (error instanceof ForgeUnauthorizedError) {
+    return error.status === 403 ? 403 : 401;
+  }
+  if (error instanceof ForgeError) {
+    return 502;
+  }
+  if (error instanceof UnresolvableRepositoryIdError) {
+    return 400;
+  }
+  return 500;
+}
+
+/**
+ * Signal that aborts once the client disconnects before the response is finished,
+ * so analysis stops fetching and parsing files nobody will receive
+ */
+function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+function writeStreamEvent(res: Response, event: AnalyzeSolidityStreamEvent): void {
+  res.write(`${JSON.stringify(event)}\n`);
+}
+
 export class HttpServer {
   private app: Express;
   private server: any;
@@ -95,6 +268,15 @@ export class HttpServer {
     // Solidity analysis endpoint
     this.app.post('/analyze/solidity', this.handleAnalyzeSolidityRequest.bind(this));
 
+    // Storage layout endpoint
+    this.app.post('/analyze/storage-layout', this.handleStorageLayoutRequest.bind(this));
+
+    // Call graph query endpoint
+    this.app.post('/analyze/call-graph', this.handleCallGraphRequest.bind(this));
+
+    // Analysis diff between two refs
+    this.app.post('/analyze/diff', this.handleAnalysisDiffRequest.bind(this));
+
     // Migration planning endpoint
     this.app.post('/plan/migration', this.handlePlanMigrationRequest.bind(this));
 
@@ -113,6 +295,9 @@ export class HttpServer {
           health: 'GET /health',
           ingest: 'POST /ingest',
           analyzeSolidity: 'POST /analyze/solidity',
+          storageLayout: 'POST /analyze/storage-layout',
+          callGraph: 'POST /analyze/call-graph',
+          analysisDiff: 'POST /analyze/diff',
           planMigration: 'POST /plan/migration',
           transform: 'POST /transform',
           explainValidate: 'POST /explain-validate',
@@ -140,27 +325,45 @@ export class HttpServer {
         return;
       }
 
-      logger.info({ repoUrl: body.repoUrl }, 'Ingest request received');
+      const filterError = validateIngestFilters(body);
+      if (filterError) {
+        res.status(400).json({
+          success: false,
+          error: filterError,
+        } as IngestResponse);
+        return;
+      }
 
-      const tree = await ingestRepository(
-        body.repoUrl,
-        config.githubToken
-      );
+      logger.info({ repoUrl: body.repoUrl, ref: body.ref }, 'Ingest request received');
+
+      const filters: IngestFilterOptions = {
+        include: body.include,
+        exclude: body.exclude,
+        maxFiles: body.maxFiles,
+        maxDepth: body.maxDepth,
+        maxBytes: body.maxBytes,
+      };
+      const tree = await ingest(body.repoUrl, body.ref, body.prefetch, filters);
 
       // Build preview (limit depth to 2 levels)
       const preview = this.buildPreview(tree.root, 0, 2);
 
-      // Cache the tree for later analysis
-      const cacheKey = `${tree.metadata.owner}/${tree.metadata.name}`;
+      // Cache the tree for later analysis; filtered trees get a key of their own
+      const descriptor = describeRepositorySource(body.repoUrl, body.ref, config.ingestion.allowLocalSources);
+      const cacheKey = getRepositoryId(descriptor) + filterKeySuffix(filters);
       repoCache.set(cacheKey, tree);
+      dropDerivedCaches(cacheKey);
       logger.debug({ cacheKey }, 'Repository cached');
 
       const response: IngestResponse = {
         success: true,
+        repositoryId: cacheKey,
         metadata: {
           owner: tree.metadata.owner,
           name: tree.metadata.name,
           fullName: tree.metadata.fullName,
+          ref: tree.metadata.ref,
+          commitSha: tree.metadata.commitSha,
         },
         stats: {
           totalFiles: tree.stats.totalFiles,
@@ -169,7 +372,11 @@ export class HttpServer {
           javascriptFiles: tree.stats.javascriptFiles,
           configFiles: tree.stats.configFiles,
           totalSize: tree.stats.totalSize,
+          truncated: tree.stats.truncated,
+          truncationReasons: tree.stats.truncationReasons,
         },
+        filters: tree.filters,
+        warnings: tree.warnings.length > 0 ? tree.warnings : undefined,
         preview: {
           root: preview,
           maxDepth: 2,
@@ -179,7 +386,7 @@ export class HttpServer {
       res.json(response);
     } catch (error) {
       logger.error({ error }, 'Ingest request failed');
-      res.status(500).json({
+      res.status(getErrorStatus(error, res)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       } as IngestResponse);
@@ -190,59 +397,353 @@ export class HttpServer {
     try {
       const body = req.body as AnalyzeSolidityRequest;
 
-      if (!body.repoUrl) {
+      if (!body.repoUrl && !body.repoId) {
         res.status(400).json({
           success: false,
-          error: 'Missing required field: repoUrl',
+          error: 'Missing required field: repoUrl or repoId',
         } as AnalyzeSolidityResponse);
         return;
       }
 
-      logger.info({ repoUrl: body.repoUrl }, 'Analyze Solidity request received');
+      logger.info({ repoUrl: body.repoUrl, repoId: body.repoId, ref: body.ref }, 'Analyze Solidity request received');
 
       // Check cache first, otherwise ingest
-      let repoTree: RepositoryTree;
-      const urlParts = body.repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-      if (!urlParts) {
+      const cacheKey = body.repoId || resolveCacheKey(body.repoUrl!, body.ref);
+      if (!cacheKey) {
         res.status(400).json({
           success: false,
-          error: 'Invalid GitHub repository URL',
+          error: 'Invalid repository URL or path',
         } as AnalyzeSolidityResponse);
         return;
       }
 
-      const cacheKey = `${urlParts[1]}/${urlParts[2].replace(/\.git$/, '')}`;
-      
-      if (repoCache.has(cacheKey)) {
-        logger.info({ cacheKey }, 'Using cached repository');
-        repoTree = repoCache.get(cacheKey)!;
-      } else {
-        logger.info({ cacheKey }, 'Ingesting repository for analysis');
-        repoTree = await ingestRepository(body.repoUrl, config.githubToken);
-        repoCache.set(cacheKey, repoTree);
+      const repoTree = await this.loadTree(cacheKey, body.repoUrl, body.ref);
+
+      // Stop fetching files once the client goes away
+      const signal = abortOnDisconnect(res);
+
+      // Streaming clients get one JSON line per file as it finishes, then the result
+      if (body.stream) {
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        res.flushHeaders();
       }
 
       // Analyze Solidity code
-      const analysisResult = await analyzeSolidityRepository(
-        repoTree,
-        config.githubToken
-      );
+      const analysisResult = await analyzeSolidityRepository(repoTree, config.githubToken, undefined, {
+        signal,
+        onProgress: body.stream ? (progress) => writeStreamEvent(res, { type: 'progress', ...progress }) : undefined,
+      });
 
       const response: AnalyzeSolidityResponse = {
         success: true,
         result: analysisResult,
       };
 
-      res.json(response);
+      if (body.stream) {
+        writeStreamEvent(res, { type: 'result', ...response });
+        res.end();
+      } else {
+        res.json(response);
+      }
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        logger.info('Client disconnected; Solidity analysis cancelled');
+        return;
+      }
       logger.error({ error }, 'Analyze Solidity request failed');
-      res.status(500).json({
+      const response = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } as AnalyzeSolidityResponse;
+
+      // A streamed response has already sent its status
+      if (res.headersSent) {
+        writeStreamEvent(res, { type: 'result', ...response });
+        res.end();
+      } else {
+        res.status(getErrorStatus(error, res)).json(response);
+      }
+    }
+  }
+
+  private async handleStorageLayoutRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body as StorageLayoutRequest;
+
+      if (!body.repoUrl && !body.repoId) {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required field: repoUrl or repoId',
+        } as StorageLayoutResponse);
+        return;
+      }
+
+      if (body.contractName !== undefined && typeof body.contractName !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid contractName; expected a string',
+        } as StorageLayoutResponse);
+        return;
+      }
+
+      logger.info(
+        { repoUrl: body.repoUrl, repoId: body.repoId, contractName: body.contractName },
+        'Storage layout request received'
+      );
+
+      const cacheKey = body.repoId || resolveCacheKey(body.repoUrl!, body.ref);
+      if (!cacheKey) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid repository URL or path',
+        } as StorageLayoutResponse);
+        return;
+      }
+
+      const analysisResult = await this.loadAnalysis(cacheKey, body.repoUrl, body.ref, abortOnDisconnect(res));
+      const layouts = analysisResult.storageLayouts || [];
+      const selected = body.contractName
+        ? layouts.filter((layout) => layout.contractName === body.contractName)
+        : layouts;
+
+      if (body.contractName && selected.length === 0) {
+        res.status(404).json({
+          success: false,
+          error: `No storage layout for contract ${body.contractName}`,
+        } as StorageLayoutResponse);
+        return;
+      }
+
+      const response: StorageLayoutResponse = {
+        success: true,
+        layouts: selected,
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        logger.info('Client disconnected; storage layout cancelled');
+        return;
+      }
+      logger.error({ error }, 'Storage layout request failed');
+      res.status(getErrorStatus(error, res)).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } as StorageLayoutResponse);
+    }
+  }
+
+  private async handleCallGraphRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body as CallGraphQueryRequest;
+
+      if (!body.repoUrl && !body.repoId) {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required field: repoUrl or repoId',
+        } as CallGraphQueryResponse);
+        return;
+      }
+
+      if (typeof body.contractName !== 'string' || typeof body.functionName !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required fields: contractName and functionName',
+        } as CallGraphQueryResponse);
+        return;
+      }
+
+      const direction = body.direction || 'both';
+      if (!['callers', 'callees', 'both'].includes(direction)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid direction; expected callers, callees or both',
+        } as CallGraphQueryResponse);
+        return;
+      }
+
+      logger.info(
+        { repoUrl: body.repoUrl, repoId: body.repoId, contractName: body.contractName, functionName: body.functionName },
+        'Call graph request received'
+      );
+
+      const cacheKey = body.repoId || resolveCacheKey(body.repoUrl!, body.ref);
+      if (!cacheKey) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid repository URL or path',
+        } as CallGraphQueryResponse);
+        return;
+      }
+
+      const analysisResult = await this.loadAnalysis(cacheKey, body.repoUrl, body.ref, abortOnDisconnect(res));
+      if (!analysisResult.contracts.some((c) => c.name === body.contractName)) {
+        res.status(404).json({
+          success: false,
+          error: `Contract not found: ${body.contractName}`,
+        } as CallGraphQueryResponse);
+        return;
+      }
+
+      const edges = analysisResult.dependencyGraph.edges;
+      const response: CallGraphQueryResponse = {
+        success: true,
+        callers: direction === 'callees' ? undefined : findCallers(edges, body.contractName, body.functionName),
+        callees: direction === 'callers' ? undefined : findCallees(edges, body.contractName, body.functionName),
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        logger.info('Client disconnected; call graph cancelled');
+        return;
+      }
+      logger.error({ error }, 'Call graph request failed');
+      res.status(getErrorStatus(error, res)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-      } as AnalyzeSolidityResponse);
+      } as CallGraphQueryResponse);
     }
   }
 
+  private async handleAnalysisDiffRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body as AnalysisDiffRequest;
+
+      if (!body.repoUrl) {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required field: repoUrl',
+        } as AnalysisDiffResponse);
+        return;
+      }
+
+      if (typeof body.baseRef !== 'string' || typeof body.headRef !== 'string' || !body.baseRef || !body.headRef) {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required fields: baseRef and headRef',
+        } as AnalysisDiffResponse);
+        return;
+      }
+
+      logger.info(
+        { repoUrl: body.repoUrl, baseRef: body.baseRef, headRef: body.headRef },
+        'Analysis diff request received'
+      );
+
+      const baseKey = resolveCacheKey(body.repoUrl, body.baseRef);
+      const headKey = resolveCacheKey(body.repoUrl, body.headRef);
+      if (!baseKey || !headKey) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid repository URL or path',
+        } as AnalysisDiffResponse);
+        return;
+      }
+
+      // The head analysis reparses only the files that differ from the base
+      const signal = abortOnDisconnect(res);
+      const base = await this.loadAnalysis(baseKey, body.repoUrl, body.baseRef, signal);
+      const head = await this.loadAnalysis(headKey, body.repoUrl, body.headRef, signal);
+
+      const response: AnalysisDiffResponse = {
+        success: true,
+        diff: diffAnalyses(base, head, {
+          baseRef: body.baseRef,
+          headRef: body.headRef,
+          baseCommit: repoCache.get(baseKey)?.metadata.commitSha,
+          headCommit: repoCache.get(headKey)?.metadata.commitSha,
+        }),
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        logger.info('Client disconnected; analysis diff cancelled');
+        return;
+      }
+      logger.error({ error }, 'Analysis diff request failed');
+      res.status(getErrorStatus(error, res)).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } as AnalysisDiffResponse);
+    }
+  }
+
+  /**
+   * Repository tree for a cache key, ingesting it if needed. A cached tree of a branch is
+   * only reused while the branch still points at the commit it was ingested from; otherwise
+   * it is ingested again with the same filters and what was derived from it is dropped.
+   */
+  private async loadTree(cacheKey: string, repoUrl?: string, ref?: string): Promise<RepositoryTree> {
+    const cached = repoCache.get(cacheKey);
+    if (cached) {
+      let head: string | undefined;
+      try {
+        head = await resolveCurrentCommit(cached.metadata, {
+          githubToken: config.githubToken,
+          allowLocalSources: config.ingestion.allowLocalSources,
+        });
+      } catch (error) {
+        logger.warn({ error, cacheKey }, 'Could not resolve the current commit; using the cached repository');
+      }
+      if (head === undefined || head === cached.metadata.commitSha) {
+        logger.info({ cacheKey }, 'Using cached repository');
+        return cached;
+      }
+
+      logger.info({ cacheKey, cachedCommit: cached.metadata.commitSha, head }, 'Ref moved since ingestion, ingesting again');
+      // A file:// URL keeps a checkout without a pinned ref reading from its git history
+      const source = cached.metadata.source!;
+      const location = source.kind === 'git' ? pathToFileURL(source.location).href : source.location;
+      const { include, exclude, maxFiles, maxDepth, maxBytes } = cached.filters;
+      const tree = await ingest(location, source.ref, undefined, { include, exclude, maxFiles, maxDepth, maxBytes });
+      repoCache.set(cacheKey, tree);
+      dropDerivedCaches(cacheKey);
+      return tree;
+    }
+
+    logger.info({ cacheKey }, 'Repository not in cache, fetching');
+    const tree = repoUrl ? await ingest(repoUrl, ref) : await ingestRepositoryId(cacheKey);
+    repoCache.set(cacheKey, tree);
+    return tree;
+  }
+
+  /**
+   * Cached analysis of a repository tree, analyzing it if needed
+   */
+  private async analyzeTree(
+    cacheKey: string,
+    tree: RepositoryTree,
+    signal?: AbortSignal
+  ): Promise<SolidityAnalysisResult> {
+    let analysisCache_ = analysisCache.get(cacheKey);
+    if (!analysisCache_ || Date.now() - analysisCache_.timestamp > CACHE_TTL_MS) {
+      logger.info({ cacheKey }, 'Analysis not in cache, analyzing');
+      const analysisResult = await analyzeSolidityRepository(tree, config.githubToken, undefined, { signal });
+      analysisCache.set(cacheKey, {
+        analysisResult,
+        repoMetadata: tree.metadata,
+        timestamp: Date.now(),
+      });
+      analysisCache_ = analysisCache.get(cacheKey)!;
+    }
+
+    return analysisCache_.analysisResult;
+  }
+
+  /**
+   * Cached analysis for a repository, ingesting and analyzing it if needed
+   */
+  private async loadAnalysis(
+    cacheKey: string,
+    repoUrl?: string,
+    ref?: string,
+    signal?: AbortSignal
+  ): Promise<SolidityAnalysisResult> {
+    return this.analyzeTree(cacheKey, await this.loadTree(cacheKey, repoUrl, ref), signal);
+  }
+
   private async handlePlanMigrationRequest(req: Request, res: Response): Promise<void> {
     try {
       const body = req.body as PlanMigrationRequest;
@@ -257,21 +758,28 @@ export class HttpServer {
 
       logger.info({ repoUrl: body.repoUrl, repoId: body.repoId }, 'Plan migration request received');
 
+      const includeRoles = parseIncludeRoles(body.includeRoles);
+      if (!includeRoles) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid includeRoles; expected a non-empty array of: ${FILE_ROLES.join(', ')}`,
+        } as PlanMigrationResponse);
+        return;
+      }
+
       let cacheKey: string | null = null;
 
       if (body.repoId) {
         cacheKey = body.repoId;
       } else if (body.repoUrl) {
-        // Parse repo info
-        const urlParts = body.repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-        if (!urlParts) {
+        cacheKey = resolveCacheKey(body.repoUrl, body.ref);
+        if (!cacheKey) {
           res.status(400).json({
             success: false,
-            error: 'Invalid GitHub repository URL',
+            error: 'Invalid repository URL or path',
           } as PlanMigrationResponse);
           return;
         }
-        cacheKey = `${urlParts[1]}/${urlParts[2].replace(/\.git$/, '')}`;
       }
 
       if (!cacheKey) {
@@ -282,60 +790,17 @@ export class HttpServer {
         return;
       }
 
-      // Check if we have cached analysis
-      const cached = analysisCache.get(cacheKey);
-      let analysisResult = cached?.analysisResult;
-      let repoMetadata = cached?.repoMetadata;
-
-      if (!analysisResult) {
-        logger.info({ cacheKey }, 'Analysis not cached, running ingestion and analysis');
-
-        // Ingest repository if not cached
-        let repoTree: RepositoryTree;
-        if (repoCache.has(cacheKey)) {
-          logger.info({ cacheKey }, 'Using cached repository');
-          repoTree = repoCache.get(cacheKey)!;
-        } else {
-          if (!body.repoUrl) {
-            res.status(400).json({
-              success: false,
-              error: 'Repository not cached; provide repoUrl to ingest',
-            } as PlanMigrationResponse);
-            return;
-          }
-          logger.info({ cacheKey }, 'Ingesting repository for analysis');
-          repoTree = await ingestRepository(body.repoUrl, config.githubToken);
-          repoCache.set(cacheKey, repoTree);
-        }
-
-        // Analyze Solidity code
-        analysisResult = await analyzeSolidityRepository(repoTree, config.githubToken);
-        repoMetadata = repoTree.metadata;
-        analysisCache.set(cacheKey, {
-          analysisResult,
-          repoMetadata,
-          timestamp: Date.now(),
-        });
-      } else {
-        logger.info({ cacheKey }, 'Using cached analysis');
-        if (!repoMetadata && repoCache.has(cacheKey)) {
-          repoMetadata = repoCache.get(cacheKey)!.metadata;
-        }
-      }
-
-      if (!repoMetadata) {
-        res.status(500).json({
-          success: false,
-          error: 'Repository metadata unavailable for migration planning',
-        } as PlanMigrationResponse);
-        return;
-      }
+      // Ingest and analyze unless cached
+      const repoTree = await this.loadTree(cacheKey, body.repoUrl, body.ref);
+      const analysisResult = await this.analyzeTree(cacheKey, repoTree, abortOnDisconnect(res));
+      const repoMetadata = repoTree.metadata;
 
       // Plan migration using Claude
       const migrationPlan = await planRepositoryMigration(
         repoMetadata,
         analysisResult,
-        process.env.ANTHROPIC_API_KEY
+        process.env.ANTHROPIC_API_KEY,
+        includeRoles
       );
 
       // Truncate recommendations if large
@@ -357,8 +822,12 @@ export class HttpServer {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        logger.info('Client disconnected; migration planning cancelled');
+        return;
+      }
       logger.error({ error }, 'Plan migration request failed');
-      res.status(500).json({
+      res.status(getErrorStatus(error, res)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       } as PlanMigrationResponse);
@@ -379,20 +848,28 @@ export class HttpServer {
 
       logger.info({ repoUrl: body.repoUrl, repoId: body.repoId }, 'Transform request received');
 
+      const includeRoles = parseIncludeRoles(body.includeRoles);
+      if (!includeRoles) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid includeRoles; expected a non-empty array of: ${FILE_ROLES.join(', ')}`,
+        } as TransformResponse);
+        return;
+      }
+
       let cacheKey: string | null = null;
 
       if (body.repoId) {
         cacheKey = body.repoId;
       } else if (body.repoUrl) {
-        const urlParts = body.repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-        if (!urlParts) {
+        cacheKey = resolveCacheKey(body.repoUrl, body.ref);
+        if (!cacheKey) {
           res.status(400).json({
             success: false,
-            error: 'Invalid GitHub repository URL',
+            error: 'Invalid repository URL or path',
           } as TransformResponse);
           return;
         }
-        cacheKey = `${urlParts[1]}/${urlParts[2].replace(/\.git$/, '')}`;
       }
 
       if (!cacheKey) {
@@ -404,37 +881,26 @@ export class HttpServer {
       }
 
       // Get cached repository tree
-      let tree = repoCache.get(cacheKey);
-      if (!tree) {
-        const repoUrl = body.repoUrl || `https://github.com/${cacheKey}`;
-        logger.info({ repoUrl }, 'Repository not in cache, fetching');
-        tree = await ingestRepository(repoUrl, config.githubToken);
-        repoCache.set(cacheKey, tree);
-      }
+      const tree = await this.loadTree(cacheKey, body.repoUrl, body.ref);
 
       // Get or generate analysis
-      let analysisCache_ = analysisCache.get(cacheKey);
-      if (!analysisCache_ || Date.now() - analysisCache_.timestamp > CACHE_TTL_MS) {
-        logger.info({ cacheKey }, 'Analysis not in cache or expired, analyzing');
-        const analysisResult = await analyzeSolidityRepository(tree);
-        analysisCache.set(cacheKey, {
-          analysisResult,
-          repoMetadata: tree.metadata,
-          timestamp: Date.now(),
-        });
-        analysisCache_ = analysisCache.get(cacheKey)!;
-      }
-
-      const { analysisResult, repoMetadata } = analysisCache_;
+      const analysisResult = await this.analyzeTree(cacheKey, tree, abortOnDisconnect(res));
+      const repoMetadata = tree.metadata;
 
       // Get or generate migration plan
+      // A cached plan scoped to different file roles can't be reused
       let planCache_ = planCache.get(cacheKey);
-      if (!planCache_ || Date.now() - planCache_.timestamp > CACHE_TTL_MS) {
-        logger.info({ cacheKey }, 'Plan not in cache or expired, planning');
+      if (
+        !planCache_ ||
+        Date.now() - planCache_.timestamp > CACHE_TTL_MS ||
+        !sameRoles(planCache_.plan.includedRoles || DEFAULT_TARGET_ROLES, includeRoles)
+      ) {
+        logger.info({ cacheKey, includeRoles }, 'Plan not in cache, expired or differently scoped, planning');
         const migrationPlan = await planRepositoryMigration(
           repoMetadata,
           analysisResult,
-          process.env.ANTHROPIC_API_KEY
+          process.env.ANTHROPIC_API_KEY,
+          includeRoles
         );
         planCache.set(cacheKey, { plan: migrationPlan, timestamp: Date.now() });
         planCache_ = planCache.get(cacheKey)!;
@@ -448,7 +914,9 @@ export class HttpServer {
         migrationPlan,
         analysisResult,
         tree,
-        process.env.ANTHROPIC_API_KEY
+        process.env.ANTHROPIC_API_KEY,
+        undefined,
+        includeRoles
       );
 
       // Get modified files
@@ -469,8 +937,12 @@ export class HttpServer {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        logger.info('Client disconnected; transformation cancelled');
+        return;
+      }
       logger.error({ error }, 'Transform request failed');
-      res.status(500).json({
+      res.status(getErrorStatus(error, res)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       } as TransformResponse);
@@ -499,15 +971,14 @@ export class HttpServer {
       if (body.repoId) {
         cacheKey = body.repoId;
       } else if (body.repoUrl) {
-        const urlParts = body.repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-        if (!urlParts) {
+        cacheKey = resolveCacheKey(body.repoUrl, body.ref);
+        if (!cacheKey) {
           res.status(400).json({
             success: false,
-            error: 'Invalid GitHub repository URL',
+            error: 'Invalid repository URL or path',
           } as ExplainValidateResponse);
           return;
         }
-        cacheKey = `${urlParts[1]}/${urlParts[2].replace(/\.git$/, '')}`;
       }
 
       if (!cacheKey) {
@@ -519,27 +990,10 @@ export class HttpServer {
       }
 
       // Get cached data (build it if needed)
-      let tree = repoCache.get(cacheKey);
-      if (!tree) {
-        const repoUrl = body.repoUrl || `https://github.com/${cacheKey}`;
-        logger.info({ repoUrl }, 'Repository not in cache, fetching');
-        tree = await ingestRepository(repoUrl, config.githubToken);
-        repoCache.set(cacheKey, tree);
-      }
-
-      let analysisCache_ = analysisCache.get(cacheKey);
-      if (!analysisCache_ || Date.now() - analysisCache_.timestamp > CACHE_TTL_MS) {
-        logger.info({ cacheKey }, 'Analysis not in cache, analyzing');
-        const analysisResult = await analyzeSolidityRepository(tree);
-        analysisCache.set(cacheKey, {
-          analysisResult,
-          repoMetadata: tree.metadata,
-          timestamp: Date.now(),
-        });
-        analysisCache_ = analysisCache.get(cacheKey)!;
-      }
+      const tree = await this.loadTree(cacheKey, body.repoUrl, body.ref);
 
-      const { analysisResult, repoMetadata } = analysisCache_;
+      const analysisResult = await this.analyzeTree(cacheKey, tree, abortOnDisconnect(res));
+      const repoMetadata = tree.metadata;
 
       let planCache_ = planCache.get(cacheKey);
       if (!planCache_ || Date.now() - planCache_.timestamp > CACHE_TTL_MS) {
@@ -602,8 +1056,12 @@ export class HttpServer {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        logger.info('Client disconnected; explain-validate cancelled');
+        return;
+      }
       logger.error({ error }, 'Explain-validate request failed');
-      res.status(500).json({
+      res.status(getErrorStatus(error, res)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       } as ExplainValidateResponse);
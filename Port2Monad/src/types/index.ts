@@ -46,11 +46,15 @@ export type FileType =
   | 'markdown'
   | 'other';
 
+// What a file is for; only 'source' files are planned and transformed by default
+export type FileRole = 'source' | 'test' | 'script' | 'dependency' | 'mock';
+
 export interface RepositoryFile {
   path: string;
   name: string;
   extension: string;
   type: FileType;
+  role: FileRole;
   size: number;
   sha?: string;
 }
@@ -62,6 +66,17 @@ export interface RepositoryDirectory {
   subdirectories: RepositoryDirectory[];
 }
 
+export type ForgeKind = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export type RepositorySourceKind = ForgeKind | 'local' | 'git';
+
+export interface RepositorySourceDescriptor {
+  kind: RepositorySourceKind;
+  location: string; // forge web URL, absolute directory path or git directory
+  ref?: string; // requested branch, tag or commit SHA
+  commitSha?: string; // commit the ref resolved to at ingestion time
+}
+
 export interface RepositoryMetadata {
   owner: string;
   name: string;
@@ -69,8 +84,47 @@ export interface RepositoryMetadata {
   url: string;
   description?: string;
   defaultBranch: string;
+  ref?: string; // branch, tag or commit that was ingested (default branch when absent)
+  commitSha?: string; // resolved commit SHA; absent for uncommitted local working trees
   isPrivate: boolean;
   size: number;
+  source?: RepositorySourceDescriptor; // defaults to GitHub when absent
+}
+
+export type IngestionMode = 'tree' | 'walk';
+
+export type ProjectFramework = 'foundry' | 'hardhat' | 'truffle';
+
+export interface ImportRemapping {
+  context?: string; // only applies to imports from files under this path
+  prefix: string;
+  target: string; // repository-relative path the prefix maps to
+  origin: 'remappings.txt' | 'foundry.toml' | 'inferred';
+}
+
+export interface ProjectLayout {
+  root: string; // directory holding the project config, '' for the repository root
+  frameworks: ProjectFramework[];
+  configFiles: string[];
+  // Repository-relative directories
+  sourceRoots: string[];
+  testRoots: string[];
+  scriptRoots: string[];
+  libRoots: string[];
+  remappings: ImportRemapping[];
+  compilerVersion?: string; // solc version pinned by the config
+  evmVersion?: string; // EVM target set in the config
+}
+
+// Effective file selection and budgets for one ingestion
+export interface IngestionFilters {
+  include: string[]; // glob patterns; empty includes every file
+  exclude: string[]; // glob patterns from the request
+  ignoreFile?: string; // .port2monadignore that was honored
+  ignorePatterns: string[]; // patterns read from the ignore file
+  maxFiles: number;
+  maxDepth: number;
+  maxBytes: number; // 0 for no byte budget
 }
 
 export interface RepositoryTree {
@@ -84,20 +138,37 @@ export interface RepositoryTree {
     configFiles: number;
     otherFiles: number;
     totalSize: number;
+    ingestionMode: IngestionMode; // mode actually used, after any fallback
+    prefetchedFiles: number; // files loaded into the content store from the repository archive
+    truncated: boolean;
+    truncationReasons: string[];
   };
+  projects: ProjectLayout[]; // detected Foundry/Hardhat/Truffle projects, shallowest first
+  filters: IngestionFilters;
+  warnings: string[]; // parts of the repository that could not be fetched
   fetchedAt: string;
 }
 
 export interface IngestRequest {
   repoUrl: string;
+  ref?: string; // branch, tag or commit SHA; overrides a /tree/<ref> URL suffix
+  prefetch?: boolean; // download the repository archive up front (defaults to server config)
+  include?: string[]; // glob patterns files must match
+  exclude?: string[]; // glob patterns of files and directories to skip
+  maxFiles?: number;
+  maxDepth?: number;
+  maxBytes?: number;
 }
 
 export interface IngestResponse {
   success: boolean;
+  repositoryId?: string; // cache key to pass as repoId to later pipeline stages; filtered ingests end in `#<hash>`
   metadata?: {
     owner: string;
     name: string;
     fullName: string;
+    ref?: string;
+    commitSha?: string;
   };
   stats?: {
     totalFiles: number;
@@ -106,7 +177,11 @@ export interface IngestResponse {
     javascriptFiles: number;
     configFiles: number;
     totalSize: number;
+    truncated: boolean;
+    truncationReasons: string[];
   };
+  filters?: IngestionFilters;
+  warnings?: string[];
   preview?: {
     root: RepositoryDirectory;
     maxDepth?: number;
@@ -118,12 +193,120 @@ export interface IngestResponse {
 
 export type ContractType = 'contract' | 'abstract' | 'interface' | 'library';
 
+export type DataLocation = 'memory' | 'calldata' | 'storage';
+
+export interface SolidityParameter {
+  name?: string; // unnamed parameters and return values have none
+  type: string; // as written, e.g. `mapping(address => uint256)`
+  location?: DataLocation;
+}
+
+export interface SourceRange {
+  startLine: number; // 1-based
+  endLine: number;
+  startByte: number; // offsets into the file content
+  endByte: number;
+}
+
+export type FunctionKind = 'function' | 'constructor' | 'fallback' | 'receive';
+
 export interface SolidityFunction {
-  name: string;
+  name: string; // the kind for constructors, fallback and receive
+  kind: FunctionKind;
   visibility: 'public' | 'external' | 'internal' | 'private';
   stateMutability?: 'pure' | 'view' | 'payable' | 'nonpayable';
-  parameters: string[];
-  returns: string[];
+  parameters: SolidityParameter[];
+  returns: SolidityParameter[];
+  signature: string; // `name(type,...)` with aliases such as uint expanded; user-defined types keep their names
+  modifiers: string[]; // invoked modifiers; for constructors this includes base constructor calls
+  implemented: boolean; // has a body
+  calls: CallSite[];
+  range: SourceRange;
+}
+
+export type CallKind =
+  | 'internal-call'
+  | 'external-call'
+  | 'low-level-call'
+  | 'delegatecall'
+  | 'staticcall'
+  | 'transfer'
+  | 'send'
+  | 'create';
+
+export interface CallSite {
+  kind: CallKind;
+  target: string; // contract or library name; the receiver as written for low-level calls and transfers
+  function?: string; // called function, for internal and external calls
+  range: SourceRange;
+}
+
+export interface ContractReference {
+  name: string;
+  filePath?: string; // absent when the contract could not be resolved
+}
+
+export interface EffectiveFunction {
+  signature: string; // the kind for fallback and receive
+  kind: FunctionKind;
+  visibility: SolidityFunction['visibility'];
+  stateMutability?: SolidityFunction['stateMutability'];
+  implemented: boolean;
+  definedIn: string; // most derived contract declaring it
+  overrides: string[]; // bases whose declarations it replaces, most derived first
+}
+
+export interface SolidityModifier {
+  name: string;
+  parameters: SolidityParameter[];
+  virtual: boolean;
+  range: SourceRange;
+}
+
+export interface SolidityEvent {
+  name: string;
+  parameters: Array<SolidityParameter & { indexed: boolean }>;
+  anonymous: boolean;
+  range: SourceRange;
+}
+
+export interface SolidityCustomError {
+  name: string;
+  parameters: SolidityParameter[];
+  range: SourceRange;
+}
+
+export interface SolidityStruct {
+  name: string;
+  members: Array<{ name: string; type: string }>;
+  range: SourceRange;
+}
+
+export interface SolidityEnum {
+  name: string;
+  values: string[];
+  range: SourceRange;
+}
+
+export interface SolidityValueType {
+  name: string; // `type Price is uint128`
+  underlyingType: string;
+  range: SourceRange;
+}
+
+export interface AssemblyBlock {
+  functionName?: string; // enclosing function, constructor, fallback, receive or `modifier <name>`
+  memorySafe: boolean; // marked ("memory-safe")
+  opcodes: Record<string, number>; // Yul builtin -> number of calls
+  range: SourceRange;
+}
+
+export interface UsingForDirective {
+  library?: string; // `using Lib for T`
+  functions: string[]; // `using {f, g as +} for T`
+  target: string; // type name, or '*' for every type
+  global: boolean;
+  range: SourceRange;
 }
 
 export interface StateVariable {
@@ -132,23 +315,245 @@ export interface StateVariable {
   visibility: 'public' | 'internal' | 'private';
   constant?: boolean;
   immutable?: boolean;
+  transient?: boolean; // cleared after every transaction; not part of the storage layout
+  range: SourceRange;
 }
 
 export interface SolidityContract {
   name: string;
   type: ContractType;
   filePath: string;
+  role: FileRole; // role of the file the contract is declared in
   imports: string[];
-  inherits: string[];
-  functions: SolidityFunction[];
+  inherits: string[]; // base names as written in the inheritance clause
+  linearization: ContractReference[]; // C3 order, most derived first, starting with the contract itself
+  linearizationError?: string; // cyclic or inconsistent hierarchy
+  functions: SolidityFunction[]; // including constructor, fallback and receive
+  effectiveFunctions: EffectiveFunction[]; // declared and inherited, after overriding
   stateVariables: StateVariable[];
-  usesUpgradeablePattern: boolean;
+  modifiers: SolidityModifier[];
+  events: SolidityEvent[];
+  errors: SolidityCustomError[];
+  structs: SolidityStruct[];
+  enums: SolidityEnum[];
+  valueTypes: SolidityValueType[];
+  usingFor: UsingForDirective[];
+  assembly: AssemblyBlock[];
+  usesUpgradeablePattern: boolean; // classified as a proxy, beacon, implementation or facet
+  proxyMarkers: ProxyMarker[]; // EIP-1967 slots and EIP-1167 clone bytecode found in its code
+  standards: TokenStandard[]; // by the functions it exposes or its OpenZeppelin bases
+  range: SourceRange;
+}
+
+export type ProxyMarker = 'eip1967-implementation' | 'eip1967-admin' | 'eip1967-beacon' | 'eip1167-bytecode';
+
+export type ProxyPattern = 'uups' | 'transparent' | 'beacon' | 'diamond' | 'minimal-proxy' | 'delegatecall';
+
+export type UpgradeableRole = 'proxy' | 'implementation' | 'beacon' | 'facet' | 'factory';
+
+/**
+ * A project contract taking part in a proxy or clone deployment
+ */
+export interface UpgradeableContract {
+  contractName: string;
+  filePath: string;
+  role: UpgradeableRole;
+  pattern?: ProxyPattern; // unknown for an initializable implementation no proxy was found for
+  evidence: string[];
+  pairedWith: string[]; // implementations behind a proxy, beacon or factory; proxies and beacons in front of an implementation
+  disablesInitializers?: boolean; // implementations with initializers: the constructor locks them
+  missingStorageGaps: string[]; // implementations: project bases with state variables but no `__gap`
+  issues: string[];
+}
+
+export type TokenStandard = 'ERC-20' | 'ERC-721' | 'ERC-1155' | 'ERC-4626' | 'ERC-2612' | 'ERC-777';
+
+/**
+ * The ABI functions a contract exposes and the token standards they satisfy
+ */
+export interface ContractInterface {
+  contractName: string;
+  filePath: string;
+  standards: TokenStandard[];
+  functions: string[]; // canonical signatures of public and external functions, including getters
+}
+
+export interface StorageSlotEntry {
+  contractName: string; // contract that declares the variable
+  name: string;
+  type: string;
+  slot: number;
+  offset: number; // byte offset within the slot, counted from the low-order end
+  bytes: number; // whole slots for structs, fixed arrays, mappings and dynamic types
+}
+
+export interface StorageLayout {
+  contractName: string;
+  filePath: string;
+  linearization: string[]; // C3 order, most derived first
+  entries: StorageSlotEntry[]; // most base contract's variables first
+  slotsUsed: number;
+  warnings: string[]; // unresolved parents or types whose size was assumed
+}
+
+export interface StorageLayoutChange {
+  contractName: string;
+  variable: string; // `Declaring.name`
+  issue: string;
+}
+
+export type StateAccessScope =
+  | 'global' // one slot shared by every caller, e.g. `totalSupply` or `config[0]`
+  | 'sender' // keyed by the caller, e.g. `balances[msg.sender]`
+  | 'keyed'; // keyed by arguments or computed values, e.g. `balances[to]`
+
+export interface StateAccess {
+  variable: string;
+  slot: string; // access shape, e.g. `allowance[from][msg.sender]`
+  scope: StateAccessScope;
+}
+
+export interface FunctionStateAccess {
+  contractName: string;
+  function: string; // signature of a public or external function
+  reads: StateAccess[]; // including those of modifiers and internal calls
+  writes: StateAccess[];
+}
+
+export interface ContentionHotspot {
+  contractName: string;
+  slot: string; // a global slot written by at least one entry function
+  writers: string[]; // function signatures
+  readers: string[];
+}
+
+export interface ContentionReport {
+  functions: FunctionStateAccess[];
+  hotspots: ContentionHotspot[]; // most writers first
+}
+
+export interface SolidityFileInfo {
+  filePath: string;
+  sha?: string; // blob SHA the file was parsed at
+  role: FileRole;
+  license?: string; // SPDX-License-Identifier expression
+  solidityPragma?: string; // version constraint as written, e.g. `>=0.8.4 <0.9.0`
+  abicoder?: string; // `v1` or `v2`
+  experimental: string[]; // e.g. ABIEncoderV2, SMTChecker
+  evmVersion?: string; // project config's target, else the default of the oldest compiler the pragma allows
+  evmFeatures: string[]; // opcodes the compiled code may contain that need a recent EVM, e.g. PUSH0
+}
+
+export type CompilerIssueKind =
+  | 'missing-pragma'
+  | 'invalid-pragma'
+  | 'ancient-compiler' // only allows compilers before 0.8.0
+  | 'version-conflict' // no compiler satisfies this file and the rest of the repository
+  | 'evm-feature' // code may use opcodes introduced after Monad's EVM version
+  | 'evm-target'; // a project config targets an EVM version newer than Monad's
+
+export interface CompilerIssue {
+  kind: CompilerIssueKind;
+  severity: 'warning' | 'error';
+  filePath: string; // source file, or the project config for evm-target
+  message: string;
+}
+
+export interface CompilerReport {
+  versionRange?: string; // compilers satisfying every file's pragma, e.g. `>=0.8.20 <0.9.0`
+  minimumVersion?: string;
+  conflictingFiles: string[]; // left out of versionRange
+  targetEvmVersion: string; // EVM version Monad executes
+  issues: CompilerIssue[];
+}
+
+/**
+ * A match of one of the deterministic Monad lint rules
+ */
+export interface LintFinding {
+  ruleId: string; // e.g. `tx-origin-auth`
+  filePath: string;
+  contractName: string;
+  functionName?: string; // enclosing function; unset for state variables and modifiers
+  changeCategory: MigrationRecommendation['changeCategory'];
+  message: string; // what should change
+  rationale: string;
+  snippet: string; // first line of the matched code
+  value?: string; // matched literal: the address, or the chain ID compared against
+  range: SourceRange;
+}
+
+export type KnownContractCategory = 'token' | 'dex' | 'oracle' | 'lending' | 'bridge' | 'infrastructure';
+
+/**
+ * An Ethereum mainnet deployment in the address registry
+ */
+export interface KnownContract {
+  address: string; // on Ethereum mainnet
+  name: string; // e.g. `Uniswap V2 Router02`
+  category: KnownContractCategory;
+  monadAddress?: string; // counterpart on Monad; unset when there is no known deployment
+  note?: string;
+}
+
+export type ProtocolCategory =
+  | 'oracle'
+  | 'dex'
+  | 'lending'
+  | 'token-approval'
+  | 'account-abstraction'
+  | 'wallet'
+  | 'messaging';
+
+/**
+ * How to recognize an external protocol in Solidity code. Every list is optional.
+ */
+export interface ProtocolSignature {
+  protocol: string; // e.g. `Chainlink Data Feeds`
+  category: ProtocolCategory;
+  types?: string[]; // interfaces and base contracts, e.g. AggregatorV3Interface
+  calls?: string[]; // functions called on one of `types`, e.g. latestRoundData
+  callbacks?: string[]; // functions the protocol calls on the contract, e.g. uniswapV3SwapCallback; never enough alone
+  imports?: string[]; // substrings of import paths, e.g. @uniswap/v3-core
+  note?: string; // availability on Monad
+}
+
+/**
+ * An external protocol a contract relies on, with what gave it away
+ */
+export interface ProtocolDependency {
+  contractName: string;
+  filePath: string;
+  protocol: string;
+  category: ProtocolCategory;
+  evidence: string[]; // e.g. `type AggregatorV3Interface`, `call latestRoundData (line 42)`
+  note?: string;
+}
+
+/**
+ * An address literal or chain ID comparison in Solidity or a deployment script
+ */
+export interface ChainConstant {
+  kind: 'address' | 'chain-id';
+  value: string; // address as written, or the chain ID in decimal
+  filePath: string;
+  role: FileRole;
+  contractName?: string; // Solidity only
+  functionName?: string;
+  range: SourceRange;
+  known?: KnownContract; // registry entry of an address
+  chainName?: string; // network a chain ID belongs to
+  portable: boolean; // works unchanged on Monad
+  recommendation: string;
 }
 
 export interface DependencyEdge {
-  from: string; // contract name or file path
-  to: string;
-  type: 'import' | 'inheritance';
+  from: string; // contract name
+  to: string; // imported file path (resolved through remappings), parent contract name or call target
+  type: 'import' | 'inheritance' | CallKind;
+  caller?: string; // call edges: signature of the calling function
+  callee?: string; // call edges: called function name
+  range?: SourceRange; // call edges: the call expression in the caller's file
 }
 
 export interface DependencyGraph {
@@ -160,15 +565,37 @@ export interface SolidityAnalysisResult {
   contracts: SolidityContract[];
   dependencyGraph: DependencyGraph;
   entryPointContracts: string[]; // deployable contracts
-  upgradeableContracts: string[];
+  upgradeableContracts: UpgradeableContract[]; // proxies, implementations and their pairing
+  unresolvedImports: Array<{
+    filePath: string;
+    importPath: string; // as written in the source
+    resolvedPath: string; // where relative paths and remappings pointed
+    // `missing`: should be in the repository but isn't; `not-ingested`: a dependency outside the
+    // ingested tree (e.g. node_modules), so bases and types it declares weren't analyzed
+    reason: 'missing' | 'not-ingested';
+  }>;
   stats: {
     totalContracts: number;
     abstractContracts: number;
     interfaces: number;
     libraries: number;
     totalFunctions: number;
+    assemblyBlocks: number;
     parseErrors: number;
   };
+  opcodeInventory: Record<string, number>; // Yul builtins used across all assembly blocks
+  storageLayouts: StorageLayout[]; // deployable and abstract contracts
+  contention: ContentionReport; // state touched by each project contract's entry functions
+  files: SolidityFileInfo[]; // pragmas and license of every parsed file
+  compiler: CompilerReport;
+  lintFindings: LintFinding[]; // enabled lint rules over every parsed file
+  chainConstants: ChainConstant[]; // addresses and chain IDs matched against the registry
+  protocolDependencies: ProtocolDependency[]; // external protocols each contract relies on
+  interfaces: ContractInterface[]; // ABI functions and token standards of every non-library contract
+  incremental: {
+    reusedFiles: string[]; // served from the parse cache
+    parsedFiles: string[]; // parsed in this run
+  };
   parseErrors: Array<{
     filePath: string;
     error: string;
@@ -176,7 +603,10 @@ export interface SolidityAnalysisResult {
 }
 
 export interface AnalyzeSolidityRequest {
-  repoUrl: string;
+  repoUrl?: string;
+  repoId?: string; // cache key from an earlier request
+  ref?: string;
+  stream?: boolean; // respond with newline-delimited JSON progress events before the result
 }
 
 export interface AnalyzeSolidityResponse {
@@ -185,6 +615,93 @@ export interface AnalyzeSolidityResponse {
   error?: string;
 }
 
+export interface AnalysisProgress {
+  filePath: string;
+  status: 'parsed' | 'reused' | 'failed';
+  completed: number; // files finished so far, including this one
+  total: number;
+  error?: string;
+}
+
+// Lines of a streamed analysis response
+export type AnalyzeSolidityStreamEvent =
+  | ({ type: 'progress' } & AnalysisProgress)
+  | ({ type: 'result' } & AnalyzeSolidityResponse);
+
+export interface StorageLayoutRequest {
+  repoUrl?: string;
+  repoId?: string; // cache key from an earlier request
+  ref?: string;
+  contractName?: string; // only this contract's layout
+}
+
+export interface StorageLayoutResponse {
+  success: boolean;
+  layouts?: StorageLayout[];
+  error?: string;
+}
+
+export interface CallGraphQueryRequest {
+  repoUrl?: string;
+  repoId?: string; // cache key from an earlier request
+  ref?: string;
+  contractName: string;
+  functionName: string; // name, or signature to pick one overload
+  direction?: 'callers' | 'callees' | 'both'; // default both
+}
+
+export interface CallGraphQueryResponse {
+  success: boolean;
+  callers?: DependencyEdge[];
+  callees?: DependencyEdge[];
+  error?: string;
+}
+
+export interface ContractChange {
+  name: string;
+  filePath: string;
+  fileModified: boolean;
+  addedFunctions: string[]; // signatures
+  removedFunctions: string[];
+  addedStateVariables: string[]; // `type name`
+  removedStateVariables: string[];
+  linearizationChanged: boolean;
+}
+
+export interface AnalysisDiff {
+  baseRef: string;
+  headRef: string;
+  baseCommit?: string;
+  headCommit?: string;
+  files: {
+    added: string[];
+    removed: string[];
+    modified: string[]; // Solidity files whose blob SHA changed
+  };
+  contracts: {
+    added: ContractReference[];
+    removed: ContractReference[];
+    changed: ContractChange[];
+  };
+  storageLayoutChanges: StorageLayoutChange[]; // variables of base layouts that moved, changed type or disappeared
+  compilerRange: {
+    base?: string;
+    head?: string;
+  };
+}
+
+export interface AnalysisDiffRequest {
+  repoUrl: string;
+  baseRef: string;
+  headRef: string;
+}
+
+export interface AnalysisDiffResponse {
+  success: boolean;
+  diff?: AnalysisDiff;
+  error?: string;
+}
+
 // ==================== Migration Planning Types ====================
 
 export type ConfidenceLevel = 'low' | 'medium' | 'high';
@@ -204,6 +721,9 @@ export interface MigrationRecommendation {
   confidenceLevel: ConfidenceLevel;
   affectedContracts?: string[];
   references?: string[];
+  functionName?: string; // set when the change concerns a single function
+  targetRange?: SourceRange; // the lint match, else resolved from the analysis: the named function, else the whole contract
+  ruleId?: string; // lint rule the recommendation comes from; unset for the model's recommendations
 }
 
 export interface MigrationPlan {
@@ -211,6 +731,7 @@ export interface MigrationPlan {
   timestamp: string;
   analysisId: string;
   monadVersion: string;
+  includedRoles: FileRole[]; // file roles the plan was scoped to
   
   recommendations: MigrationRecommendation[];
   
@@ -231,6 +752,8 @@ export interface MigrationPlan {
 export interface PlanMigrationRequest {
   repoUrl?: string;
   repoId?: string;
+  ref?: string;
+  includeRoles?: FileRole[]; // file roles to plan for (default: ['source'])
 }
 
 export interface PlanMigrationResponse {
@@ -249,7 +772,9 @@ export interface AppliedChange {
   lineNumbers?: {
     start: number;
     end: number;
-  };
+  }; // where the original snippet was found, else the range the model reported
+  targetRange?: SourceRange; // region the recommendation points at
+  withinTarget?: boolean; // whether the change overlaps targetRange; unset when there is no target
 }
 
 export interface SkippedChange {
@@ -306,6 +831,9 @@ export interface TransformationReport {
     inheritanceValid: boolean;
     issues: string[];
   };
+
+  storageLayouts?: StorageLayout[]; // layouts of the transformed code, when files were modified
+  interfaces?: ContractInterface[]; // interfaces of the transformed contracts, when files were modified
   
   summary: {
     overallConfidence: number;
@@ -322,7 +850,9 @@ export interface TransformationReport {
 export interface TransformRequest {
   repoUrl?: string;
   repoId?: string;
+  ref?: string;
   strict?: boolean; // If true, skip ambiguous changes
+  includeRoles?: FileRole[]; // file roles to transform (default: ['source'])
 }
 
 export interface TransformResponse {
@@ -355,11 +885,13 @@ export interface ValidationReport {
   warnings: string[];
   confidenceScore: number;
   notes: string[];
+  protocolDependencies: ProtocolDependency[]; // external protocols the planned contracts rely on
 }
 
 export interface ExplainValidateRequest {
   repoUrl?: string;
   repoId?: string;
+  ref?: string;
 }
 
 export interface ExplainValidateResponse {
@@ -1,5 +1,8 @@
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
 import { logger } from './logger.js';
+import { IngestionMode } from '../types/index.js';
 
 dotenv.config();
 
@@ -8,11 +11,44 @@ export interface ServerConfig {
   host: string;
   nodeEnv: string;
   githubToken?: string;
+  github: {
+    apiUrl: string;
+    timeout: number;
+    maxRetries: number;
+    maxRetryWaitMs: number; // longest rate-limit wait worth retrying instead of failing
+  };
+  forges: {
+    hosts: string; // extra forge hosts, `host=kind[@apiUrl]` comma-separated
+    gitlabToken?: string;
+    bitbucketToken?: string;
+    giteaToken?: string;
+  };
+  ingestion: {
+    allowLocalSources: boolean;
+    mode: IngestionMode;
+    prefetchArchive: boolean;
+    contentStoreMaxBytes: number;
+    maxFiles: number;
+    maxDepth: number;
+    maxBytes: number; // 0 for no byte budget
+  };
+  analysis: {
+    parseCacheDir: string; // '' keeps parsed files in memory only
+    parseCacheMaxEntries: number;
+    lintDisabledRules: string[]; // lint rule ids left out of analysis results
+    addressRegistryPath: string; // JSON file extending the bundled address registry; '' for none
+    protocolSignaturesPath: string; // JSON file extending the bundled protocol signatures; '' for none
+  };
+  monad: {
+    evmVersion: string; // EVM version (hard fork name) Monad executes
+    chainId: number;
+  };
   agents: {
     analyzer: {
       enabled: boolean;
       maxContextSize: number;
-      timeout: number;
+      timeout: number; // per Solidity file, fetch and parse
+      concurrency: number; // files fetched and parsed at once
     };
     planner: {
       enabled: boolean;
@@ -32,6 +68,52 @@ export const config: ServerConfig = {
   host: process.env.HOST || '0.0.0.0',
   nodeEnv: process.env.NODE_ENV || 'development',
   githubToken: process.env.GITHUB_TOKEN,
+  // Timeout and retry settings apply to every forge API, not just GitHub
+  github: {
+    apiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+    timeout: parseInt(process.env.GITHUB_TIMEOUT || '10000', 10),
+    maxRetries: parseInt(process.env.GITHUB_MAX_RETRIES || '3', 10),
+    maxRetryWaitMs: parseInt(process.env.GITHUB_MAX_RETRY_WAIT || '60000', 10),
+  },
+  forges: {
+    hosts: process.env.FORGE_HOSTS || '',
+    gitlabToken: process.env.GITLAB_TOKEN,
+    bitbucketToken: process.env.BITBUCKET_TOKEN,
+    giteaToken: process.env.GITEA_TOKEN,
+  },
+  ingestion: {
+    // Local paths and file:// URLs read the server's filesystem, so they must be enabled explicitly
+    allowLocalSources: process.env.INGEST_ALLOW_LOCAL_SOURCES === 'true',
+    // 'tree' lists the whole repository in one request and falls back to 'walk' when truncated
+    mode: process.env.INGEST_MODE === 'walk' ? 'walk' : 'tree',
+    // Download the repository tarball once at ingestion instead of fetching files one by one
+    prefetchArchive: process.env.INGEST_PREFETCH_ARCHIVE === 'true',
+    contentStoreMaxBytes: parseInt(
+      process.env.CONTENT_STORE_MAX_BYTES || String(256 * 1024 * 1024),
+      10
+    ),
+    // Default budgets; requests may set their own
+    maxFiles: parseInt(process.env.INGEST_MAX_FILES || '5000', 10),
+    maxDepth: parseInt(process.env.INGEST_MAX_DEPTH || '10', 10),
+    maxBytes: parseInt(process.env.INGEST_MAX_BYTES || '0', 10),
+  },
+  analysis: {
+    // Parsed files are stored by path and blob SHA so unchanged files aren't parsed again
+    parseCacheDir: process.env.PARSE_CACHE_DIR ?? path.join(os.tmpdir(), 'port2monad-parse-cache'),
+    parseCacheMaxEntries: parseInt(process.env.PARSE_CACHE_MAX_ENTRIES || '5000', 10),
+    lintDisabledRules: (process.env.LINT_DISABLED_RULES || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    addressRegistryPath: process.env.ADDRESS_REGISTRY_PATH || '',
+    protocolSignaturesPath: process.env.PROTOCOL_SIGNATURES_PATH || '',
+  },
+  monad: {
+    // Compiler EVM targets and opcodes newer than this are reported by the analyzer
+    evmVersion: process.env.MONAD_EVM_VERSION || 'prague',
+    // Hardcoded chain IDs are reported unless they're Monad's
+    chainId: parseInt(process.env.MONAD_CHAIN_ID || '143', 10),
+  },
   agents: {
     analyzer: {
       enabled: process.env.AGENT_ANALYZER_ENABLED !== 'false',
@@ -40,6 +122,7 @@ export const config: ServerConfig = {
         10
       ),
       timeout: parseInt(process.env.AGENT_ANALYZER_TIMEOUT || '60000', 10),
+      concurrency: parseInt(process.env.AGENT_ANALYZER_CONCURRENCY || '8', 10),
     },
     planner: {
       enabled: process.env.AGENT_PLANNER_ENABLED !== 'false',
@@ -0,0 +1,120 @@
+/**
+ * Gitignore-style glob matching for repository-relative paths
+ */
+
+interface CompiledPattern {
+  negated: boolean; // `!pattern` re-includes a path an earlier pattern excluded
+  directoryOnly: boolean; // `pattern/` only matches directories
+  regex: RegExp;
+}
+
+function escapeRegex(char: string): string {
+  return /[.+^${}()|\\]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Translate a glob to a regular expression. `*` and `?` stay within a path segment,
+ * `**` spans segments. Patterns without a slash match at any depth, like .gitignore.
+ */
+function compilePattern(rawPattern: string): CompiledPattern | null {
+  let pattern = rawPattern.trim();
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.substring(1);
+  }
+  const directoryOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+  if (!pattern) {
+    return null;
+  }
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories; a bare `**` matches anything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      const body = pattern.substring(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.substring(1)}` : body}]`;
+      i = end;
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+
+  return {
+    negated,
+    directoryOnly,
+    regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`),
+  };
+}
+
+/**
+ * Read the patterns of an ignore file, dropping blank lines and comments
+ */
+export function parseIgnoreFile(content: string): string[] {
+  return content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+export class GlobMatcher {
+  private patterns: CompiledPattern[];
+
+  constructor(patterns: string[]) {
+    this.patterns = patterns
+      .map((pattern) => compilePattern(pattern))
+      .filter((pattern): pattern is CompiledPattern => pattern !== null);
+  }
+
+  get isEmpty(): boolean {
+    return this.patterns.length === 0;
+  }
+
+  /**
+   * Whether the path, or a directory containing it, matches. The last matching
+   * pattern wins, and nothing inside a matched directory can be re-included.
+   */
+  matches(filePath: string, isDirectory: boolean = false): boolean {
+    const segments = filePath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      if (this.matchesExactly(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+    return this.matchesExactly(filePath, isDirectory);
+  }
+
+  private matchesExactly(filePath: string, isDirectory: boolean): boolean {
+    let matched = false;
+    for (const pattern of this.patterns) {
+      if (pattern.directoryOnly && !isDirectory) continue;
+      if (pattern.regex.test(filePath)) {
+        matched = !pattern.negated;
+      }
+    }
+    return matched;
+  }
+}
@@ -0,0 +1,12 @@
+import { createHash } from 'crypto';
+
+/**
+ * Compute the git blob SHA for file content, matching the SHA GitHub reports for the file
+ */
+export function gitBlobSha(content: Buffer | string): string {
+  const buffer = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+  return createHash('sha1')
+    .update(`blob ${buffer.length}\0`)
+    .update(buffer)
+    .digest('hex');
+}
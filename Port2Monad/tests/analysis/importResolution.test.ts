@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ingestRepository } from '../../src/ingestion/repository.js';
+import { analyzeSolidityRepository } from '../../src/analysis/solidityAnalyzer.js';
+
+function write(root: string, filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(root, filePath)), { recursive: true });
+  fs.writeFileSync(path.join(root, filePath), content);
+}
+
+describe('imports of a Hardhat project', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'port2monad-hardhat-'));
+    write(root, 'hardhat.config.js', 'module.exports = { solidity: "0.8.20" };\n');
+    write(root, 'package.json', '{ "name": "fixture", "devDependencies": { "@openzeppelin/contracts": "^5.0.0" } }\n');
+    write(
+      root,
+      'contracts/Token.sol',
+      [
+        'pragma solidity ^0.8.20;',
+        'import "@openzeppelin/contracts/token/ERC20/ERC20.sol";',
+        'import "./Missing.sol";',
+        'import "./Helper.sol";',
+        'contract Token is ERC20 {',
+        '  constructor() ERC20("Token", "TKN") {}',
+        '}',
+        '',
+      ].join('\n')
+    );
+    write(root, 'contracts/Helper.sol', 'pragma solidity ^0.8.20;\nlibrary Helper {}\n');
+    // Installed, but ingestion skips node_modules
+    write(
+      root,
+      'node_modules/@openzeppelin/contracts/token/ERC20/ERC20.sol',
+      'pragma solidity ^0.8.20;\ncontract ERC20 { constructor(string memory, string memory) {} }\n'
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports dependencies under node_modules as not ingested and missing files as missing', async () => {
+    const tree = await ingestRepository(root);
+    expect(tree.projects?.[0]).toMatchObject({ frameworks: ['hardhat'], libRoots: ['node_modules'] });
+
+    const analysis = await analyzeSolidityRepository(tree);
+
+    expect(analysis.unresolvedImports).toEqual([
+      {
+        filePath: 'contracts/Token.sol',
+        importPath: '@openzeppelin/contracts/token/ERC20/ERC20.sol',
+        resolvedPath: 'node_modules/@openzeppelin/contracts/token/ERC20/ERC20.sol',
+        reason: 'not-ingested',
+      },
+      {
+        filePath: 'contracts/Token.sol',
+        importPath: './Missing.sol',
+        resolvedPath: 'contracts/Missing.sol',
+        reason: 'missing',
+      },
+    ]);
+  });
+});
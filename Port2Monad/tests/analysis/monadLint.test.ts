@@ -0,0 +1,156 @@
+import { lintSolidity, MONAD_LINT_RULES } from '../../src/analysis/monadLint.js';
+
+function contract(body: string): string {
+  return `pragma solidity ^0.8.20;\n\ncontract Fixture {\n${body}\n}\n`;
+}
+
+interface RuleFixture {
+  positive: string; // must produce a finding
+  negative: string; // the same shape written the Monad-safe way; must not
+}
+
+const FIXTURES: Record<string, RuleFixture[]> = {
+  'block-time-assumption': [
+    {
+      positive: contract(`
+  uint256 public start;
+  function open() external view returns (bool) { return block.number >= start + 7200; }`),
+      negative: contract(`
+  uint256 public lastBlock;
+  mapping(uint256 => bytes32) public seeds;
+  function record() external {
+    require(block.number != lastBlock);
+    lastBlock = block.number;
+    seeds[block.number] = blockhash(block.number - 1);
+  }`),
+    },
+    {
+      positive: contract(`
+  uint256 public deadline;
+  function expired() external view returns (bool) { return block.timestamp == deadline; }`),
+      negative: contract(`
+  uint256 public deadline;
+  function expired() external view returns (bool) { return block.timestamp >= deadline; }`),
+    },
+    {
+      positive: contract(`
+  uint256 public unlockAt;
+  function lock() external { unlockAt = block.timestamp + 12; }`),
+      negative: contract(`
+  uint256 public unlockAt;
+  function lock() external { unlockAt = block.timestamp + 1 hours; }`),
+    },
+  ],
+  'gasleft-comparison': [
+    {
+      positive: contract(`
+  function run() external view { require(gasleft() > 50000, "low gas"); }`),
+      negative: contract(`
+  function run() external view returns (uint256) { return gasleft(); }`),
+    },
+  ],
+  'hardcoded-chain-id': [
+    {
+      positive: contract(`
+  function onMainnet() external view returns (bool) { return block.chainid == 1; }`),
+      negative: contract(`
+  uint256 public immutable deployedChainId = block.chainid;
+  function onHomeChain() external view returns (bool) { return block.chainid == deployedChainId; }`),
+    },
+  ],
+  'hardcoded-address': [
+    {
+      positive: contract(`
+  address public constant UNI = 0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984;`),
+      negative: contract(`
+  address public constant ECRECOVER = 0x0000000000000000000000000000000000000001;
+  address public token;
+  constructor(address token_) { token = token_; }`),
+    },
+  ],
+  'tx-origin-auth': [
+    {
+      positive: contract(`
+  address public owner;
+  function withdraw() external { require(tx.origin == owner); }`),
+      negative: contract(`
+  address public owner;
+  event Called(address origin);
+  function withdraw() external { require(msg.sender == owner); emit Called(tx.origin); }`),
+    },
+  ],
+  selfdestruct: [
+    {
+      positive: contract(`
+  function kill() external { selfdestruct(payable(msg.sender)); }`),
+      negative: contract(`
+  bool public disabled;
+  function kill() external { disabled = true; payable(msg.sender).transfer(address(this).balance); }`),
+    },
+  ],
+  'weak-randomness': [
+    {
+      positive: contract(`
+  function roll() external view returns (uint256) { return block.prevrandao % 6; }`),
+      negative: contract(`
+  uint256 public seed;
+  function roll() external view returns (uint256) { return seed % 6; }`),
+    },
+  ],
+  'unbounded-storage-loop': [
+    {
+      positive: contract(`
+  address[] public holders;
+  function count() external view returns (uint256 n) { for (uint256 i = 0; i < holders.length; i++) n++; }`),
+      negative: contract(`
+  address[] public holders;
+  function count(address[] calldata batch) external pure returns (uint256 n) { for (uint256 i = 0; i < batch.length; i++) n++; }`),
+    },
+  ],
+};
+
+describe('Monad lint rules', () => {
+  it('has fixtures for every rule', () => {
+    expect(Object.keys(FIXTURES).sort()).toEqual(MONAD_LINT_RULES.map((rule) => rule.id).sort());
+  });
+
+  describe.each(Object.entries(FIXTURES))('%s', (ruleId, fixtures) => {
+    it.each(fixtures.map((fixture, index) => [index, fixture] as const))('flags positive fixture %i', (_, fixture) => {
+      const findings = lintSolidity(fixture.positive, 'Fixture.sol', [ruleId]);
+      expect(findings.length).toBeGreaterThan(0);
+      expect(findings.every((finding) => finding.ruleId === ruleId && finding.contractName === 'Fixture')).toBe(true);
+    });
+
+    it.each(fixtures.map((fixture, index) => [index, fixture] as const))('passes negative fixture %i', (_, fixture) => {
+      expect(lintSolidity(fixture.negative, 'Fixture.sol', [ruleId])).toEqual([]);
+    });
+  });
+
+  it('reports where and in which function a rule matched', () => {
+    const [finding] = lintSolidity(
+      contract(`
+  address public owner;
+  function withdraw() external { require(tx.origin == owner); }`),
+      'src/Fixture.sol',
+      ['tx-origin-auth']
+    );
+
+    expect(finding).toMatchObject({
+      filePath: 'src/Fixture.sol',
+      functionName: 'withdraw',
+      snippet: 'tx.origin == owner',
+      range: { startLine: 6, endLine: 6 },
+    });
+  });
+
+  it('reports the literal a finding is about', () => {
+    const [finding] = lintSolidity(
+      contract(`
+  function onMainnet() external view returns (bool) { return block.chainid == 1; }`),
+      'Fixture.sol',
+      ['hardcoded-chain-id']
+    );
+
+    expect(finding.value).toBe('1');
+  });
+});
@@ -0,0 +1,15 @@
+const { TestEnvironment } = require('jest-environment-node');
+
+// Jest re-requires modules for every test file, but the tree-sitter addon is loaded once per
+// process and its wrapper can only patch it once. Load it here, outside the module registry,
+// and hand every test file the same instance (see tests/treeSitter.cjs).
+const treeSitter = require('tree-sitter');
+
+class TreeSitterEnvironment extends TestEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    this.global.__treeSitter = treeSitter;
+  }
+}
+
+module.exports = TreeSitterEnvironment;
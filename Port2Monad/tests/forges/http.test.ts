@@ -0,0 +1,193 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ForgeHttpClient } from '../../src/forges/http.js';
+import {
+  ForgeError,
+  ForgeNotFoundError,
+  ForgeRateLimitError,
+  ForgeUnauthorizedError,
+} from '../../src/forges/errors.js';
+import { GitHubClient } from '../../src/github/client.js';
+
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Local forge API answering each request with the next queued response
+ */
+class MockForge {
+  requests: http.IncomingMessage[] = [];
+  private responses: MockResponse[] = [];
+  private server = http.createServer((req, res) => {
+    this.requests.push(req);
+    const next = this.responses.shift() || { status: 500, body: { message: 'no response queued' } };
+    res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+    res.end(next.body === undefined ? undefined : JSON.stringify(next.body));
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  queue(...responses: MockResponse[]): void {
+    this.responses.push(...responses);
+  }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ForgeError & { retryAfterSeconds?: number }> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as ForgeError;
+  }
+  throw new Error('Expected the request to fail');
+}
+
+describe('ForgeHttpClient', () => {
+  const forge = new MockForge();
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await forge.start();
+  });
+
+  afterAll(() => forge.stop());
+
+  beforeEach(() => {
+    forge.requests = [];
+  });
+
+  it('retries server errors with backoff', async () => {
+    forge.queue({ status: 502 }, { status: 200, body: { ok: true } });
+    const client = new ForgeHttpClient(baseUrl);
+
+    await expect(client.get('/server-error', {}, false)).resolves.toEqual({ ok: true });
+    expect(forge.requests).toHaveLength(2);
+  });
+
+  it('waits out a short Retry-After and retries', async () => {
+    forge.queue({ status: 429, headers: { 'Retry-After': '0' } }, { status: 200, body: { ok: true } });
+    const client = new ForgeHttpClient(baseUrl);
+
+    await expect(client.get('/retry-after', {}, false)).resolves.toEqual({ ok: true });
+    expect(forge.requests).toHaveLength(2);
+  });
+
+  it('gives up with a rate limit error once retries run out', async () => {
+    const limited = { status: 429, headers: { 'Retry-After': '0' } };
+    forge.queue(limited, limited, limited, limited);
+    const client = new ForgeHttpClient(baseUrl);
+
+    const error = await rejection(client.request('list things', '/always-limited', {}, false));
+    expect(error).toBeInstanceOf(ForgeRateLimitError);
+    expect(error.retryAfterSeconds).toBe(0);
+    expect(forge.requests).toHaveLength(4); // the first attempt and GITHUB_MAX_RETRIES (3) retries
+  });
+
+  it('surfaces a rate limit whose reset is too far off instead of waiting', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    forge.queue({
+      status: 403,
+      headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) },
+      body: { message: 'API rate limit exceeded' },
+    });
+    const client = new ForgeHttpClient(baseUrl);
+
+    const error = await rejection(client.request('list things', '/far-reset', {}, false));
+    expect(error).toBeInstanceOf(ForgeRateLimitError);
+    expect(error.status).toBe(403);
+    expect(error.retryAfterSeconds).toBeGreaterThan(3500);
+    expect(forge.requests).toHaveLength(1);
+  });
+
+  it.each([
+    [404, ForgeNotFoundError],
+    [401, ForgeUnauthorizedError],
+    [403, ForgeUnauthorizedError],
+    [422, ForgeError],
+  ])('maps a %i response to a typed error without retrying', async (status, errorClass) => {
+    forge.queue({ status, body: { message: 'nope' } });
+    const client = new ForgeHttpClient(baseUrl);
+
+    const error = await rejection(client.request('fetch thing', `/status-${status}`, {}, false));
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.status).toBe(status);
+    expect(error.message).toMatch(/^Failed to fetch thing: /);
+    expect(forge.requests).toHaveLength(1);
+  });
+
+  it('wraps network failures in a forge error', async () => {
+    const closed = new MockForge();
+    const closedUrl = await closed.start();
+    await closed.stop();
+    const client = new ForgeHttpClient(closedUrl);
+
+    const error = await rejection(client.request('fetch thing', '/unreachable', {}, false));
+    expect(error).toBeInstanceOf(ForgeError);
+    expect(error.status).toBeUndefined();
+  }, 15000);
+
+  it('revalidates with the ETag and reuses the cached body on 304', async () => {
+    forge.queue({ status: 200, headers: { ETag: '"v1"' }, body: { version: 1 } }, { status: 304 });
+    const client = new ForgeHttpClient(baseUrl);
+
+    await expect(client.get('/etag')).resolves.toEqual({ version: 1 });
+    await expect(client.get('/etag')).resolves.toEqual({ version: 1 });
+    expect(forge.requests[0].headers['if-none-match']).toBeUndefined();
+    expect(forge.requests[1].headers['if-none-match']).toBe('"v1"');
+  });
+});
+
+describe('GitHubClient', () => {
+  const forge = new MockForge();
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await forge.start();
+  });
+
+  afterAll(() => forge.stop());
+
+  it('maps repository metadata and sends the token', async () => {
+    forge.queue({
+      status: 200,
+      body: {
+        owner: { login: 'acme' },
+        name: 'vault',
+        full_name: 'acme/vault',
+        html_url: 'https://github.com/acme/vault',
+        default_branch: 'main',
+        private: false,
+        size: 42,
+      },
+    });
+    const client = new GitHubClient('secret', baseUrl);
+
+    await expect(client.getRepository('acme', 'vault')).resolves.toEqual({
+      owner: 'acme',
+      name: 'vault',
+      fullName: 'acme/vault',
+      url: 'https://github.com/acme/vault',
+      description: undefined,
+      defaultBranch: 'main',
+      isPrivate: false,
+      size: 42,
+    });
+    expect(forge.requests[forge.requests.length - 1].headers.authorization).toBe('token secret');
+  });
+
+  it('reports a missing repository as ForgeNotFoundError', async () => {
+    forge.queue({ status: 404, body: { message: 'Not Found' } });
+    const client = new GitHubClient(undefined, baseUrl);
+
+    await expect(client.getRepository('acme', 'missing')).rejects.toThrow(ForgeNotFoundError);
+  });
+});
@@ -0,0 +1,135 @@
+import { gzipSync } from 'zlib';
+import { ContentStore } from '../../src/ingestion/contentStore.js';
+import { gitBlobSha } from '../../src/utils/hash.js';
+import { RepositoryDirectory } from '../../src/types/index.js';
+
+interface TarEntry {
+  path: string;
+  content?: string;
+  type?: string; // ustar type flag; regular file by default
+}
+
+function header(name: string, size: number, type: string, prefix: string = ''): Buffer {
+  const block = Buffer.alloc(512);
+  block.write(name, 0, 100, 'utf8');
+  block.write('0000644\0', 100, 'ascii');
+  block.write(`${size.toString(8).padStart(11, '0')}\0`, 124, 'ascii');
+  block.write(type, 156, 'ascii');
+  block.write('ustar\0', 257, 'ascii');
+  block.write('00', 263, 'ascii');
+  block.write(prefix, 345, 155, 'utf8');
+
+  // The checksum is computed with its own field filled with spaces
+  block.fill(0x20, 148, 156);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  block.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+  return block;
+}
+
+function padded(data: Buffer): Buffer {
+  return Buffer.concat([data, Buffer.alloc((512 - (data.length % 512)) % 512)]);
+}
+
+function tarball(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.content || '', 'utf8');
+    blocks.push(header(entry.path, data.length, entry.type || '0'), padded(data));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+function directory(path: string, files: string[]): RepositoryDirectory {
+  return {
+    path,
+    name: path,
+    files: files.map((file) => ({
+      path: file,
+      name: file.substring(file.lastIndexOf('/') + 1),
+      extension: file.substring(file.lastIndexOf('.')),
+      type: 'solidity',
+      role: 'source',
+      size: 0,
+    })),
+    subdirectories: [],
+  };
+}
+
+const TOKEN = 'contract Token {}\n';
+const VAULT = 'contract Vault {}\n';
+
+describe('ContentStore.loadTarball', () => {
+  it('stores the files of a gzipped GitHub archive under their repository paths', () => {
+    const archive = gzipSync(
+      tarball([
+        { path: 'owner-repo-abc123/', type: '5' },
+        { path: 'owner-repo-abc123/src/', type: '5' },
+        { path: 'owner-repo-abc123/src/Token.sol', content: TOKEN },
+        { path: 'owner-repo-abc123/src/Vault.sol', content: VAULT },
+        { path: 'owner-repo-abc123/src/Link.sol', type: '2' },
+      ])
+    );
+    const store = new ContentStore();
+
+    expect(store.loadTarball(archive, { stripComponents: 1 })).toBe(2);
+    expect(store.get('src/Token.sol', gitBlobSha(TOKEN))).toBe(TOKEN);
+    expect(store.get('src/Vault.sol', gitBlobSha(VAULT))).toBe(VAULT);
+    expect(store.size).toBe(2);
+  });
+
+  it('reads uncompressed archives', () => {
+    const store = new ContentStore();
+
+    expect(store.loadTarball(tarball([{ path: 'src/Token.sol', content: TOKEN }]))).toBe(1);
+    expect(store.get('src/Token.sol', gitBlobSha(TOKEN))).toBe(TOKEN);
+  });
+
+  it('keeps only the files of the ingested tree when given its root', () => {
+    const archive = tarball([
+      { path: 'src/Token.sol', content: TOKEN },
+      { path: 'test/Token.t.sol', content: VAULT },
+    ]);
+    const store = new ContentStore();
+
+    expect(store.loadTarball(archive, { root: directory('', ['src/Token.sol']) })).toBe(1);
+    expect(store.has('src/Token.sol', gitBlobSha(TOKEN))).toBe(true);
+    expect(store.has('test/Token.t.sol', gitBlobSha(VAULT))).toBe(false);
+  });
+
+  it('takes long paths from pax headers, GNU long names and the ustar prefix', () => {
+    const deep = `src/${'nested/'.repeat(20)}Token.sol`;
+    const pax = `path=${deep}\n`;
+    // The record length counts its own digits
+    const record = `${pax.length + 4} ${pax}`;
+    const archive = tarball([
+      { path: 'PaxHeader', content: record, type: 'x' },
+      { path: 'truncated-pax', content: TOKEN },
+      { path: '././@LongLink', content: `lib/${'long/'.repeat(25)}Vault.sol`, type: 'L' },
+      { path: 'truncated-gnu', content: VAULT },
+    ]);
+    const prefixed = Buffer.concat([
+      header('Prefixed.sol', TOKEN.length, '0', 'contracts/core'),
+      padded(Buffer.from(TOKEN)),
+      Buffer.alloc(1024),
+    ]);
+    const store = new ContentStore();
+
+    expect(store.loadTarball(archive)).toBe(2);
+    expect(store.get(deep, gitBlobSha(TOKEN))).toBe(TOKEN);
+    expect(store.get(`lib/${'long/'.repeat(25)}Vault.sol`, gitBlobSha(VAULT))).toBe(VAULT);
+    expect(store.loadTarball(prefixed)).toBe(1);
+    expect(store.get('contracts/core/Prefixed.sol', gitBlobSha(TOKEN))).toBe(TOKEN);
+  });
+
+  it('skips entries that would escape the repository', () => {
+    const archive = tarball([
+      { path: 'wrapper/../../etc/passwd', content: 'root' },
+      { path: 'wrapper/src/Token.sol', content: TOKEN },
+    ]);
+    const store = new ContentStore();
+
+    expect(store.loadTarball(archive, { stripComponents: 1 })).toBe(1);
+    expect(store.size).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ingestRepository } from '../../src/ingestion/repository.js';
+import { gitBlobSha } from '../../src/utils/hash.js';
+import { RepositoryDirectory, RepositoryFile } from '../../src/types/index.js';
+
+function allFiles(dir: RepositoryDirectory): RepositoryFile[] {
+  return [...dir.files, ...dir.subdirectories.flatMap(allFiles)];
+}
+
+describe('local repository ingestion', () => {
+  const TOKEN = 'contract Token {}\n';
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'port2monad-local-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.mkdirSync(path.join(root, 'docs'));
+    fs.writeFileSync(path.join(root, 'src', 'Token.sol'), TOKEN);
+    fs.writeFileSync(path.join(root, 'src', 'Dump.sol'), Buffer.alloc(64 * 1024, 0x20));
+    fs.writeFileSync(path.join(root, 'docs', 'guide.md'), '# Guide\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads only the files it keeps, sizing the others from stat', async () => {
+    const readFile = jest.spyOn(fs.promises, 'readFile');
+
+    const tree = await ingestRepository(root, undefined, {
+      mode: 'walk',
+      include: ['src/**'],
+      maxBytes: 1024,
+    });
+
+    const files = allFiles(tree.root);
+    expect(files.map((file) => file.path)).toEqual(['src/Token.sol']);
+    expect(files[0].sha).toBe(gitBlobSha(TOKEN));
+    expect(tree.stats.truncationReasons).toContain('Files exceeding the remaining byte budget of 1024 were skipped');
+
+    const readPaths = readFile.mock.calls.map(([file]) => String(file));
+    expect(readPaths.some((file) => file.endsWith('Token.sol'))).toBe(true);
+    expect(readPaths.some((file) => file.endsWith('Dump.sol') || file.endsWith('guide.md'))).toBe(false);
+  });
+});
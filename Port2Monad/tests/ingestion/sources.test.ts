@@ -0,0 +1,30 @@
+import os from 'os';
+import { describeRepositorySource } from '../../src/ingestion/sources/index.js';
+
+describe('describeRepositorySource', () => {
+  it('describes forge URLs whether or not local sources are allowed', () => {
+    expect(describeRepositorySource('https://github.com/acme/vault/tree/dev', undefined, false)).toEqual({
+      kind: 'github',
+      location: 'https://github.com/acme/vault',
+      ref: 'dev',
+    });
+  });
+
+  it('rejects every local location alike when local sources are disabled', () => {
+    const locations = [os.tmpdir(), '/definitely/not/a/directory', 'file:///srv/repo.git'];
+    const messages = locations.map((location) => {
+      try {
+        describeRepositorySource(location, undefined, false);
+        return 'accepted';
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+
+    expect(new Set(messages)).toEqual(new Set(['Local repository sources are disabled on this server']));
+  });
+
+  it('describes local directories when local sources are allowed', () => {
+    expect(describeRepositorySource(os.tmpdir(), undefined, true)).toMatchObject({ kind: 'local' });
+  });
+});
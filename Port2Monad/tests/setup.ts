@@ -0,0 +1,5 @@
+// Keep test output readable; set LOG_LEVEL to see the logs of a failing test
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+// Parse from scratch rather than share the on-disk parse cache with a running server
+process.env.PARSE_CACHE_DIR = process.env.PARSE_CACHE_DIR ?? '';
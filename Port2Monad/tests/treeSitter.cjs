@@ -0,0 +1,2 @@
+// Stands in for `tree-sitter` under Jest; see tests/environment.cjs
+module.exports = globalThis.__treeSitter;